@@ -7,6 +7,7 @@ import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { PreferencesProvider } from '@/hooks/usePreferences';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -28,16 +29,28 @@ export default function RootLayout() {
   }
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen 
-          name="index" 
-          options={{ 
-            headerShown: false,
-          }} 
-        />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <PreferencesProvider>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <Stack>
+          <Stack.Screen 
+            name="index" 
+            options={{ 
+              headerShown: false,
+            }} 
+          />
+          <Stack.Screen name="settings" options={{ title: 'Settings' }} />
+          <Stack.Screen name="journal" options={{ title: 'Undo Changes' }} />
+          <Stack.Screen name="backup" options={{ title: 'Backup & Restore' }} />
+          <Stack.Screen name="duplicates" options={{ title: 'Find Duplicates' }} />
+          <Stack.Screen name="rules" options={{ title: 'Auto-fix Rules' }} />
+          <Stack.Screen name="ignored" options={{ title: 'Ignored' }} />
+          <Stack.Screen name="contact/[id]" options={{ title: 'Contact' }} />
+          <Stack.Screen name="history" options={{ title: 'History' }} />
+          <Stack.Screen name="report" options={{ title: 'Audit Report' }} />
+          <Stack.Screen name="file" options={{ title: 'Fix a File' }} />
+        </Stack>
+        <StatusBar style="auto" />
+      </ThemeProvider>
+    </PreferencesProvider>
   );
 }
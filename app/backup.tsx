@@ -0,0 +1,217 @@
+import { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  BackupScope,
+  getBackupContacts,
+  pickBackup,
+  restoreBackup,
+  shareBackup,
+} from "@/utils/backup";
+import type { VCardVersion } from "@/utils/vcard";
+
+const SCOPES: { value: BackupScope; title: string }[] = [
+  { value: "needsFix", title: "Contacts to fix" },
+  { value: "all", title: "All contacts" },
+];
+
+const VERSIONS: VCardVersion[] = ["3.0", "4.0"];
+
+export default function BackupScreen() {
+  const { preferences, activePlans } = usePreferences();
+  const [scope, setScope] = useState<BackupScope>("needsFix");
+  const [version, setVersion] = useState<VCardVersion>("3.0");
+  const [busy, setBusy] = useState<"export" | "restore" | null>(null);
+  const backgroundColor = useThemeColor({}, "background");
+  const tintColor = useThemeColor({}, "tint");
+
+  const handleExport = useCallback(async () => {
+    setBusy("export");
+    try {
+      const contacts = await getBackupContacts(scope, preferences.fixKind, activePlans, {
+        labelCase: preferences.labelCase,
+        canonicalFormat: preferences.canonicalFormat,
+      });
+      if (contacts.length === 0) {
+        Alert.alert("Nothing to back up", "No contacts match the selected scope.");
+        return;
+      }
+      await shareBackup(contacts, version);
+    } catch (error) {
+      console.error("Error exporting backup:", error);
+      Alert.alert("Backup failed", String(error));
+    } finally {
+      setBusy(null);
+    }
+  }, [scope, version, preferences, activePlans]);
+
+  const runRestore = useCallback(async (cards: Awaited<ReturnType<typeof pickBackup>>) => {
+    if (!cards) return;
+    setBusy("restore");
+    try {
+      const { updated, created, failed } = await restoreBackup(cards);
+      Alert.alert(
+        "Restore finished",
+        `${updated} contacts restored, ${created} re-created` +
+          (failed > 0 ? `, ${failed} failed.` : ".")
+      );
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  const handleRestore = useCallback(async () => {
+    try {
+      const cards = await pickBackup();
+      if (!cards) return;
+      if (cards.length === 0) {
+        Alert.alert("Nothing to restore", "The file does not contain any contacts.");
+        return;
+      }
+      Alert.alert(
+        `Restore ${cards.length} contacts?`,
+        "Contacts still on this device are overwritten with the backed-up version. Contacts that were deleted are added back.",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Restore", style: "destructive", onPress: () => runRestore(cards) },
+        ]
+      );
+    } catch (error) {
+      console.error("Error reading backup:", error);
+      Alert.alert("Could not read the file", String(error));
+    }
+  }, [runRestore]);
+
+  const renderOption = <T extends string>(
+    value: T,
+    title: string,
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <Pressable
+      key={value}
+      onPress={() => onSelect(value)}
+      style={[
+        styles.option,
+        { borderColor: tintColor },
+        selected === value && { backgroundColor: tintColor },
+      ]}
+    >
+      <ThemedText
+        style={[styles.optionText, selected === value && { color: backgroundColor }]}
+      >
+        {title}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor }]}>
+      <ThemedText style={styles.sectionTitle}>Back Up</ThemedText>
+      <ThemedText style={styles.sectionHint}>
+        Save a vCard copy of your contacts before fixing them. The file keeps
+        every field, so it can be restored without iCloud or Google sync.
+      </ThemedText>
+      <View style={styles.options}>
+        {SCOPES.map((option) => renderOption(option.value, option.title, scope, setScope))}
+      </View>
+      <View style={styles.options}>
+        {VERSIONS.map((option) => renderOption(option, `vCard ${option}`, version, setVersion))}
+      </View>
+      <Pressable
+        style={[styles.button, { backgroundColor: tintColor }, busy && styles.disabled]}
+        onPress={handleExport}
+        disabled={busy !== null}
+      >
+        {busy === "export" ? (
+          <ActivityIndicator size="small" color={backgroundColor} />
+        ) : (
+          <ThemedText style={[styles.buttonText, { color: backgroundColor }]}>
+            Export Backup
+          </ThemedText>
+        )}
+      </Pressable>
+
+      <ThemedText style={styles.sectionTitle}>Restore</ThemedText>
+      <ThemedText style={styles.sectionHint}>
+        Re-import a backup file. Contacts are matched by their id, so fixed
+        contacts get their backed-up numbers back.
+      </ThemedText>
+      <Pressable
+        style={[styles.button, { borderColor: tintColor, borderWidth: 1 }, busy && styles.disabled]}
+        onPress={handleRestore}
+        disabled={busy !== null}
+      >
+        {busy === "restore" ? (
+          <ActivityIndicator size="small" color={tintColor} />
+        ) : (
+          <ThemedText style={[styles.buttonText, { color: tintColor }]}>
+            Restore from File
+          </ThemedText>
+        )}
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    opacity: 0.6,
+    marginTop: 24,
+    marginHorizontal: 16,
+  },
+  sectionHint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginHorizontal: 16,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: "row",
+    gap: 8,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: "center",
+  },
+  optionText: {
+    fontSize: 14,
+  },
+  button: {
+    margin: 16,
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,432 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Contacts from "expo-contacts";
+import { router, Stack, useLocalSearchParams } from "expo-router";
+import { LineBadge } from "@/components/LineBadge";
+import { ThemedText } from "@/components/ThemedText";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { Contact, FixKind, PhoneNumber } from "@/types/contact";
+import { describeError } from "@/utils/batch";
+import { LIST_FIELDS, toListContact } from "@/utils/contactLoader";
+import { updatePhoneNumbers } from "@/utils/contactWriter";
+import { getPlannedChanges, planFixes, relabelPlan } from "@/utils/fixPlanner";
+import { loadIgnoreList } from "@/utils/ignoreList";
+import { recordFix } from "@/utils/history";
+import { createId } from "@/utils/journal";
+import { normalizeContactNumbers, normalizeNumber } from "@/utils/phoneNumbers";
+
+const ADDED_COLOR = "#34c759";
+const REMOVED_COLOR = "#ff3b30";
+
+export default function ContactDetailScreen() {
+  const { id, kind = "missingForms" } = useLocalSearchParams<{ id: string; kind?: FixKind }>();
+  const { preferences, activePlans, loaded: preferencesLoaded } = usePreferences();
+  const [contact, setContact] = useState<Contact | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // Keys of the changes the user unchecked, and labels typed for additions
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [labels, setLabels] = useState<Map<string, string>>(new Map());
+  const backgroundColor = useThemeColor({}, "background");
+  const textColor = useThemeColor({}, "text");
+  const tintColor = useThemeColor({}, "tint");
+
+  const loadContact = useCallback(async () => {
+    if (!preferencesLoaded) return;
+    setLoading(true);
+    try {
+      const stored = await Contacts.getContactByIdAsync(id, LIST_FIELDS);
+      const ignoreList = await loadIgnoreList();
+      setContact(
+        stored
+          ? toListContact(stored, kind, activePlans, ignoreList, {
+              labelCase: preferences.labelCase,
+              canonicalFormat: preferences.canonicalFormat,
+            })
+          : null
+      );
+    } catch (error) {
+      console.error("Error loading contact:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [
+    activePlans,
+    id,
+    kind,
+    preferences.labelCase,
+    preferences.canonicalFormat,
+    preferencesLoaded,
+  ]);
+
+  useEffect(() => {
+    loadContact();
+  }, [loadContact]);
+
+  const plan = useMemo(
+    () =>
+      contact
+        ? (planFixes(
+            [contact],
+            activePlans,
+            preferences.labelOptions,
+            kind,
+            preferences.canonicalFormat
+          )[0] ?? null)
+        : null,
+    [contact, activePlans, preferences.labelOptions, preferences.canonicalFormat, kind]
+  );
+
+  // Forms of the contact's own numbers, read the way the fixer reads them
+  const forms = useMemo(
+    () => (contact ? normalizeContactNumbers(contact.phoneNumbers, activePlans) : []),
+    [contact, activePlans]
+  );
+
+  const toggleChange = (key: string) =>
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+
+  const customized = excluded.size > 0 || labels.size > 0;
+  const changes = plan ? getPlannedChanges(relabelPlan(plan, labels), excluded) : null;
+  const changeCount = changes
+    ? changes.additions.length + changes.removals.length + (changes.rewrites?.length ?? 0)
+    : 0;
+
+  const applyFix = useCallback(async () => {
+    if (!contact || !changes) return;
+    setSaving(true);
+    const batchId = createId();
+    try {
+      const written = await updatePhoneNumbers(contact, changes, batchId);
+      recordFix({
+        kind,
+        batchId,
+        source: "manual",
+        attempted: 1,
+        fixed: written ? 1 : 0,
+        failed: 0,
+      });
+      router.back();
+    } catch (error) {
+      console.error("Error updating contact:", error);
+      recordFix({ kind, batchId, source: "manual", attempted: 1, fixed: 0, failed: 1 });
+      Alert.alert(`Could not fix ${contact.name}`, describeError(error));
+      await loadContact();
+    } finally {
+      setSaving(false);
+    }
+  }, [changes, contact, kind, loadContact]);
+
+  const renderEntry = (phone: PhoneNumber, index: number, ignored = false) => {
+    const normalized = ignored ? normalizeNumber(phone.number, activePlans) : forms[index];
+    return (
+      <View
+        key={`${ignored ? "ignored" : "entry"}-${index}`}
+        style={[styles.entry, { borderBottomColor: tintColor + "20" }, ignored && styles.ignored]}
+      >
+        <View style={styles.entryHeader}>
+          <ThemedText style={styles.label}>{phone.label}</ThemedText>
+          <ThemedText style={styles.number}>{phone.number}</ThemedText>
+          {phone.line && <LineBadge line={phone.line} />}
+        </View>
+        <ThemedText style={styles.forms}>
+          {ignored
+            ? "Ignored"
+            : normalized
+              ? `Local ${normalized.local} · International ${normalized.international}`
+              : "Short code, never changed"}
+        </ThemedText>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor }]}>
+        <ActivityIndicator size="large" color={tintColor} />
+      </View>
+    );
+  }
+
+  if (!contact) {
+    return (
+      <View style={[styles.centered, { backgroundColor }]}>
+        <Ionicons name="person-outline" size={48} color={textColor + "80"} />
+        <ThemedText style={styles.emptyText}>
+          This contact was deleted, is ignored, or has no number the fixer handles.
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor }]}>
+      <Stack.Screen options={{ title: contact.name }} />
+
+      <ThemedText style={styles.sectionTitle}>Phone numbers</ThemedText>
+      {contact.phoneNumbers.map((phone, index) => renderEntry(phone, index))}
+      {contact.ignoredNumbers?.map((phone, index) => renderEntry(phone, index, true))}
+
+      <ThemedText style={styles.sectionTitle}>Planned changes</ThemedText>
+      {!plan ? (
+        <ThemedText style={styles.sectionHint}>
+          {kind === "duplicates"
+            ? "No number is saved twice in this contact."
+            : kind === "canonicalize"
+              ? "Every number is already saved once in the canonical format."
+              : "Every number already has both forms."}
+        </ThemedText>
+      ) : (
+        <>
+          <ThemedText style={styles.sectionHint}>
+            Uncheck a change to leave it out, or edit the label a number is added with.
+          </ThemedText>
+          {plan.rewrites.map((rewrite) => {
+            const included = !excluded.has(rewrite.key);
+            return (
+              <Pressable
+                key={rewrite.key}
+                style={[styles.change, { borderBottomColor: tintColor + "20" }]}
+                onPress={() => toggleChange(rewrite.key)}
+              >
+                <Ionicons
+                  name={included ? "checkbox" : "square-outline"}
+                  size={22}
+                  color={included ? tintColor : textColor + "80"}
+                />
+                <ThemedText style={styles.label}>{rewrite.phone.label}</ThemedText>
+                <ThemedText style={[styles.number, !included && styles.excluded]}>
+                  {rewrite.phone.number} → {rewrite.number}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+          {plan.removals.map((removal) => {
+            const included = !excluded.has(removal.key);
+            return (
+              <Pressable
+                key={removal.key}
+                style={[styles.change, { borderBottomColor: tintColor + "20" }]}
+                onPress={() => toggleChange(removal.key)}
+              >
+                <Ionicons
+                  name={included ? "checkbox" : "square-outline"}
+                  size={22}
+                  color={included ? tintColor : textColor + "80"}
+                />
+                <ThemedText style={styles.label}>{removal.phone.label}</ThemedText>
+                <ThemedText
+                  style={[
+                    styles.number,
+                    included ? [styles.removed, { color: REMOVED_COLOR }] : styles.excluded,
+                  ]}
+                >
+                  {removal.phone.number}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+          {plan.additions.map((addition) => {
+            const included = !excluded.has(addition.key);
+            return (
+              <View
+                key={addition.key}
+                style={[styles.change, { borderBottomColor: tintColor + "20" }]}
+              >
+                <Pressable onPress={() => toggleChange(addition.key)} hitSlop={8}>
+                  <Ionicons
+                    name={included ? "checkbox" : "square-outline"}
+                    size={22}
+                    color={included ? tintColor : textColor + "80"}
+                  />
+                </Pressable>
+                <TextInput
+                  style={[
+                    styles.labelInput,
+                    { color: textColor, borderColor: tintColor + "30" },
+                    !included && styles.excluded,
+                  ]}
+                  value={labels.get(addition.key) ?? addition.label}
+                  onChangeText={(label) =>
+                    setLabels((prev) => new Map(prev).set(addition.key, label))
+                  }
+                  editable={included}
+                  autoCapitalize="none"
+                />
+                <ThemedText
+                  style={[styles.number, { color: ADDED_COLOR }, !included && styles.excluded]}
+                >
+                  {addition.number}
+                </ThemedText>
+              </View>
+            );
+          })}
+        </>
+      )}
+
+      <View style={styles.actions}>
+        <Pressable
+          style={[
+            styles.button,
+            { backgroundColor: tintColor },
+            (changeCount === 0 || saving) && styles.disabled,
+          ]}
+          onPress={applyFix}
+          disabled={changeCount === 0 || saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color={backgroundColor} />
+          ) : (
+            <ThemedText style={[styles.buttonText, { color: backgroundColor }]}>
+              Apply {changeCount} {changeCount === 1 ? "Change" : "Changes"}
+            </ThemedText>
+          )}
+        </Pressable>
+        <View style={styles.secondaryActions}>
+          <Pressable onPress={() => router.back()} disabled={saving} hitSlop={8}>
+            <ThemedText style={[styles.secondaryText, { color: tintColor }]}>Skip</ThemedText>
+          </Pressable>
+          {customized && (
+            <Pressable
+              onPress={() => {
+                setExcluded(new Set());
+                setLabels(new Map());
+              }}
+              disabled={saving}
+              hitSlop={8}
+            >
+              <ThemedText style={[styles.secondaryText, { color: tintColor }]}>
+                Reset Changes
+              </ThemedText>
+            </Pressable>
+          )}
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: "center",
+    opacity: 0.7,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    opacity: 0.6,
+    marginTop: 24,
+    marginHorizontal: 16,
+  },
+  sectionHint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginHorizontal: 16,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  entry: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  ignored: {
+    opacity: 0.5,
+  },
+  label: {
+    fontSize: 12,
+    textTransform: "capitalize",
+    opacity: 0.6,
+    marginRight: 8,
+    minWidth: 60,
+  },
+  number: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  forms: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  change: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  labelInput: {
+    width: 120,
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 14,
+  },
+  removed: {
+    textDecorationLine: "line-through",
+  },
+  excluded: {
+    opacity: 0.3,
+  },
+  actions: {
+    padding: 16,
+    gap: 12,
+  },
+  button: {
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  secondaryActions: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 24,
+  },
+  secondaryText: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Contacts from "expo-contacts";
+import { ThemedText } from "@/components/ThemedText";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { Contact } from "@/types/contact";
+import { describeError } from "@/utils/batch";
+import { LIST_FIELDS, loadContactPages } from "@/utils/contactLoader";
+import { addPhoneNumbers } from "@/utils/contactWriter";
+import { DuplicateGroup, findDuplicateContacts, planMerge } from "@/utils/duplicates";
+import { createId } from "@/utils/journal";
+import { contactNeedsFix } from "@/utils/phoneNumbers";
+
+const ADDED_COLOR = "#34c759";
+
+// The member with the most numbers is the natural default survivor
+const getDefaultSurvivor = (group: DuplicateGroup) =>
+  group.contacts.reduce((best, contact) =>
+    contact.phoneNumbers.length > best.phoneNumbers.length ? contact : best
+  );
+
+export default function DuplicatesScreen() {
+  const { activePlans, loaded: preferencesLoaded } = usePreferences();
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState<string | null>(null);
+  // Survivor picked by the user, by group id
+  const [survivors, setSurvivors] = useState<Map<string, string>>(new Map());
+  const backgroundColor = useThemeColor({}, "background");
+  const textColor = useThemeColor({}, "text");
+  const tintColor = useThemeColor({}, "tint");
+
+  const loadContacts = useCallback(async () => {
+    if (!preferencesLoaded) return;
+    setLoading(true);
+    try {
+      const { status } = await Contacts.requestPermissionsAsync();
+      if (status !== "granted") return;
+
+      // Every number is kept, since the merged record gets all of them
+      const loaded: Contact[] = [];
+      await loadContactPages(
+        (page) =>
+          page.contacts.forEach((contact) => {
+            if (!contact.id || !contact.phoneNumbers?.length) return;
+            const phoneNumbers = contact.phoneNumbers
+              .filter((phone) => phone.number != null)
+              .map((phone) => ({
+                label: phone.label || "other",
+                number: phone.number!,
+                id: phone.id,
+              }));
+            loaded.push({
+              id: contact.id,
+              name:
+                contact.name ||
+                `${contact.firstName || ""} ${contact.lastName || ""}`.trim(),
+              phoneNumbers,
+              needsFix: contactNeedsFix(phoneNumbers, activePlans),
+            });
+          }),
+        { fields: [Contacts.Fields.Name, ...LIST_FIELDS] }
+      );
+      setContacts(loaded);
+    } catch (error) {
+      console.error("Error loading contacts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [activePlans, preferencesLoaded]);
+
+  useEffect(() => {
+    loadContacts();
+  }, [loadContacts]);
+
+  const groups = useMemo(
+    () => findDuplicateContacts(contacts, activePlans),
+    [contacts, activePlans]
+  );
+
+  const getSurvivor = useCallback(
+    (group: DuplicateGroup) =>
+      group.contacts.find((contact) => contact.id === survivors.get(group.id)) ??
+      getDefaultSurvivor(group),
+    [survivors]
+  );
+
+  const selectSurvivor = (group: DuplicateGroup, contactId: string) =>
+    setSurvivors((prev) => new Map(prev).set(group.id, contactId));
+
+  const handleMerge = useCallback(
+    (group: DuplicateGroup) => {
+      const survivor = getSurvivor(group);
+      const others = group.contacts.filter((contact) => contact !== survivor);
+      const additions = planMerge(survivor, others, activePlans);
+
+      Alert.alert(
+        `Merge into ${survivor.name}?`,
+        `${additions.length} numbers will be added to ${survivor.name}. ` +
+          `${others.map((contact) => contact.name).join(", ")} will not be deleted; ` +
+          "remove them in your Contacts app once you have checked the result.",
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Merge",
+            onPress: async () => {
+              setMerging(group.id);
+              try {
+                await addPhoneNumbers(survivor, additions, createId());
+                await loadContacts();
+              } catch (error) {
+                console.error("Error merging contacts:", error);
+                Alert.alert(`Could not merge into ${survivor.name}`, describeError(error));
+              } finally {
+                setMerging(null);
+              }
+            },
+          },
+        ]
+      );
+    },
+    [activePlans, getSurvivor, loadContacts]
+  );
+
+  const renderGroup = ({ item }: { item: DuplicateGroup }) => {
+    const survivor = getSurvivor(item);
+    const additions = planMerge(
+      survivor,
+      item.contacts.filter((contact) => contact !== survivor),
+      activePlans
+    );
+
+    return (
+      <View style={[styles.group, { borderBottomColor: tintColor + "20" }]}>
+        <View style={styles.groupHeader}>
+          <ThemedText style={styles.confidence}>
+            {Math.round(item.confidence * 100)}% match
+          </ThemedText>
+          <ThemedText style={styles.reason}>
+            {item.sharedNumbers.length > 0
+              ? `Same number ${item.sharedNumbers.join(", ")}`
+              : "Similar names"}
+          </ThemedText>
+        </View>
+        {item.contacts.map((contact) => {
+          const selected = contact === survivor;
+          return (
+            <Pressable
+              key={contact.id}
+              style={styles.member}
+              onPress={() => selectSurvivor(item, contact.id)}
+              disabled={merging !== null}
+            >
+              <Ionicons
+                name={selected ? "radio-button-on" : "radio-button-off"}
+                size={20}
+                color={selected ? tintColor : textColor + "80"}
+              />
+              <View style={styles.memberInfo}>
+                <ThemedText style={styles.memberName}>{contact.name}</ThemedText>
+                {contact.phoneNumbers.map((phone, index) => (
+                  <ThemedText key={index} style={styles.memberNumber}>
+                    {phone.label} {phone.number}
+                  </ThemedText>
+                ))}
+              </View>
+            </Pressable>
+          );
+        })}
+        {additions.map((phone, index) => (
+          <ThemedText key={index} style={[styles.addition, { color: ADDED_COLOR }]}>
+            + {phone.label} {phone.number}
+          </ThemedText>
+        ))}
+        <Pressable
+          style={[
+            styles.mergeButton,
+            { backgroundColor: tintColor },
+            (additions.length === 0 || merging !== null) && styles.disabled,
+          ]}
+          onPress={() => handleMerge(item)}
+          disabled={additions.length === 0 || merging !== null}
+        >
+          {merging === item.id ? (
+            <ActivityIndicator size="small" color={backgroundColor} />
+          ) : (
+            <ThemedText style={[styles.mergeText, { color: backgroundColor }]}>
+              {additions.length > 0
+                ? `Merge into ${survivor.name}`
+                : `${survivor.name} already has every number`}
+            </ThemedText>
+          )}
+        </Pressable>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor }]}>
+        <ActivityIndicator size="large" color={tintColor} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor }]}>
+      <FlatList
+        data={groups}
+        renderItem={renderGroup}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={
+          groups.length > 0 ? (
+            <ThemedText style={styles.hint}>
+              Contacts that share a number or have very similar names. Pick the
+              record to keep; it gets every number of the group.
+            </ThemedText>
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="people-outline" size={48} color={textColor + "80"} />
+            <ThemedText style={styles.emptyText}>
+              No contacts look like duplicates of each other.
+            </ThemedText>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+    margin: 16,
+    marginBottom: 0,
+  },
+  group: {
+    padding: 16,
+    borderBottomWidth: 1,
+    gap: 8,
+  },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 8,
+  },
+  confidence: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  reason: {
+    flex: 1,
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  member: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 12,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  memberNumber: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  addition: {
+    fontSize: 13,
+    marginLeft: 32,
+  },
+  mergeButton: {
+    marginTop: 4,
+    padding: 10,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  mergeText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  emptyContainer: {
+    alignItems: "center",
+    padding: 32,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: "center",
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,205 @@
+import { useCallback, useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet } from "react-native";
+import type { Contact as DeviceContact } from "expo-contacts";
+import { FixPreview } from "@/components/FixPreview";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import { ThemedText } from "@/components/ThemedText";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { ContactFixPlan, FixKind } from "@/types/contact";
+import {
+  CONTACT_FILE_FORMATS,
+  ContactFile,
+  ContactFileFormat,
+  fixContactFile,
+  pickContactFile,
+  scanContactFile,
+  shareContactFile,
+} from "@/utils/contactFile";
+import { FIX_KINDS, planFixes } from "@/utils/fixPlanner";
+
+export default function FileScreen() {
+  const { preferences, activePlans } = usePreferences();
+  const [file, setFile] = useState<ContactFile | null>(null);
+  // The file's records with every fix applied so far
+  const [contacts, setContacts] = useState<DeviceContact[]>([]);
+  const [fixedCount, setFixedCount] = useState(0);
+  const [fixKind, setFixKind] = useState<FixKind>(preferences.fixKind);
+  const [exportFormat, setExportFormat] = useState<ContactFileFormat>("vcf");
+  const [preview, setPreview] = useState<ContactFixPlan[] | null>(null);
+  const [busy, setBusy] = useState<"open" | "export" | null>(null);
+  const backgroundColor = useThemeColor({}, "background");
+  const tintColor = useThemeColor({}, "tint");
+
+  const { labelCase, canonicalFormat, labelOptions } = preferences;
+  const listed = useMemo(
+    () => scanContactFile(contacts, fixKind, activePlans, { labelCase, canonicalFormat }),
+    [contacts, fixKind, activePlans, labelCase, canonicalFormat]
+  );
+  const needFix = useMemo(() => listed.filter((contact) => contact.needsFix), [listed]);
+
+  const handleOpen = useCallback(async () => {
+    setBusy("open");
+    try {
+      const picked = await pickContactFile();
+      if (!picked) return;
+      if (picked.contacts.length === 0) {
+        Alert.alert("No contacts found", "The file does not contain any contacts.");
+        return;
+      }
+      setFile(picked);
+      setContacts(picked.contacts);
+      setFixedCount(0);
+      setExportFormat(picked.format);
+    } catch (error) {
+      console.error("Error reading contacts file:", error);
+      Alert.alert("Could not read the file", String(error));
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  const handleApply = useCallback(
+    (excluded: Set<string>) => {
+      if (!preview) return;
+      const result = fixContactFile(contacts, preview, excluded);
+      setPreview(null);
+      setContacts(result.contacts);
+      setFixedCount((count) => count + result.fixed);
+    },
+    [contacts, preview]
+  );
+
+  const handleExport = useCallback(async () => {
+    if (!file) return;
+    setBusy("export");
+    try {
+      await shareContactFile(file, contacts, exportFormat);
+    } catch (error) {
+      console.error("Error exporting contacts file:", error);
+      Alert.alert("Export failed", String(error));
+    } finally {
+      setBusy(null);
+    }
+  }, [file, contacts, exportFormat]);
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor }]}>
+      <ThemedText style={styles.sectionHint}>
+        Clean a .vcf or .csv export, from an old phone or a CRM, before
+        importing it. The file is checked and fixed with the same rules as
+        your contacts, and a corrected copy is exported. Nothing is written to
+        the address book.
+      </ThemedText>
+      <Pressable
+        style={[
+          styles.button,
+          { borderColor: tintColor, borderWidth: 1 },
+          busy !== null && styles.disabled,
+        ]}
+        onPress={handleOpen}
+        disabled={busy !== null}
+      >
+        {busy === "open" ? (
+          <ActivityIndicator size="small" color={tintColor} />
+        ) : (
+          <ThemedText style={[styles.buttonText, { color: tintColor }]}>
+            {file ? "Open Another File" : "Open File"}
+          </ThemedText>
+        )}
+      </Pressable>
+
+      {file && (
+        <>
+          <ThemedText style={styles.sectionTitle}>{file.name}</ThemedText>
+          <ThemedText style={styles.sectionHint}>
+            {contacts.length} contacts, {listed.length} with numbers the fixer
+            handles. {needFix.length} need fixing
+            {fixedCount > 0 ? `; ${fixedCount} fixed so far.` : "."}
+          </ThemedText>
+
+          <ThemedText style={styles.sectionTitle}>Fix</ThemedText>
+          <SegmentedControl options={FIX_KINDS} selected={fixKind} onChange={setFixKind} />
+          <Pressable
+            style={[
+              styles.button,
+              { backgroundColor: tintColor },
+              needFix.length === 0 && styles.disabled,
+            ]}
+            onPress={() =>
+              setPreview(planFixes(needFix, activePlans, labelOptions, fixKind, canonicalFormat))
+            }
+            disabled={needFix.length === 0}
+          >
+            <ThemedText style={[styles.buttonText, { color: backgroundColor }]}>
+              {needFix.length > 0 ? `Review ${needFix.length} Fixes` : "Nothing to Fix"}
+            </ThemedText>
+          </Pressable>
+
+          <ThemedText style={styles.sectionTitle}>Export</ThemedText>
+          <SegmentedControl
+            options={CONTACT_FILE_FORMATS}
+            selected={exportFormat}
+            onChange={setExportFormat}
+          />
+          <ThemedText style={styles.sectionHint}>
+            Exported in the format it was opened in, only the phone numbers
+            change: every other field and column is kept as it was. Converting to the other
+            format keeps names, organization, notes, emails and phone numbers,
+            with CSV in the Google Contacts layout.
+          </ThemedText>
+          <Pressable
+            style={[styles.button, { backgroundColor: tintColor }, busy !== null && styles.disabled]}
+            onPress={handleExport}
+            disabled={busy !== null}
+          >
+            {busy === "export" ? (
+              <ActivityIndicator size="small" color={backgroundColor} />
+            ) : (
+              <ThemedText style={[styles.buttonText, { color: backgroundColor }]}>
+                Export Fixed File
+              </ThemedText>
+            )}
+          </Pressable>
+        </>
+      )}
+
+      <FixPreview plans={preview} onCancel={() => setPreview(null)} onApply={handleApply} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    opacity: 0.6,
+    marginTop: 24,
+    marginBottom: 8,
+    marginHorizontal: 16,
+  },
+  sectionHint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginHorizontal: 16,
+    marginTop: 8,
+  },
+  button: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+});
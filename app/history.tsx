@@ -0,0 +1,273 @@
+import { useCallback, useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, View } from "react-native";
+import { useFocusEffect } from "expo-router";
+import { BarChart } from "@/components/BarChart";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { FixKind } from "@/types/contact";
+import type { Breakdown, HistorySession } from "@/types/history";
+import {
+  clearHistory,
+  getDailyFixes,
+  loadHistory,
+  sortBreakdown,
+  summarizeHistory,
+} from "@/utils/history";
+
+const FAILED_COLOR = "#ff6b6b";
+
+// Breakdowns list the largest rows only; the rest are rarely useful
+const MAX_BREAKDOWN_ROWS = 8;
+const RECENT_SESSIONS = 30;
+
+const KIND_TITLES: Record<FixKind, string> = {
+  missingForms: "missing forms",
+  duplicates: "duplicates",
+  canonicalize: "canonical format",
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatDay = (dateKey: string) =>
+  new Date(`${dateKey}T12:00:00`).toLocaleDateString([], { weekday: "short" });
+
+const describeSession = (session: HistorySession) =>
+  session.type === "scan"
+    ? `Scanned ${session.scanned} contacts · ${session.needFix} of ${session.listed} needed fixing`
+    : `Fixed ${session.fixed} of ${session.attempted} contacts` +
+      (session.failed > 0 ? ` · ${session.failed} failed` : "");
+
+const toBars = (breakdown: Breakdown) =>
+  sortBreakdown(breakdown)
+    .slice(0, MAX_BREAKDOWN_ROWS)
+    .map(({ key, numbers, needFix }) => ({
+      key,
+      label: key,
+      value: numbers,
+      highlight: needFix,
+    }));
+
+export default function HistoryScreen() {
+  const [sessions, setSessions] = useState<HistorySession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const backgroundColor = useThemeColor({}, "background");
+  const tintColor = useThemeColor({}, "tint");
+
+  // Scans and fixes keep happening while the screen is in the background
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory()
+        .then(setSessions)
+        .catch((error) => console.error("Error loading history:", error))
+        .finally(() => setLoading(false));
+    }, [])
+  );
+
+  const summary = useMemo(() => summarizeHistory(sessions), [sessions]);
+  const dailyFixes = useMemo(() => getDailyFixes(sessions), [sessions]);
+  const recent = useMemo(() => sessions.slice(-RECENT_SESSIONS).reverse(), [sessions]);
+
+  const confirmClear = () =>
+    Alert.alert(
+      "Clear history?",
+      "Scan and fix statistics are deleted. Fixes can still be undone from Undo Changes.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: () =>
+            clearHistory()
+              .then(() => setSessions([]))
+              .catch((error) => console.error("Error clearing history:", error)),
+        },
+      ]
+    );
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor }]}>
+        <ActivityIndicator size="large" color={tintColor} />
+      </View>
+    );
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <View style={[styles.centered, { backgroundColor }]}>
+        <ThemedText style={styles.emptyTitle}>No History Yet</ThemedText>
+        <ThemedText style={styles.emptyText}>
+          Every scan of your contacts and every fix is recorded here.
+        </ThemedText>
+      </View>
+    );
+  }
+
+  const { lastScan } = summary;
+  const stats = [
+    { key: "scans", value: summary.scans, title: "Scans" },
+    { key: "fixed", value: summary.fixed, title: "Contacts fixed" },
+    { key: "auto", value: summary.autoFixed, title: "By auto-fix rules" },
+    { key: "failed", value: summary.failed, title: "Failed" },
+  ];
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor }]}>
+      <View style={styles.stats}>
+        {stats.map((stat) => (
+          <ThemedView
+            key={stat.key}
+            style={styles.stat}
+            lightColor="#f2f2f7"
+            darkColor="#1c1c1e"
+          >
+            <ThemedText
+              style={[
+                styles.statValue,
+                stat.key === "failed" && stat.value > 0 && { color: FAILED_COLOR },
+              ]}
+            >
+              {stat.value}
+            </ThemedText>
+            <ThemedText style={styles.statTitle}>{stat.title}</ThemedText>
+          </ThemedView>
+        ))}
+      </View>
+
+      <ThemedText style={styles.sectionTitle}>Fixes in the last 7 days</ThemedText>
+      <BarChart
+        bars={dailyFixes.map(({ dateKey, fixed, failed }) => ({
+          key: dateKey,
+          label: formatDay(dateKey),
+          value: fixed + failed,
+          highlight: failed,
+          caption: failed > 0 ? `${fixed} · ${failed}✕` : `${fixed}`,
+        }))}
+        highlightColor={FAILED_COLOR}
+      />
+      <ThemedText style={styles.sectionHint}>Failed fixes are shown in red.</ThemedText>
+
+      {lastScan && (
+        <>
+          <ThemedText style={styles.sectionTitle}>Last scan</ThemedText>
+          <ThemedText style={styles.sectionHint}>
+            {formatDateTime(lastScan.timestamp)}, checking {KIND_TITLES[lastScan.kind]}:{" "}
+            {lastScan.needFix} of {lastScan.listed} contacts needed fixing. Numbers in
+            those contacts are shown in red.
+          </ThemedText>
+          <ThemedText style={styles.chartTitle}>By operator</ThemedText>
+          <BarChart bars={toBars(lastScan.byOperator)} />
+          <ThemedText style={styles.chartTitle}>By label</ThemedText>
+          <BarChart bars={toBars(lastScan.byLabel)} />
+        </>
+      )}
+
+      <ThemedText style={styles.sectionTitle}>Recent sessions</ThemedText>
+      {recent.map((session) => (
+        <View key={session.id} style={[styles.row, { borderBottomColor: tintColor + "20" }]}>
+          <ThemedText style={styles.rowTitle}>{describeSession(session)}</ThemedText>
+          <ThemedText style={styles.rowSubtitle}>
+            {formatDateTime(session.timestamp)} · {KIND_TITLES[session.kind]}
+            {session.type === "fix" && session.source === "auto" ? " · auto-fix" : ""}
+          </ThemedText>
+        </View>
+      ))}
+
+      <Pressable style={styles.clearButton} onPress={confirmClear}>
+        <ThemedText style={[styles.clearText, { color: FAILED_COLOR }]}>Clear History</ThemedText>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: "center",
+    opacity: 0.7,
+  },
+  stats: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    padding: 16,
+  },
+  stat: {
+    flexBasis: "47%",
+    flexGrow: 1,
+    borderRadius: 8,
+    padding: 12,
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: "bold",
+    lineHeight: 30,
+  },
+  statTitle: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    opacity: 0.6,
+    marginTop: 16,
+    marginBottom: 8,
+    marginHorizontal: 16,
+  },
+  sectionHint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginHorizontal: 16,
+    marginTop: 4,
+  },
+  chartTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  row: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  clearButton: {
+    alignItems: "center",
+    padding: 24,
+  },
+  clearText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, SectionList, StyleSheet, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  EMPTY_IGNORE_LIST,
+  IgnoredContact,
+  IgnoredNumber,
+  IgnoreList,
+  loadIgnoreList,
+  saveIgnoreList,
+  unignoreContact,
+  unignoreNumber,
+} from "@/utils/ignoreList";
+
+type IgnoredItem = IgnoredContact | IgnoredNumber;
+
+const isNumber = (item: IgnoredItem): item is IgnoredNumber => "number" in item;
+
+export default function IgnoredScreen() {
+  const [list, setList] = useState<IgnoreList>(EMPTY_IGNORE_LIST);
+  const [loading, setLoading] = useState(true);
+  const backgroundColor = useThemeColor({}, "background");
+  const textColor = useThemeColor({}, "text");
+  const tintColor = useThemeColor({}, "tint");
+
+  useEffect(() => {
+    loadIgnoreList()
+      .then(setList)
+      .catch((error) => console.error("Error loading ignore list:", error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // The contact list picks the change up the next time it comes into view
+  const updateList = useCallback((update: (prev: IgnoreList) => IgnoreList) => {
+    setList((prev) => {
+      const next = update(prev);
+      saveIgnoreList(next).catch((error) => console.error("Error saving ignore list:", error));
+      return next;
+    });
+  }, []);
+
+  const sections = [
+    { title: "Contacts", data: list.contacts as IgnoredItem[] },
+    { title: "Numbers", data: list.numbers as IgnoredItem[] },
+  ].filter((section) => section.data.length > 0);
+
+  const renderItem = ({ item }: { item: IgnoredItem }) => (
+    <View style={[styles.row, { borderBottomColor: tintColor + "20" }]}>
+      <View style={styles.rowText}>
+        <ThemedText style={styles.rowTitle}>
+          {isNumber(item) ? item.number : item.contactName}
+        </ThemedText>
+        {isNumber(item) && (
+          <ThemedText style={styles.rowSubtitle}>
+            {item.label} · {item.contactName}
+          </ThemedText>
+        )}
+      </View>
+      <Pressable
+        onPress={() =>
+          updateList((prev) =>
+            isNumber(item) ? unignoreNumber(prev, item) : unignoreContact(prev, item.contactId)
+          )
+        }
+        hitSlop={8}
+      >
+        <ThemedText style={[styles.action, { color: tintColor }]}>Stop Ignoring</ThemedText>
+      </Pressable>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor }]}>
+        <ActivityIndicator size="large" color={tintColor} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor }]}>
+      <SectionList
+        sections={sections}
+        renderItem={renderItem}
+        keyExtractor={(item) =>
+          isNumber(item) ? `${item.contactId}:${item.number}` : item.contactId
+        }
+        renderSectionHeader={({ section }) => (
+          <ThemedText style={[styles.sectionTitle, { backgroundColor }]}>
+            {section.title}
+          </ThemedText>
+        )}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="eye-off-outline" size={48} color={textColor + "80"} />
+            <ThemedText style={styles.emptyText}>
+              Long-press a contact or a number in the list to ignore it. Ignored
+              contacts and numbers are never listed as needing a fix.
+            </ThemedText>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    opacity: 0.6,
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    paddingBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    padding: 32,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: "center",
+    opacity: 0.7,
+  },
+});
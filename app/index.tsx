@@ -1,87 +1,129 @@
-import { useState, useCallback, useEffect } from "react";
-import { View, StyleSheet, TextInput, FlatList, Pressable, ActivityIndicator, RefreshControl } from "react-native";
+import { useState, useCallback, useDeferredValue, useMemo, useRef } from "react";
+import { router, useFocusEffect } from "expo-router";
+import { View, StyleSheet, TextInput, FlatList, Pressable, ActivityIndicator, RefreshControl, Alert, AppState } from "react-native";
 // import { SafeAreaView } from "react-native-safe-area-context";
 import { useThemeColor } from "@/hooks/useThemeColor";
 import { Ionicons } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import * as Contacts from "expo-contacts";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { usePreferences } from "@/hooks/usePreferences";
+import { AttentionSection } from "@/components/AttentionSection";
+import { BatchProgress } from "@/components/BatchProgress";
+import { BatchSummary } from "@/components/BatchSummary";
+import { CoverageStats } from "@/components/CoverageStats";
+import { FixPreview } from "@/components/FixPreview";
+import { ChipGroup, FilterChips } from "@/components/FilterChips";
+import { LineBadge } from "@/components/LineBadge";
+import { NewContactsBanner } from "@/components/NewContactsBanner";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import type {
+  Contact,
+  ContactFixPlan,
+  ContactIssues,
+  FixKind,
+  PhoneNumber,
+} from "@/types/contact";
+import { describeRule, loadGroupMembers, loadRules, planAutoFixes } from "@/utils/autoFix";
+import { BatchOutcome, describeError, runBatch } from "@/utils/batch";
+import { loadContactPages, readContacts, replaceById } from "@/utils/contactLoader";
+import {
+  buildSearchIndex,
+  ContactFilters,
+  FixStatus,
+  filterContacts,
+  getFilterOptions,
+  MAX_MISSING_FORMS_BUCKET,
+  NO_FILTERS,
+  pruneFilters,
+  SearchEntry,
+  SelectionState,
+  SortOrder,
+} from "@/utils/contactSearch";
+import { updatePhoneNumbers } from "@/utils/contactWriter";
+import { Coverage, getCoverage } from "@/utils/coverage";
+import { FIX_KINDS, getPlannedChanges, planFixes } from "@/utils/fixPlanner";
+import { getBreakdowns, recordFix, recordScan } from "@/utils/history";
+import { createId } from "@/utils/journal";
+import {
+  EMPTY_IGNORE_LIST,
+  IgnoreList,
+  ignoreContact,
+  ignoreNumber,
+  isContactIgnored,
+  loadIgnoreList,
+  saveIgnoreList,
+} from "@/utils/ignoreList";
+import { formatCountryList } from "@/utils/numberingPlans";
+import { CANONICAL_FORMATS, formatForDisplay } from "@/utils/phoneNumbers";
+import {
+  getChangedIds,
+  loadScanIndex,
+  saveScanIndex,
+  ScanIndex,
+  ScanResult,
+  scanContact,
+} from "@/utils/scanIndex";
 
-interface PhoneNumber {
-  label: string;
-  number: string;
-  id?: string;
-}
-
-interface Contact {
-  id: string;
-  name: string;
-  phoneNumbers: PhoneNumber[];
-  needsFix: boolean;
+interface LoadingStates {
+  loadingContacts: boolean;
+  updatingContacts: Set<string>; // Set of contact IDs being updated
+  fixingSelected: boolean;
 }
 
-const isRwandanNumber = (number: string) => {
-  // Remove any spaces or special characters
-  const cleanNumber = number.replace(/[\s-]/g, "");
-  return cleanNumber.startsWith("07") || cleanNumber.startsWith("+2507");
-};
+// How many contacts are written at the same time by "Fix Selected"
+const FIX_CONCURRENCY = 4;
 
-const addCountryCode = (number: string) => {
-  const cleanNumber = number.replace(/[\s-]/g, "");
-  return cleanNumber.startsWith("07") ? "+250" + cleanNumber : cleanNumber;
-};
+interface BatchState {
+  outcomes: BatchOutcome<ContactFixPlan>[];
+  // Additions the user left out in the preview, reused when retrying
+  excluded: Set<string>;
+}
 
-const removeCountryCode = (number: string) => {
-  const cleanNumber = number.replace(/[\s-]/g, "");
-  return cleanNumber.startsWith("+2507") ? cleanNumber.slice(3) : cleanNumber;
+// What the fix buttons say in each mode, for one contact and for the selection
+const FIX_TITLES: Record<FixKind, { single: string; selected: string }> = {
+  missingForms: { single: "Fix Contact", selected: "Fix" },
+  duplicates: { single: "Merge Duplicates", selected: "Merge Duplicates in" },
+  canonicalize: { single: "Rewrite Numbers", selected: "Rewrite Numbers in" },
 };
 
-const validateContact = (phoneNumbers: PhoneNumber[]): boolean => {
-  const rwandanNumbers = phoneNumbers
-    .map((p) => p.number.replace(/[\s-]/g, ""))
-    .filter(isRwandanNumber);
+type StatusView = FixStatus | "all";
 
-  for (const number of rwandanNumbers) {
-    const withCode = addCountryCode(number);
-    const withoutCode = removeCountryCode(number);
-    const hasWithCode = rwandanNumbers.includes(withCode);
-    const hasWithoutCode = rwandanNumbers.includes(withoutCode);
+const STATUS_VIEWS: { value: StatusView; title: string }[] = [
+  { value: "needsFix", title: "Needs fix" },
+  { value: "fixed", title: "Already fixed" },
+  { value: "all", title: "All" },
+];
 
-    if (!hasWithCode || !hasWithoutCode) {
-      return false;
-    }
-  }
-
-  return rwandanNumbers.length > 0;
-};
-
-interface LoadingStates {
-  loadingContacts: boolean;
-  updatingContacts: Set<string>; // Set of contact IDs being updated
-  fixingSelected: boolean;
+interface PreviewState {
+  plans: ContactFixPlan[];
+  // Whether the plans came from "Fix Selected" rather than a single row
+  fromSelection: boolean;
 }
 
-const getNextLabel = (label: string, existingLabels: string[]): string => {
-  let primeCount = 0;
-  const baseLabel = label.replace(/'/g, ''); // Remove any existing primes
-  const labelPattern = new RegExp(`^${baseLabel}'*$`);
-  
-  // Count existing labels with primes
-  existingLabels.forEach(existing => {
-    if (labelPattern.test(existing)) {
-      const primes = existing.match(/'/g)?.length || 0;
-      primeCount = Math.max(primeCount, primes);
-    }
-  });
-  
-  // Add one more prime than the highest count found
-  return `${baseLabel}${"'".repeat(primeCount + 1)}`;
-};
-
 export default function ContactsScreen() {
     const insets = useSafeAreaInsets();
+  const { preferences, activePlans, loaded: preferencesLoaded, updatePreferences } = usePreferences();
+  const { fixKind, labelCase, canonicalFormat, displayFormat, sortOrder } = preferences;
+  const canonicalExample = CANONICAL_FORMATS.find(
+    (format) => format.value === canonicalFormat
+  )?.title;
+  const listOptions = useMemo(
+    () => ({ labelCase, canonicalFormat }),
+    [labelCase, canonicalFormat]
+  );
   const [searchQuery, setSearchQuery] = useState("");
+  const [filters, setFilters] = useState<ContactFilters>(NO_FILTERS);
+  const [statusView, setStatusView] = useState<StatusView>("needsFix");
   const [contacts, setContacts] = useState<Contact[]>([]);
+  // Contacts read so far while a load is running
+  const [loadedCount, setLoadedCount] = useState(0);
+  // New or changed contacts that need fixing, found by a rescan
+  const [newContactIds, setNewContactIds] = useState<string[]>([]);
+  // Contacts changed by auto-fix rules since the user last looked
+  const [autoFixedCount, setAutoFixedCount] = useState(0);
+  // Broken numbers, listed apart and never fixed
+  const [attention, setAttention] = useState<ContactIssues[]>([]);
   const [selectedContacts, setSelectedContacts] = useState<Set<string>>(
     new Set()
   );
@@ -89,139 +131,254 @@ export default function ContactsScreen() {
   const textColor = useThemeColor({}, "text");
   const tintColor = useThemeColor({}, "tint");
   const errorColor = "#ff6b6b";
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+  const [batchProgress, setBatchProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [batchResult, setBatchResult] = useState<BatchState | null>(null);
   const [loadingStates, setLoadingStates] = useState<LoadingStates>({
     loadingContacts: true,
     updatingContacts: new Set(),
     fixingSelected: false,
   });
 
-  const loadContacts = useCallback(async () => {
-    setLoadingStates(prev => ({ ...prev, loadingContacts: true }));
+  // Each load gets a number so a newer load (e.g. on focus) stops an older one
+  const loadGeneration = useRef(0);
+  // The first load shows each page as it arrives; later loads swap the list
+  // once complete, so it does not shrink back to one page on every refresh
+  const hasLoaded = useRef(false);
+  // Results of the last scan, reused for contacts that have not changed
+  const scanCache = useRef({
+    kind: fixKind,
+    plans: activePlans,
+    options: listOptions,
+    results: new Map<string, ScanResult>(),
+  });
+  // Fingerprints from the last complete scan, read from storage on the first
+  const knownIndex = useRef<ScanIndex | null | undefined>(undefined);
+  // Read again on every scan, since it is edited from Settings too
+  const ignoreList = useRef<IgnoreList>(EMPTY_IGNORE_LIST);
+
+  // Re-reads only the contacts a fix touched instead of the whole address book
+  const refreshContacts = useCallback(
+    async (contactIds: string[]) => {
+      const fresh = await readContacts(contactIds);
+      const listed = new Map<string, Contact | null>();
+      const flagged = new Map<string, ContactIssues | null>();
+      fresh.forEach((contact, contactId) => {
+        const result =
+          contact &&
+          scanContact(contact, fixKind, activePlans, undefined, ignoreList.current, listOptions);
+        listed.set(contactId, result?.contact ?? null);
+        flagged.set(contactId, result?.issues ?? null);
+        // The app's own changes are not reported as new contacts
+        if (result) {
+          scanCache.current.results.set(contactId, result);
+          if (knownIndex.current) knownIndex.current[contactId] = result.fingerprint;
+        }
+      });
+
+      setContacts((prev) => replaceById(prev, listed, (contact) => contact.id));
+      setAttention((prev) => replaceById(prev, flagged, (item) => item.contactId));
+      // Fixed contacts can no longer be unselected from the list
+      setSelectedContacts((prev) => {
+        const next = new Set(prev);
+        listed.forEach((contact, contactId) => {
+          if (!contact?.needsFix) next.delete(contactId);
+        });
+        return next;
+      });
+      setNewContactIds((prev) =>
+        prev.filter((id) => !listed.has(id) || listed.get(id)?.needsFix === true)
+      );
+      if (knownIndex.current) await saveScanIndex(knownIndex.current);
+    },
+    [activePlans, fixKind, listOptions]
+  );
+
+  // Contacts an automatic fix failed for, with their fingerprint at the
+  // time, so the same failure is not retried on every scan
+  const autoFixFailures = useRef(new Map<string, string>());
+
+  // Applies the auto-fix rules to the contacts of a complete scan. Each run
+  // is journaled as one batch, with the rule behind every change.
+  const runAutoFix = useCallback(
+    async (loaded: Contact[], results: Map<string, ScanResult>) => {
+      // Rules add the second form of a number, which canonical mode removes
+      if (fixKind === "canonicalize") return;
+      const rules = await loadRules();
+      const candidates = loaded.filter(
+        (contact) =>
+          (fixKind !== "missingForms" || contact.needsFix) &&
+          autoFixFailures.current.get(contact.id) !== results.get(contact.id)?.fingerprint
+      );
+      const fixes = planAutoFixes(
+        candidates,
+        rules,
+        await loadGroupMembers(rules),
+        activePlans,
+        preferences.labelOptions
+      );
+      if (fixes.length === 0) return;
+
+      const batchId = createId();
+      let fixedCount = 0;
+      const outcomes = await runBatch(
+        fixes,
+        async ({ plan, rule }) => {
+          const written = await updatePhoneNumbers(plan.contact, getPlannedChanges(plan), batchId, {
+            id: rule.id,
+            description: describeRule(rule),
+          });
+          if (written) fixedCount += 1;
+        },
+        { concurrency: FIX_CONCURRENCY }
+      );
+      outcomes.forEach((outcome) => {
+        const { contact } = outcome.item.plan;
+        if (outcome.ok) return;
+        console.error("Error auto-fixing contact:", contact.name, outcome.error);
+        autoFixFailures.current.set(contact.id, results.get(contact.id)?.fingerprint ?? "");
+      });
+      recordFix({
+        kind: fixKind,
+        batchId,
+        source: "auto",
+        attempted: outcomes.length,
+        fixed: fixedCount,
+        failed: outcomes.filter((outcome) => !outcome.ok).length,
+      });
+
+      await refreshContacts(fixes.map(({ plan }) => plan.contact.id));
+      setAutoFixedCount((prev) => prev + fixedCount);
+    },
+    [activePlans, fixKind, preferences.labelOptions, refreshContacts]
+  );
+
+  // Quiet loads (on focus and foreground) keep the list on screen without a
+  // spinner, unless nothing has been loaded yet or the mode, countries or
+  // list options changed, which re-checks every contact
+  const loadContacts = useCallback(async (quiet = false) => {
+    if (!preferencesLoaded) return;
+    const generation = ++loadGeneration.current;
+    const streaming = !hasLoaded.current;
+    const stale =
+      scanCache.current.kind !== fixKind ||
+      scanCache.current.plans !== activePlans ||
+      scanCache.current.options !== listOptions;
+    if (!quiet || streaming || stale) {
+      setLoadingStates(prev => ({ ...prev, loadingContacts: true }));
+    }
     try {
       const { status } = await Contacts.requestPermissionsAsync();
       if (status === "granted") {
-        const { data } = await Contacts.getContactsAsync({
-          fields: [
-            Contacts.Fields.FirstName,
-            Contacts.Fields.LastName,
-            Contacts.Fields.PhoneNumbers,
-            Contacts.Fields.ID,
-          ],
-        });
+        const previous = stale ? new Map<string, ScanResult>() : scanCache.current.results;
+        ignoreList.current = await loadIgnoreList();
+        const results = new Map<string, ScanResult>();
+        const index: ScanIndex = {};
+        const loaded: Contact[] = [];
+        const flagged: ContactIssues[] = [];
 
-        const formattedContacts: Contact[] = data
-          .filter((contact) => {
-            // First check if contact has valid ID and name
-            if (!contact.id || (!contact.firstName && !contact.lastName)) {
-              return false;
+        const completed = await loadContactPages(
+          (page) => {
+            page.contacts.forEach((contact) => {
+              if (!contact.id) return;
+              const result = scanContact(
+                contact,
+                fixKind,
+                activePlans,
+                previous.get(contact.id),
+                ignoreList.current,
+                listOptions
+              );
+              results.set(contact.id, result);
+              index[contact.id] = result.fingerprint;
+              if (result.contact) loaded.push(result.contact);
+              if (result.issues) flagged.push(result.issues);
+            });
+            setLoadedCount(page.loaded);
+            if (streaming) {
+              setContacts([...loaded]);
+              setAttention([...flagged]);
             }
+          },
+          { isCancelled: () => generation !== loadGeneration.current }
+        );
+        if (!completed) return;
 
-            // Check if contact has any Rwandan numbers
-            const rwandanNumbers = contact.phoneNumbers
-              ?.filter(phone => phone.number != null)
-              .map(phone => phone.number!.replace(/[\s-]/g, ""))
-              .filter(isRwandanNumber) || [];
-
-            if (rwandanNumbers.length === 0) {
-              return false;
-            }
+        hasLoaded.current = true;
+        scanCache.current = { kind: fixKind, plans: activePlans, options: listOptions, results };
+        recordScan({
+          kind: fixKind,
+          scanned: results.size,
+          listed: loaded.length,
+          needFix: loaded.filter((contact) => contact.needsFix).length,
+          ...getBreakdowns(loaded),
+        });
+        setContacts(loaded);
+        setAttention(flagged);
+        // Keep the selection across rescans, minus contacts that no longer need fixing
+        const stillNeedFix = new Set(
+          loaded.filter((contact) => contact.needsFix).map((contact) => contact.id)
+        );
+        setSelectedContacts((prev) => new Set([...prev].filter((id) => stillNeedFix.has(id))));
 
-            // Check if any Rwandan number doesn't have both versions
-            for (const number of rwandanNumbers) {
-              const withCode = number.startsWith("07") ? "+25" + number : number;
-              const withoutCode = number.startsWith("+2507") ? number.slice(3) : number;
-              
-              const hasWithCode = rwandanNumbers.includes(withCode);
-              const hasWithoutCode = rwandanNumbers.includes(withoutCode);
-
-              // If we find a number that doesn't have both versions, include this contact
-              if (!hasWithCode || !hasWithoutCode) {
-                return true;
-              }
-            }
+        if (knownIndex.current === undefined) {
+          knownIndex.current = await loadScanIndex();
+        }
+        if (knownIndex.current && preferences.notifyNewContacts) {
+          const changed = new Set(getChangedIds(knownIndex.current, index));
+          const fresh = loaded
+            .filter((contact) => contact.needsFix && changed.has(contact.id))
+            .map((contact) => contact.id);
+          setNewContactIds((prev) => [
+            ...new Set([...prev.filter((id) => stillNeedFix.has(id)), ...fresh]),
+          ]);
+        }
+        knownIndex.current = index;
+        await saveScanIndex(index);
 
-            // If all numbers have both versions, don't include this contact
-            return false;
-          })
-          .map((contact) => ({
-            id: contact.id!,
-            name: `${contact.firstName || ""} ${contact.lastName || ""}`.trim(),
-            phoneNumbers: (contact.phoneNumbers || [])
-              .filter((phone) => phone.number != null && isRwandanNumber(phone.number))
-              .map((phone) => ({
-                label: phone.label?.replace("_", " ").toLowerCase() || "other",
-                number: phone.number!,
-                id: phone.id,
-              })),
-            needsFix: true, // All contacts in this list need fixing
-          }));
-
-        // Remove the separate needsFix calculation since all contacts in the list need fixing
-        setContacts(formattedContacts);
-        setSelectedContacts(new Set());
+        await runAutoFix(loaded, results);
       }
     } catch (error) {
       console.error("Error loading contacts:", error);
     } finally {
-      setLoadingStates(prev => ({ ...prev, loadingContacts: false }));
+      if (generation === loadGeneration.current) {
+        setLoadingStates(prev => ({ ...prev, loadingContacts: false }));
+        setLoadedCount(0);
+      }
     }
-  }, []);
+  }, [
+    activePlans,
+    fixKind,
+    listOptions,
+    preferences.notifyNewContacts,
+    preferencesLoaded,
+    runAutoFix,
+  ]);
 
   const handleFix = useCallback(
-    async (contact: Contact) => {
+    async (plan: ContactFixPlan, excluded: Set<string>) => {
+      const { contact } = plan;
       setLoadingStates(prev => ({
         ...prev,
         updatingContacts: new Set([...prev.updatingContacts, contact.id])
       }));
 
+      const batchId = createId();
       try {
-        const updatedPhoneNumbers: PhoneNumber[] = [...contact.phoneNumbers];
-        const existingLabels = contact.phoneNumbers.map(p => p.label);
-        const rwandanNumbers = contact.phoneNumbers.filter((p) =>
-          isRwandanNumber(p.number)
-        );
-
-        for (const phone of rwandanNumbers) {
-          const cleanNumber = phone.number.replace(/[\s-]/g, "");
-          
-          if (cleanNumber.startsWith("07")) {
-            // If number starts with 07, add the +25 version
-            const withCode = "+25" + cleanNumber;
-            if (!contact.phoneNumbers.some(p => p.number.replace(/[\s-]/g, "") === withCode)) {
-              updatedPhoneNumbers.push({
-                label: getNextLabel(phone.label, existingLabels),
-                number: withCode,
-              });
-            }
-          } else if (cleanNumber.startsWith("+2507")) {
-            // If number starts with +2507, add the 0 version
-            const withoutCode = cleanNumber.slice(3); // Remove +25
-            if (!contact.phoneNumbers.some(p => p.number.replace(/[\s-]/g, "") === withoutCode)) {
-              updatedPhoneNumbers.push({
-                label: getNextLabel(phone.label, existingLabels),
-                number: withoutCode,
-              });
-            }
-          }
-        }
-
-        console.log("Updated phone numbers:", updatedPhoneNumbers);
-
-        await Contacts.updateContactAsync({
-          [Contacts.Fields.ID]: contact.id,
-          [Contacts.Fields.PhoneNumbers]: updatedPhoneNumbers.map((phone) => ({
-            label: phone.label,
-            number: phone.number,
-            id: phone.id,
-          })),
-          name: contact.name,
-          contactType: "person",
+        const written = await updatePhoneNumbers(contact, getPlannedChanges(plan, excluded), batchId);
+        recordFix({
+          kind: fixKind,
+          batchId,
+          source: "manual",
+          attempted: 1,
+          fixed: written ? 1 : 0,
+          failed: 0,
         });
-
-        // Reload contacts after update
-        await loadContacts();
+        await refreshContacts([contact.id]);
       } catch (error) {
         console.error("Error updating contact:", error);
+        recordFix({ kind: fixKind, batchId, source: "manual", attempted: 1, fixed: 0, failed: 1 });
+        Alert.alert(`Could not fix ${contact.name}`, describeError(error));
       } finally {
         setLoadingStates(prev => {
           const newUpdating = new Set(prev.updatingContacts);
@@ -230,73 +387,91 @@ export default function ContactsScreen() {
         });
       }
     },
-    [loadContacts]
+    [fixKind, refreshContacts]
   );
-  const handleFixSelected = useCallback(async () => {
+  const handleFixSelected = useCallback(async (selected: ContactFixPlan[], excluded: Set<string>) => {
+    // Contacts ignored since they were selected are left alone
+    const plans = selected.filter(
+      (plan) => !isContactIgnored(ignoreList.current, plan.contact.id)
+    );
     setLoadingStates(prev => ({ ...prev, fixingSelected: true }));
     try {
-      // Create a temporary array to store all phone number updates
-      const updatePromises = [];
-      
-      for (const contactId of selectedContacts) {
-        const contact = contacts.find((c) => c.id === contactId);
-        if (contact) {
-          const updatedPhoneNumbers: PhoneNumber[] = [...contact.phoneNumbers];
-          const existingLabels = contact.phoneNumbers.map(p => p.label);
-          const rwandanNumbers = contact.phoneNumbers.filter((p) =>
-            isRwandanNumber(p.number)
-          );
-
-          for (const phone of rwandanNumbers) {
-            const cleanNumber = phone.number.replace(/[\s-]/g, "");
-            
-            if (cleanNumber.startsWith("07")) {
-              const withCode = "+25" + cleanNumber;
-              if (!contact.phoneNumbers.some(p => p.number.replace(/[\s-]/g, "") === withCode)) {
-                updatedPhoneNumbers.push({
-                  label: getNextLabel(phone.label, existingLabels),
-                  number: withCode,
-                });
-              }
-            } else if (cleanNumber.startsWith("+2507")) {
-              const withoutCode = cleanNumber.slice(3);
-              if (!contact.phoneNumbers.some(p => p.number.replace(/[\s-]/g, "") === withoutCode)) {
-                updatedPhoneNumbers.push({
-                  label: getNextLabel(phone.label, existingLabels),
-                  number: withoutCode,
-                });
-              }
-            }
-          }
+      // The whole selection is journaled as one batch so it can be undone together
+      const batchId = createId();
+      setBatchProgress({ completed: 0, total: plans.length });
 
-          // Add the update promise to our array
-          updatePromises.push(
-            Contacts.updateContactAsync({
-              [Contacts.Fields.ID]: contact.id,
-              [Contacts.Fields.PhoneNumbers]: updatedPhoneNumbers.map((phone) => ({
-                label: phone.label,
-                number: phone.number,
-                id: phone.id,
-              })),
-              name: contact.name,
-              contactType: "person",
-            })
+      // Keep going past individual failures; they are listed in the summary
+      let fixedCount = 0;
+      const outcomes = await runBatch(
+        plans,
+        async (plan) => {
+          const written = await updatePhoneNumbers(
+            plan.contact,
+            getPlannedChanges(plan, excluded),
+            batchId
           );
+          if (written) fixedCount += 1;
+        },
+        {
+          concurrency: FIX_CONCURRENCY,
+          onProgress: (completed, total) => setBatchProgress({ completed, total }),
         }
-      }
-
-      // Wait for all updates to complete
-      await Promise.all(updatePromises);
+      );
+      outcomes.forEach((outcome) => {
+        if (!outcome.ok) {
+          console.error("Error fixing contact:", outcome.item.contact.name, outcome.error);
+        }
+      });
+      recordFix({
+        kind: fixKind,
+        batchId,
+        source: "manual",
+        attempted: outcomes.length,
+        fixed: fixedCount,
+        failed: outcomes.filter((outcome) => !outcome.ok).length,
+      });
       
-      // Only reload contacts once after all updates are done
-      await loadContacts();
+      // Failed contacts may be partly written, so every one is re-read
+      await refreshContacts(plans.map((plan) => plan.contact.id));
       setSelectedContacts(new Set());
+      setBatchResult({ outcomes, excluded });
     } catch (error) {
       console.error("Error fixing selected contacts:", error);
     } finally {
+      setBatchProgress(null);
       setLoadingStates(prev => ({ ...prev, fixingSelected: false }));
     }
-  }, [contacts, selectedContacts, loadContacts]);
+  }, [fixKind, refreshContacts]);
+
+  // Nothing is written until the user confirms the preview
+  const previewFix = useCallback(
+    (contactsToFix: Contact[], fromSelection: boolean) => {
+      setPreview({
+        plans: planFixes(
+          contactsToFix,
+          activePlans,
+          preferences.labelOptions,
+          fixKind,
+          canonicalFormat
+        ),
+        fromSelection,
+      });
+    },
+    [activePlans, canonicalFormat, fixKind, preferences.labelOptions]
+  );
+
+  const handleApplyPreview = useCallback(
+    (excluded: Set<string>) => {
+      if (!preview) return;
+      setPreview(null);
+      if (preview.fromSelection) {
+        handleFixSelected(preview.plans, excluded);
+      } else if (preview.plans.length > 0) {
+        handleFix(preview.plans[0], excluded);
+      }
+    },
+    [preview, handleFix, handleFixSelected]
+  );
 
   const toggleSelect = useCallback((contactId: string) => {
     setSelectedContacts((prev) => {
@@ -310,25 +485,187 @@ export default function ContactsScreen() {
     });
   }, []);
 
-  useEffect(() => {
-    loadContacts();
-  }, [loadContacts]);
+  // Reload whenever the screen comes back into view, since undo and settings
+  // can change which contacts need fixing
+  // Contacts saved from other apps while this one was in the background are
+  // picked up as soon as it comes back
+  useFocusEffect(
+    useCallback(() => {
+      loadContacts(true);
+      let previousState = AppState.currentState;
+      const subscription = AppState.addEventListener("change", (state) => {
+        if (previousState.match(/inactive|background/) && state === "active") {
+          loadContacts(true);
+        }
+        previousState = state;
+      });
+      return () => subscription.remove();
+    }, [loadContacts])
+  );
+
+  const reviewNewContacts = useCallback(() => {
+    setSelectedContacts(new Set(newContactIds));
+    setFilters({ ...NO_FILTERS, selection: "selected" });
+    setStatusView("needsFix");
+    setSearchQuery("");
+    setNewContactIds([]);
+  }, [newContactIds]);
+
+  // Every number is parsed once, when its contact is loaded or updated; the
+  // caches start over when the active countries change
+  const indexContacts = useMemo(() => {
+    const cache = new WeakMap<Contact, SearchEntry>();
+    return (list: Contact[], order: SortOrder) =>
+      buildSearchIndex(list, activePlans, cache, order);
+  }, [activePlans]);
+  const countCoverage = useMemo(() => {
+    const cache = new WeakMap<Contact, Coverage>();
+    return (list: Contact[]) => getCoverage(list, activePlans, cache);
+  }, [activePlans]);
+
+  // Indexing and filtering run at low priority, so pages arriving and typing
+  // never wait for the list to catch up
+  const deferredContacts = useDeferredValue(contacts);
+  const searchIndex = useMemo(
+    () => indexContacts(deferredContacts, sortOrder),
+    [indexContacts, deferredContacts, sortOrder]
+  );
+  const filterOptions = useMemo(() => getFilterOptions(searchIndex), [searchIndex]);
+
+  const hasSelection = selectedContacts.size > 0;
+  const activeFilters = useMemo(
+    () => pruneFilters(filters, filterOptions, hasSelection),
+    [filters, filterOptions, hasSelection]
+  );
+
+  const deferredQuery = useDeferredValue(searchQuery);
+  const filteredContacts = useMemo(
+    () =>
+      filterContacts(
+        searchIndex,
+        deferredQuery,
+        { ...activeFilters, status: statusView === "all" ? null : statusView },
+        selectedContacts
+      ),
+    [searchIndex, deferredQuery, activeFilters, statusView, selectedContacts]
+  );
 
-  const filteredContacts = contacts
-    .filter((contact) =>
-      contact.name.toLowerCase().includes(searchQuery.toLowerCase())
-    )
-    .sort((a, b) => a.name.localeCompare(b.name));
+  const coverage = useMemo(
+    () => countCoverage(deferredContacts),
+    [countCoverage, deferredContacts]
+  );
+
+  const updateFilter = <K extends keyof ContactFilters>(key: K) =>
+    (value: string | number | null) =>
+      setFilters((prev) => ({ ...prev, [key]: value as ContactFilters[K] }));
+
+  const chipGroups: ChipGroup[] = [
+    {
+      key: "missingForms",
+      options: filterOptions.missingForms.map((count) => ({
+        value: count,
+        title: `${count}${count === MAX_MISSING_FORMS_BUCKET ? "+" : ""} missing`,
+      })),
+      selected: activeFilters.missingForms,
+      onSelect: updateFilter("missingForms"),
+    },
+    {
+      key: "operator",
+      options: filterOptions.operators.map((operator) => ({ value: operator, title: operator })),
+      selected: activeFilters.operator,
+      onSelect: updateFilter("operator"),
+    },
+    {
+      key: "label",
+      options: filterOptions.labels.map((label) => ({ value: label, title: label })),
+      selected: activeFilters.label,
+      onSelect: updateFilter("label"),
+    },
+    {
+      key: "selection",
+      options:
+        hasSelection
+          ? ([
+              { value: "selected", title: "Selected" },
+              { value: "unselected", title: "Not selected" },
+            ] satisfies { value: SelectionState; title: string }[])
+          : [],
+      selected: activeFilters.selection,
+      onSelect: updateFilter("selection"),
+    },
+  ];
+
+  // Ignoring takes effect at once; the contact is re-read with the new list
+  const updateIgnoreList = useCallback(
+    async (update: (list: IgnoreList) => IgnoreList, contactId: string) => {
+      try {
+        ignoreList.current = update(ignoreList.current);
+        await saveIgnoreList(ignoreList.current);
+        await refreshContacts([contactId]);
+      } catch (error) {
+        console.error("Error updating ignore list:", error);
+      }
+    },
+    [refreshContacts]
+  );
+
+  const confirmIgnoreContact = useCallback(
+    (contact: Contact) =>
+      Alert.alert(
+        `Ignore ${contact.name}?`,
+        "The contact will no longer be listed or fixed. You can stop ignoring it in Settings.",
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Ignore",
+            onPress: () => updateIgnoreList((list) => ignoreContact(list, contact), contact.id),
+          },
+        ]
+      ),
+    [updateIgnoreList]
+  );
+
+  const confirmIgnoreNumber = useCallback(
+    (contact: Contact, phone: PhoneNumber) =>
+      Alert.alert(
+        `Ignore ${phone.number}?`,
+        `The fixer will leave this number of ${contact.name} alone. You can stop ignoring it in Settings.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Ignore",
+            onPress: () =>
+              updateIgnoreList(
+                (list) => ignoreNumber(list, contact, phone, activePlans),
+                contact.id
+              ),
+          },
+        ]
+      ),
+    [activePlans, updateIgnoreList]
+  );
 
   const renderPhoneNumbers = useCallback(
     (contact: Contact) => (
       <View style={styles.phoneNumbersContainer}>
         {contact.phoneNumbers.map((phone, index) => (
-          <View key={index} style={styles.phoneNumberRow}>
+          <Pressable
+            key={index}
+            style={styles.phoneNumberRow}
+            onLongPress={() => confirmIgnoreNumber(contact, phone)}
+          >
             <ThemedText style={styles.phoneLabel}>{phone.label}</ThemedText>
             <ThemedText style={[styles.phoneNumber, styles.rwandanNumber]}>
-              {phone.number}
+              {formatForDisplay(phone.number, displayFormat, activePlans)}
             </ThemedText>
+            {phone.line && <LineBadge line={phone.line} />}
+          </Pressable>
+        ))}
+        {contact.ignoredNumbers?.map((phone, index) => (
+          <View key={`ignored-${index}`} style={[styles.phoneNumberRow, styles.ignoredNumber]}>
+            <ThemedText style={styles.phoneLabel}>{phone.label}</ThemedText>
+            <ThemedText style={styles.phoneNumber}>{phone.number}</ThemedText>
+            <ThemedText style={styles.ignoredText}>ignored</ThemedText>
           </View>
         ))}
         {contact.needsFix && (
@@ -338,27 +675,39 @@ export default function ContactsScreen() {
               { backgroundColor: errorColor },
               loadingStates.updatingContacts.has(contact.id) && styles.disabledButton
             ]}
-            onPress={() => handleFix(contact)}
+            onPress={() => previewFix([contact], false)}
             disabled={loadingStates.updatingContacts.has(contact.id)}
           >
             {loadingStates.updatingContacts.has(contact.id) ? (
               <ActivityIndicator size="small" color="white" />
             ) : (
-              <ThemedText style={styles.fixButtonText}>Fix Contact</ThemedText>
+              <ThemedText style={styles.fixButtonText}>
+                {FIX_TITLES[fixKind].single}
+              </ThemedText>
             )}
           </Pressable>
         )}
       </View>
     ),
-    [handleFix, loadingStates.updatingContacts]
+    [
+      previewFix,
+      fixKind,
+      displayFormat,
+      activePlans,
+      loadingStates.updatingContacts,
+      confirmIgnoreNumber,
+    ]
   );
 
+  // Selects what the search and filters currently show
   const selectAll = useCallback(() => {
-    const contactsToSelect = contacts
-      .filter((contact) => contact.needsFix)
+    const contactsToSelect = filteredContacts
+      .filter(
+        (contact) => contact.needsFix && !isContactIgnored(ignoreList.current, contact.id)
+      )
       .map((contact) => contact.id);
     setSelectedContacts(new Set(contactsToSelect));
-  }, [contacts]);
+  }, [filteredContacts]);
 
   const clearSelection = useCallback(() => {
     setSelectedContacts(new Set());
@@ -367,7 +716,9 @@ export default function ContactsScreen() {
   const renderContact = useCallback(
     ({ item }: { item: Contact }) => (
       <Pressable
-        onPress={() => toggleSelect(item.id)}
+        // Contacts that are already fixed are listed for reference only
+        onPress={() => item.needsFix && toggleSelect(item.id)}
+        onLongPress={() => confirmIgnoreContact(item)}
         style={[
           styles.contactItem,
           { borderBottomColor: tintColor + "20" },
@@ -399,37 +750,70 @@ export default function ContactsScreen() {
           <ThemedText style={styles.contactName}>{item.name}</ThemedText>
           {renderPhoneNumbers(item)}
         </View>
+        <Pressable
+          onPress={() =>
+            router.push({ pathname: "/contact/[id]", params: { id: item.id, kind: fixKind } })
+          }
+          hitSlop={8}
+          style={styles.detailButton}
+        >
+          <Ionicons name="chevron-forward" size={20} color={textColor + "80"} />
+        </Pressable>
       </Pressable>
     ),
     [
       tintColor,
+      textColor,
       backgroundColor,
+      fixKind,
       renderPhoneNumbers,
       selectedContacts,
       toggleSelect,
+      confirmIgnoreContact,
     ]
   );
 
   const contactsNeedingFix = contacts.filter((contact) => contact.needsFix);
 
+  const isFiltering =
+    deferredQuery.trim() !== "" || Object.values(activeFilters).some((value) => value !== null);
+
   const renderEmptyState = useCallback(() => (
     <View style={styles.emptyContainer}>
       <Ionicons name="call-outline" size={48} color={textColor + "80"} />
-      <ThemedText style={styles.emptyTitle}>No Contacts Need Fixing</ThemedText>
-      <ThemedText style={styles.emptyText}>
-        All your Rwandan contacts have both versions of their numbers (with and without country code).
-      </ThemedText>
+      {fixKind === "canonicalize" ? (
+        <>
+          <ThemedText style={styles.emptyTitle}>All Numbers Are Canonical</ThemedText>
+          <ThemedText style={styles.emptyText}>
+            Every number from {formatCountryList(activePlans)} is saved once, as {canonicalExample}.
+          </ThemedText>
+        </>
+      ) : fixKind === "duplicates" ? (
+        <>
+          <ThemedText style={styles.emptyTitle}>No Duplicate Numbers</ThemedText>
+          <ThemedText style={styles.emptyText}>
+            None of your contacts from {formatCountryList(activePlans)} has the same number saved twice in the same format.
+          </ThemedText>
+        </>
+      ) : (
+        <>
+          <ThemedText style={styles.emptyTitle}>No Contacts Need Fixing</ThemedText>
+          <ThemedText style={styles.emptyText}>
+            All your contacts from {formatCountryList(activePlans)} have both versions of their numbers (with and without the {activePlans.map((plan) => "+" + plan.countryCode).join("/")} country code).
+          </ThemedText>
+        </>
+      )}
     </View>
-  ), [textColor]);
+  ), [activePlans, canonicalExample, fixKind, textColor]);
 
   return (
     <View style={[styles.container, { backgroundColor, paddingTop: insets.top - 20 }]}>
       <View style={styles.header}>
         <View style={styles.titleRow}>
           <ThemedText style={styles.title}>Contacts</ThemedText>
-          {contactsNeedingFix.length > 0 && !loadingStates.loadingContacts && (
-            <View style={styles.selectionButtons}>
-              {selectedContacts.size > 0 ? (
+          <View style={styles.selectionButtons}>
+            {contactsNeedingFix.length > 0 && !loadingStates.loadingContacts && (
+              selectedContacts.size > 0 ? (
                 <Pressable 
                   onPress={clearSelection}
                   disabled={loadingStates.fixingSelected}
@@ -452,11 +836,24 @@ export default function ContactsScreen() {
                     Select All
                   </ThemedText>
                 </Pressable>
-              )}
-            </View>
-          )}
+              )
+            )}
+            <Pressable onPress={() => router.push("/duplicates")} hitSlop={8}>
+              <Ionicons name="people-outline" size={22} color={tintColor} />
+            </Pressable>
+            <Pressable onPress={() => router.push("/history")} hitSlop={8}>
+              <Ionicons name="stats-chart-outline" size={22} color={tintColor} />
+            </Pressable>
+            <Pressable onPress={() => router.push("/journal")} hitSlop={8}>
+              <Ionicons name="arrow-undo-outline" size={22} color={tintColor} />
+            </Pressable>
+            <Pressable onPress={() => router.push("/settings")} hitSlop={8}>
+              <Ionicons name="settings-outline" size={22} color={tintColor} />
+            </Pressable>
+          </View>
         </View>
-        {loadingStates.loadingContacts ? (
+        {/* Once the first page is in, progress shows at the end of the list */}
+        {loadingStates.loadingContacts && contacts.length === 0 ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color={tintColor} />
             <ThemedText style={styles.loadingText}>Loading contacts...</ThemedText>
@@ -464,19 +861,53 @@ export default function ContactsScreen() {
         ) : (
           contactsNeedingFix.length > 0 && (
             <ThemedText style={styles.subtitle}>
-              {contactsNeedingFix.length} contacts need fixing
+              {fixKind === "duplicates"
+                ? `${contactsNeedingFix.length} contacts have duplicate numbers`
+                : fixKind === "canonicalize"
+                  ? `${contactsNeedingFix.length} contacts have numbers to rewrite`
+                  : `${contactsNeedingFix.length} contacts need fixing`}
             </ThemedText>
           )
         )}
+        <View style={styles.fixKinds}>
+          {FIX_KINDS.map((kind) => {
+            const active = kind.value === fixKind;
+            return (
+              <Pressable
+                key={kind.value}
+                style={[
+                  styles.chip,
+                  { borderColor: tintColor },
+                  active && { backgroundColor: tintColor },
+                ]}
+                onPress={() => updatePreferences({ fixKind: kind.value })}
+                disabled={loadingStates.fixingSelected}
+              >
+                <ThemedText
+                  style={[styles.chipText, { color: active ? backgroundColor : tintColor }]}
+                >
+                  {kind.title}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
       </View>
 
-      {selectedContacts.size > 0 && (
+      {batchProgress ? (
+        <BatchProgress completed={batchProgress.completed} total={batchProgress.total} />
+      ) : selectedContacts.size > 0 && (
         <Pressable
           style={[
             styles.fixSelectedButton,
             loadingStates.fixingSelected && styles.disabledButton
           ]}
-          onPress={handleFixSelected}
+          onPress={() =>
+            previewFix(
+              contacts.filter((contact) => selectedContacts.has(contact.id)),
+              true
+            )
+          }
           disabled={loadingStates.fixingSelected}
         >
           {loadingStates.fixingSelected ? (
@@ -488,41 +919,98 @@ export default function ContactsScreen() {
             </View>
           ) : (
             <ThemedText style={styles.fixSelectedText}>
-              Fix {selectedContacts.size} Selected Contacts
+              {FIX_TITLES[fixKind].selected} {selectedContacts.size} Selected Contacts
             </ThemedText>
           )}
         </Pressable>
       )}
 
+      {preferences.notifyNewContacts && (
+        <NewContactsBanner
+          count={newContactIds.length}
+          onReview={reviewNewContacts}
+          onDismiss={() => setNewContactIds([])}
+        />
+      )}
+
+      {autoFixedCount > 0 && (
+        <Pressable
+          style={styles.tipContainer}
+          onPress={() => {
+            setAutoFixedCount(0);
+            router.push("/journal");
+          }}
+        >
+          <ThemedText style={styles.tipText}>
+            ✨ Your auto-fix rules fixed {autoFixedCount} contacts. Tap to review the changes.
+          </ThemedText>
+        </Pressable>
+      )}
+
+      {!loadingStates.loadingContacts && <AttentionSection items={attention} />}
+
       {!loadingStates.loadingContacts && contacts.length === 0 ? (
-        renderEmptyState()
+        <View style={styles.emptyContainer}>
+          <Ionicons name="call-outline" size={48} color={textColor + "80"} />
+          <ThemedText style={styles.emptyTitle}>No Contacts Found</ThemedText>
+          <ThemedText style={styles.emptyText}>
+            None of your contacts has a number from {formatCountryList(activePlans)}.
+          </ThemedText>
+        </View>
       ) : (
         <>
           {selectedContacts.size > 0 && (
             <View style={styles.tipContainer}>
-              <ThemedText style={styles.tipText}>
-                ℹ️ Selected contacts will have their numbers updated to include both formats:
-                {"\n"}• 07XX → +25XX
-                {"\n"}• +25XX → 07XX
-              </ThemedText>
+              {fixKind === "canonicalize" ? (
+                <ThemedText style={styles.tipText}>
+                  ℹ️ Selected contacts will have each number rewritten in place as {canonicalExample}, keeping its label; entries that end up repeating another are removed (you can review every change before it is saved).
+                </ThemedText>
+              ) : fixKind === "duplicates" ? (
+                <ThemedText style={styles.tipText}>
+                  ℹ️ Selected contacts will keep one local and one international copy of each number; repeated entries are removed (you can review every change before it is saved).
+                </ThemedText>
+              ) : (
+                <ThemedText style={styles.tipText}>
+                  ℹ️ Selected contacts will have their numbers updated to include both formats (you can review every change before it is saved):
+                  {activePlans.map((plan) => (
+                    `\n• ${plan.trunkPrefix}${plan.nationalPrefixes[0]}XX ⇄ +${plan.countryCode}${plan.nationalPrefixes[0]}XX`
+                  ))}
+                </ThemedText>
+              )}
             </View>
           )}
           
+          {fixKind === "canonicalize" && (
+            <SegmentedControl
+              options={CANONICAL_FORMATS}
+              selected={canonicalFormat}
+              onChange={(format) => updatePreferences({ canonicalFormat: format })}
+            />
+          )}
+          <CoverageStats coverage={coverage} kind={fixKind} />
+          <SegmentedControl
+            options={STATUS_VIEWS}
+            selected={statusView}
+            onChange={setStatusView}
+          />
+
           <View style={[styles.searchContainer, { backgroundColor, borderColor: tintColor + "30" }]}>
             <Ionicons name="search" size={20} color={textColor} />
             <TextInput
               style={[styles.searchInput, { color: textColor }]}
-              placeholder="Search contacts..."
+              placeholder="Search names, numbers or labels..."
               placeholderTextColor={textColor + "80"}
               value={searchQuery}
               onChangeText={setSearchQuery}
             />
           </View>
           
+          <FilterChips groups={chipGroups} onClear={() => setFilters(NO_FILTERS)} />
+
           {contacts.length > 0 && (
             <View style={styles.tipContainer}>
               <ThemedText style={styles.tipText}>
-                💡 Tap a contact to select it for bulk fixing
+                💡 Tap a contact to select it for bulk fixing. Long-press a contact or a number to ignore it
               </ThemedText>
             </View>
           )}
@@ -531,11 +1019,49 @@ export default function ContactsScreen() {
             data={filteredContacts}
             renderItem={renderContact}
             keyExtractor={(item) => item.id}
+            ListEmptyComponent={
+              statusView === "needsFix" && !isFiltering ? (
+                renderEmptyState()
+              ) : (
+                <ThemedText style={styles.noMatches}>No contacts match.</ThemedText>
+              )
+            }
+            ListFooterComponent={
+              loadingStates.loadingContacts && loadedCount > 0 ? (
+                <View style={styles.loadingFooter}>
+                  <ActivityIndicator size="small" color={tintColor} />
+                  <ThemedText style={styles.loadingFooterText}>
+                    Reading contacts… {loadedCount} so far
+                  </ThemedText>
+                </View>
+              ) : null
+            }
+            // Rows are cheap to skip but costly to lay out in bulk
+            initialNumToRender={20}
+            maxToRenderPerBatch={20}
+            windowSize={11}
+            removeClippedSubviews
             showsVerticalScrollIndicator={false}
-            refreshControl={<RefreshControl refreshing={loadingStates.loadingContacts} onRefresh={loadContacts} />}
+            refreshControl={<RefreshControl refreshing={loadingStates.loadingContacts} onRefresh={() => loadContacts()} />}
           />
         </>
       )}
+
+      <BatchSummary
+        outcomes={batchResult?.outcomes ?? null}
+        getTitle={(plan) => plan.contact.name}
+        onClose={() => setBatchResult(null)}
+        onRetry={(failed) => {
+          const excluded = batchResult?.excluded ?? new Set<string>();
+          setBatchResult(null);
+          handleFixSelected(failed, excluded);
+        }}
+      />
+      <FixPreview
+        plans={preview?.plans ?? null}
+        onCancel={() => setPreview(null)}
+        onApply={handleApplyPreview}
+      />
     </View>
   );
 }
@@ -589,6 +1115,9 @@ const styles = StyleSheet.create({
     flex: 1,
     marginLeft: 16,
   },
+  detailButton: {
+    marginLeft: 8,
+  },
   contactName: {
     fontSize: 16,
     fontWeight: "500",
@@ -629,6 +1158,21 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "500",
   },
+  fixKinds: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
   subtitle: {
     fontSize: 14,
     opacity: 0.6,
@@ -656,6 +1200,7 @@ const styles = StyleSheet.create({
   },
   selectionButtons: {
     flexDirection: "row",
+    alignItems: "center",
     gap: 16,
   },
   selectionButtonText: {
@@ -703,6 +1248,29 @@ const styles = StyleSheet.create({
     marginHorizontal: 16,
     marginBottom: 8,
   },
+  loadingFooter: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    padding: 16,
+  },
+  loadingFooterText: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  ignoredNumber: {
+    opacity: 0.5,
+  },
+  ignoredText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+  noMatches: {
+    padding: 32,
+    textAlign: 'center',
+    opacity: 0.6,
+  },
   tipText: {
     fontSize: 14,
     opacity: 0.7,
@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  SectionList,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { JournalEntry } from "@/types/journal";
+import { undoEntries } from "@/utils/contactWriter";
+import {
+  getActiveEntries,
+  getDateKey,
+  getEntriesForContact,
+  getEntriesForDate,
+  getLastBatch,
+  getPhoneNumbersNotIn,
+  loadJournal,
+} from "@/utils/journal";
+
+const ADDED_COLOR = "#34c759";
+const REMOVED_COLOR = "#ff6b6b";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export default function JournalScreen() {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [undoing, setUndoing] = useState(false);
+  const backgroundColor = useThemeColor({}, "background");
+  const textColor = useThemeColor({}, "text");
+  const tintColor = useThemeColor({}, "tint");
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await loadJournal());
+    } catch (error) {
+      console.error("Error loading journal:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runUndo = useCallback(
+    (toUndo: JournalEntry[], description: string) => {
+      Alert.alert("Undo changes?", description, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Undo",
+          style: "destructive",
+          onPress: async () => {
+            setUndoing(true);
+            try {
+              const { reverted, conflicts, failed } = await undoEntries(toUndo);
+              if (conflicts.length > 0 || failed.length > 0) {
+                const names = (steps: typeof conflicts) =>
+                  steps.map((step) => step.contactName).join(", ");
+                Alert.alert(
+                  `Reverted ${reverted.length} of ${
+                    reverted.length + conflicts.length + failed.length
+                  } contacts`,
+                  [
+                    conflicts.length > 0 &&
+                      "These contacts were deleted or edited after the fix and were left alone:\n" +
+                        names(conflicts),
+                    failed.length > 0 &&
+                      "These contacts could not be saved and still have the fixed numbers:\n" +
+                        names(failed),
+                  ]
+                    .filter(Boolean)
+                    .join("\n\n")
+                );
+              }
+            } catch (error) {
+              console.error("Error undoing changes:", error);
+              Alert.alert("Undo failed", String(error));
+            } finally {
+              setUndoing(false);
+              await refresh();
+            }
+          },
+        },
+      ]);
+    },
+    [refresh]
+  );
+
+  const lastBatch = useMemo(() => getLastBatch(entries), [entries]);
+
+  const sections = useMemo(() => {
+    const byDate = new Map<string, JournalEntry[]>();
+    getActiveEntries(entries)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .forEach((entry) => {
+        const key = getDateKey(entry.timestamp);
+        byDate.set(key, [...(byDate.get(key) ?? []), entry]);
+      });
+    return [...byDate].map(([title, data]) => ({ title, data }));
+  }, [entries]);
+
+  const renderEntry = ({ item }: { item: JournalEntry }) => (
+    <View style={[styles.entry, { borderBottomColor: tintColor + "20" }]}>
+      <View style={styles.entryInfo}>
+        <ThemedText style={styles.entryName}>{item.contactName}</ThemedText>
+        {getPhoneNumbersNotIn(item.after, item.before).map((phone, index) => (
+          <ThemedText key={`added-${index}`} style={[styles.change, { color: ADDED_COLOR }]}>
+            + {phone.label} {phone.number}
+          </ThemedText>
+        ))}
+        {getPhoneNumbersNotIn(item.before, item.after).map((phone, index) => (
+          <ThemedText key={`removed-${index}`} style={[styles.change, { color: REMOVED_COLOR }]}>
+            − {phone.label} {phone.number}
+          </ThemedText>
+        ))}
+        <ThemedText style={styles.entryTime}>
+          {formatTime(item.timestamp)}
+          {item.rule ? ` · Auto-fixed: ${item.rule.description}` : ""}
+        </ThemedText>
+      </View>
+      <Pressable
+        disabled={undoing}
+        onPress={() =>
+          runUndo(
+            getEntriesForContact(entries, item.contactId),
+            `${item.contactName} will get back the phone numbers it had before the fixer changed it.`
+          )
+        }
+      >
+        <ThemedText style={[styles.action, { color: tintColor }]}>Undo</ThemedText>
+      </Pressable>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor }]}>
+        <ActivityIndicator size="large" color={tintColor} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor }]}>
+      {lastBatch.length > 0 && (
+        <Pressable
+          style={[styles.undoLastButton, { backgroundColor: tintColor }, undoing && styles.disabled]}
+          disabled={undoing}
+          onPress={() =>
+            runUndo(
+              lastBatch,
+              `The last fix changed ${lastBatch.length} contacts at ${formatTime(lastBatch[0].timestamp)}.`
+            )
+          }
+        >
+          {undoing ? (
+            <ActivityIndicator size="small" color={backgroundColor} />
+          ) : (
+            <ThemedText style={[styles.undoLastText, { color: backgroundColor }]}>
+              Undo Last Fix ({lastBatch.length} contacts)
+            </ThemedText>
+          )}
+        </Pressable>
+      )}
+      <SectionList
+        sections={sections}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.id}
+        renderSectionHeader={({ section }) => (
+          <View style={[styles.sectionHeader, { backgroundColor }]}>
+            <ThemedText style={styles.sectionTitle}>{section.title}</ThemedText>
+            <Pressable
+              disabled={undoing}
+              onPress={() =>
+                runUndo(
+                  getEntriesForDate(entries, section.title),
+                  `Everything the fixer changed on ${section.title} will be rolled back.`
+                )
+              }
+            >
+              <ThemedText style={[styles.action, { color: tintColor }]}>
+                Roll Back Day
+              </ThemedText>
+            </Pressable>
+          </View>
+        )}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="time-outline" size={48} color={textColor + "80"} />
+            <ThemedText style={styles.emptyText}>
+              Changes made by the fixer will appear here so you can undo them.
+            </ThemedText>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  undoLastButton: {
+    margin: 16,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  undoLastText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    opacity: 0.6,
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryName: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  change: {
+    fontSize: 14,
+  },
+  entryTime: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    padding: 32,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: "center",
+    opacity: 0.7,
+  },
+});
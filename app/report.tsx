@@ -0,0 +1,116 @@
+import { useCallback, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet } from "react-native";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import { ThemedText } from "@/components/ThemedText";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  getAuditRows,
+  REPORT_FORMATS,
+  REPORT_PRIVACY,
+  ReportFormat,
+  ReportPrivacy,
+  shareAuditReport,
+} from "@/utils/auditReport";
+
+const PRIVACY_HINTS: Record<ReportPrivacy, string> = {
+  full: "Numbers are exported as saved.",
+  mask: "Only the last three digits of each number are kept.",
+  hash: "Each number is replaced by an HMAC-SHA256 of its international form, keyed with a secret kept on this device. The same number matches across reports from this device, and without the key the hashes cannot be turned back into numbers.",
+};
+
+export default function ReportScreen() {
+  const { preferences, activePlans } = usePreferences();
+  const [format, setFormat] = useState<ReportFormat>("csv");
+  const [privacy, setPrivacy] = useState<ReportPrivacy>("mask");
+  const [exporting, setExporting] = useState(false);
+  const backgroundColor = useThemeColor({}, "background");
+  const tintColor = useThemeColor({}, "tint");
+
+  const handleExport = useCallback(async () => {
+    setExporting(true);
+    try {
+      const rows = await getAuditRows(preferences.fixKind, activePlans, {
+        labelCase: preferences.labelCase,
+        canonicalFormat: preferences.canonicalFormat,
+      });
+      if (rows.length === 0) {
+        Alert.alert("Nothing to report", "No contacts have been examined or changed yet.");
+        return;
+      }
+      await shareAuditReport(rows, format, privacy, activePlans);
+    } catch (error) {
+      console.error("Error exporting audit report:", error);
+      Alert.alert("Export failed", String(error));
+    } finally {
+      setExporting(false);
+    }
+  }, [preferences, activePlans, format, privacy]);
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor }]}>
+      <ThemedText style={styles.sectionHint}>
+        One row per contact the fixer examined: its id, name, original numbers,
+        the numbers and labels that were added, and whether it was fixed,
+        undone, ignored, still needs fixing or is fine. Statuses follow the
+        current fix mode.
+      </ThemedText>
+
+      <ThemedText style={styles.sectionTitle}>Format</ThemedText>
+      <SegmentedControl options={REPORT_FORMATS} selected={format} onChange={setFormat} />
+
+      <ThemedText style={styles.sectionTitle}>Phone Numbers</ThemedText>
+      <SegmentedControl options={REPORT_PRIVACY} selected={privacy} onChange={setPrivacy} />
+      <ThemedText style={styles.sectionHint}>{PRIVACY_HINTS[privacy]}</ThemedText>
+
+      <Pressable
+        style={[styles.button, { backgroundColor: tintColor }, exporting && styles.disabled]}
+        onPress={handleExport}
+        disabled={exporting}
+      >
+        {exporting ? (
+          <ActivityIndicator size="small" color={backgroundColor} />
+        ) : (
+          <ThemedText style={[styles.buttonText, { color: backgroundColor }]}>
+            Export Report
+          </ThemedText>
+        )}
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    opacity: 0.6,
+    marginTop: 24,
+    marginBottom: 8,
+    marginHorizontal: 16,
+  },
+  sectionHint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginHorizontal: 16,
+    marginTop: 8,
+  },
+  button: {
+    margin: 16,
+    marginTop: 24,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  TextInput,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import { ThemedText } from "@/components/ThemedText";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { AutoFixRule, RuleAction, RuleCondition } from "@/types/autoFix";
+import { describeRule, getGroupNames, loadRules, saveRules } from "@/utils/autoFix";
+import { createId } from "@/utils/journal";
+
+type ConditionType = RuleCondition["type"];
+
+const ACTIONS: { value: RuleAction; title: string }[] = [
+  { value: "autoFix", title: "Auto-fix" },
+  { value: "never", title: "Never auto-fix" },
+];
+
+const CONDITIONS: { value: ConditionType; title: string }[] = [
+  { value: "label", title: "Label" },
+  { value: "operator", title: "Operator" },
+  { value: "group", title: "Group" },
+  { value: "everyone", title: "Everyone" },
+];
+
+export default function RulesScreen() {
+  const { activePlans } = usePreferences();
+  const [rules, setRules] = useState<AutoFixRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [groupNames, setGroupNames] = useState<string[]>([]);
+  const [action, setAction] = useState<RuleAction>("autoFix");
+  const [conditionType, setConditionType] = useState<ConditionType>("label");
+  const [value, setValue] = useState("");
+  const backgroundColor = useThemeColor({}, "background");
+  const textColor = useThemeColor({}, "text");
+  const tintColor = useThemeColor({}, "tint");
+
+  useEffect(() => {
+    loadRules()
+      .then(setRules)
+      .catch((error) => console.error("Error loading rules:", error))
+      .finally(() => setLoading(false));
+    getGroupNames()
+      .then(setGroupNames)
+      .catch((error) => console.error("Error loading contact groups:", error));
+  }, []);
+
+  const updateRules = useCallback((update: (prev: AutoFixRule[]) => AutoFixRule[]) => {
+    setRules((prev) => {
+      const next = update(prev);
+      saveRules(next).catch((error) => console.error("Error saving rules:", error));
+      return next;
+    });
+  }, []);
+
+  const operators = useMemo(
+    () => [
+      ...new Set(
+        activePlans.flatMap((plan) => (plan.operators ?? []).map((range) => range.operator))
+      ),
+    ],
+    [activePlans]
+  );
+
+  // Operators and groups are picked from a list; labels are typed
+  const choices = conditionType === "operator" ? operators : groupNames;
+  const canAdd = conditionType === "everyone" || value.trim() !== "";
+
+  const addRule = () => {
+    const condition: RuleCondition =
+      conditionType === "everyone"
+        ? { type: "everyone" }
+        : { type: conditionType, value: value.trim() };
+    updateRules((prev) => [...prev, { id: createId(), action, condition, enabled: true }]);
+    setValue("");
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor }]}>
+        <ActivityIndicator size="large" color={tintColor} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor }]}>
+      <ThemedText style={styles.sectionHint}>
+        Rules are applied every time contacts are scanned. Auto-fixes only add
+        missing forms and are listed under Undo Changes, so each one can be
+        reviewed and reverted. A "never" rule wins over any auto-fix rule.
+      </ThemedText>
+
+      <ThemedText style={styles.sectionTitle}>Rules</ThemedText>
+      {rules.length === 0 && (
+        <ThemedText style={styles.sectionHint}>
+          No rules yet. Every fix waits for you to confirm it.
+        </ThemedText>
+      )}
+      {rules.map((rule) => (
+        <View key={rule.id} style={[styles.row, { borderBottomColor: tintColor + "20" }]}>
+          <ThemedText style={[styles.rowTitle, !rule.enabled && styles.disabled]}>
+            {describeRule(rule)}
+          </ThemedText>
+          <Switch
+            value={rule.enabled}
+            onValueChange={(enabled) =>
+              updateRules((prev) =>
+                prev.map((other) => (other.id === rule.id ? { ...other, enabled } : other))
+              )
+            }
+          />
+          <Pressable
+            onPress={() => updateRules((prev) => prev.filter((other) => other.id !== rule.id))}
+            hitSlop={8}
+          >
+            <Ionicons name="trash-outline" size={20} color={textColor + "80"} />
+          </Pressable>
+        </View>
+      ))}
+
+      <ThemedText style={styles.sectionTitle}>Add a rule</ThemedText>
+      <View style={styles.form}>
+        <SegmentedControl options={ACTIONS} selected={action} onChange={setAction} />
+        <SegmentedControl
+          options={CONDITIONS}
+          selected={conditionType}
+          onChange={(type) => {
+            setConditionType(type);
+            setValue("");
+          }}
+        />
+        {conditionType === "label" && (
+          <TextInput
+            style={[styles.input, { color: textColor, borderColor: tintColor + "30" }]}
+            value={value}
+            onChangeText={setValue}
+            placeholder="Label, e.g. mobile"
+            placeholderTextColor={textColor + "80"}
+            autoCapitalize="none"
+          />
+        )}
+        {(conditionType === "operator" || conditionType === "group") && (
+          <View style={styles.choices}>
+            {choices.map((choice) => (
+              <Pressable
+                key={choice}
+                style={[
+                  styles.choice,
+                  { borderColor: tintColor },
+                  choice === value && { backgroundColor: tintColor },
+                ]}
+                onPress={() => setValue(choice)}
+              >
+                <ThemedText
+                  style={[
+                    styles.choiceText,
+                    { color: choice === value ? backgroundColor : tintColor },
+                  ]}
+                >
+                  {choice}
+                </ThemedText>
+              </Pressable>
+            ))}
+            {conditionType === "group" && choices.length === 0 && (
+              <ThemedText style={styles.hint}>
+                {Platform.OS === "ios"
+                  ? "You have no contact groups."
+                  : "Contact groups are only available on iOS."}
+              </ThemedText>
+            )}
+          </View>
+        )}
+        <ThemedText style={styles.hint}>
+          {describeRule({
+            id: "",
+            action,
+            enabled: true,
+            condition:
+              conditionType === "everyone"
+                ? { type: "everyone" }
+                : { type: conditionType, value: value.trim() || "…" },
+          })}
+        </ThemedText>
+        <Pressable
+          style={[styles.addButton, { backgroundColor: tintColor }, !canAdd && styles.disabled]}
+          onPress={addRule}
+          disabled={!canAdd}
+        >
+          <ThemedText style={[styles.addButtonText, { color: backgroundColor }]}>
+            Add Rule
+          </ThemedText>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    opacity: 0.6,
+    marginTop: 24,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 16,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  form: {
+    gap: 8,
+  },
+  input: {
+    marginHorizontal: 16,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+  },
+  choices: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginHorizontal: 16,
+  },
+  choice: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  choiceText: {
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginHorizontal: 16,
+  },
+  addButton: {
+    margin: 16,
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+});
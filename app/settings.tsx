@@ -0,0 +1,276 @@
+import { useCallback } from "react";
+import { Pressable, ScrollView, StyleSheet, Switch, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { LabelStrategyPicker } from "@/components/LabelStrategyPicker";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import { ThemedText } from "@/components/ThemedText";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { SORT_ORDERS } from "@/utils/contactSearch";
+import { FIX_KINDS } from "@/utils/fixPlanner";
+import { LABEL_CASES } from "@/utils/labels";
+import { getNumberingPlans } from "@/utils/numberingPlans";
+import { CANONICAL_FORMATS, DISPLAY_FORMATS } from "@/utils/phoneNumbers";
+import { THEME_OVERRIDES } from "@/utils/preferences";
+
+export default function SettingsScreen() {
+  const { preferences, activePlans, updatePreferences } = usePreferences();
+  const backgroundColor = useThemeColor({}, "background");
+  const tintColor = useThemeColor({}, "tint");
+  const textColor = useThemeColor({}, "text");
+  const { activeCountries } = preferences;
+
+  const toggleCountry = useCallback(
+    (id: string, enabled: boolean) => {
+      const next = enabled
+        ? [...activeCountries, id]
+        : activeCountries.filter((country) => country !== id);
+      // Detection needs at least one numbering plan
+      if (next.length > 0) {
+        updatePreferences({ activeCountries: next });
+      }
+    },
+    [activeCountries, updatePreferences]
+  );
+
+  const makeDefaultCountry = useCallback(
+    (id: string) =>
+      updatePreferences({
+        activeCountries: [id, ...activeCountries.filter((country) => country !== id)],
+      }),
+    [activeCountries, updatePreferences]
+  );
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor }]}>
+      <ThemedText style={styles.sectionTitle}>Countries</ThemedText>
+      <ThemedText style={styles.sectionHint}>
+        Numbers are checked against the active countries. When a local number is
+        valid in several of them, the first one enabled wins.
+      </ThemedText>
+      {getNumberingPlans().map((plan) => {
+        const position = activeCountries.indexOf(plan.id);
+        return (
+          <View
+            key={plan.id}
+            style={[styles.row, { borderBottomColor: tintColor + "20" }]}
+          >
+            <View style={styles.rowText}>
+              <ThemedText style={styles.rowTitle}>
+                {plan.name}
+                {position >= 0 && activeCountries.length > 1
+                  ? `  #${position + 1}`
+                  : ""}
+              </ThemedText>
+              <ThemedText style={styles.rowSubtitle}>
+                +{plan.countryCode}
+                {plan.trunkPrefix
+                  ? ` · local numbers start with ${plan.trunkPrefix}`
+                  : " · no trunk prefix"}
+              </ThemedText>
+              {position > 0 && (
+                <Pressable onPress={() => makeDefaultCountry(plan.id)} hitSlop={8}>
+                  <ThemedText style={[styles.rowAction, { color: tintColor }]}>
+                    Make Default
+                  </ThemedText>
+                </Pressable>
+              )}
+            </View>
+            <Switch
+              value={position >= 0}
+              onValueChange={(enabled) => toggleCountry(plan.id, enabled)}
+              disabled={position >= 0 && activeCountries.length === 1}
+            />
+          </View>
+        );
+      })}
+
+      <ThemedText style={styles.sectionTitle}>Labels</ThemedText>
+      <ThemedText style={styles.sectionHint}>
+        How numbers added by the fixer are labelled. The preview shows the result
+        for a sample contact.
+      </ThemedText>
+      <LabelStrategyPicker
+        value={preferences.labelOptions}
+        onChange={(labelOptions) => updatePreferences({ labelOptions })}
+        plan={activePlans[0]}
+      />
+      <ThemedText style={styles.sectionHint}>
+        Labels from the address book can be shown and carried over in lowercase,
+        or exactly as saved.
+      </ThemedText>
+      <SegmentedControl
+        options={LABEL_CASES}
+        selected={preferences.labelCase}
+        onChange={(labelCase) => updatePreferences({ labelCase })}
+      />
+
+      <ThemedText style={styles.sectionTitle}>Fixing</ThemedText>
+      <ThemedText style={styles.sectionHint}>
+        The mode the contact list opens in. Switching modes on the list changes
+        this too.
+      </ThemedText>
+      <SegmentedControl
+        options={FIX_KINDS}
+        selected={preferences.fixKind}
+        onChange={(fixKind) => updatePreferences({ fixKind })}
+      />
+      <ThemedText style={styles.sectionHint}>
+        Canonical mode stores every number once, rewritten in place to this
+        format. Labels are kept.
+      </ThemedText>
+      <SegmentedControl
+        options={CANONICAL_FORMATS}
+        selected={preferences.canonicalFormat}
+        onChange={(canonicalFormat) => updatePreferences({ canonicalFormat })}
+      />
+
+      <ThemedText style={styles.sectionTitle}>Display</ThemedText>
+      <ThemedText style={styles.sectionHint}>
+        Numbers can be listed as saved or converted to one form. This only
+        changes how they are shown.
+      </ThemedText>
+      <SegmentedControl
+        options={DISPLAY_FORMATS}
+        selected={preferences.displayFormat}
+        onChange={(displayFormat) => updatePreferences({ displayFormat })}
+      />
+      <ThemedText style={styles.sectionHint}>Sort contacts</ThemedText>
+      <SegmentedControl
+        options={SORT_ORDERS}
+        selected={preferences.sortOrder}
+        onChange={(sortOrder) => updatePreferences({ sortOrder })}
+      />
+      <ThemedText style={styles.sectionHint}>Theme</ThemedText>
+      <SegmentedControl
+        options={THEME_OVERRIDES}
+        selected={preferences.theme}
+        onChange={(theme) => updatePreferences({ theme })}
+      />
+
+      <ThemedText style={styles.sectionTitle}>Scanning</ThemedText>
+      <ThemedText style={styles.sectionHint}>
+        Contacts are checked again whenever the app comes back to the
+        foreground. Only new or changed contacts are re-evaluated.
+      </ThemedText>
+      <View style={[styles.row, { borderBottomColor: tintColor + "20" }]}>
+        <View style={styles.rowText}>
+          <ThemedText style={styles.rowTitle}>New contacts banner</ThemedText>
+          <ThemedText style={styles.rowSubtitle}>
+            Tell me when contacts saved since the last scan need fixing
+          </ThemedText>
+        </View>
+        <Switch
+          value={preferences.notifyNewContacts}
+          onValueChange={(notifyNewContacts) => updatePreferences({ notifyNewContacts })}
+        />
+      </View>
+      <Pressable
+        style={[styles.row, { borderBottomColor: tintColor + "20" }]}
+        onPress={() => router.push("/rules")}
+      >
+        <View style={styles.rowText}>
+          <ThemedText style={styles.rowTitle}>Auto-fix Rules</ThemedText>
+          <ThemedText style={styles.rowSubtitle}>
+            Fix some contacts during the scan without asking first
+          </ThemedText>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={textColor + "80"} />
+      </Pressable>
+      <Pressable
+        style={[styles.row, { borderBottomColor: tintColor + "20" }]}
+        onPress={() => router.push("/ignored")}
+      >
+        <View style={styles.rowText}>
+          <ThemedText style={styles.rowTitle}>Ignored Contacts & Numbers</ThemedText>
+          <ThemedText style={styles.rowSubtitle}>
+            Contacts and numbers the fixer leaves alone
+          </ThemedText>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={textColor + "80"} />
+      </Pressable>
+
+      <ThemedText style={styles.sectionTitle}>Data</ThemedText>
+      <Pressable
+        style={[styles.row, { borderBottomColor: tintColor + "20" }]}
+        onPress={() => router.push("/backup")}
+      >
+        <View style={styles.rowText}>
+          <ThemedText style={styles.rowTitle}>Backup & Restore</ThemedText>
+          <ThemedText style={styles.rowSubtitle}>
+            Export contacts as a vCard file or restore them from one
+          </ThemedText>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={textColor + "80"} />
+      </Pressable>
+      <Pressable
+        style={[styles.row, { borderBottomColor: tintColor + "20" }]}
+        onPress={() => router.push("/report")}
+      >
+        <View style={styles.rowText}>
+          <ThemedText style={styles.rowTitle}>Audit Report</ThemedText>
+          <ThemedText style={styles.rowSubtitle}>
+            Export what was examined and changed, per contact, as CSV or JSON
+          </ThemedText>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={textColor + "80"} />
+      </Pressable>
+      <Pressable
+        style={[styles.row, { borderBottomColor: tintColor + "20" }]}
+        onPress={() => router.push("/file")}
+      >
+        <View style={styles.rowText}>
+          <ThemedText style={styles.rowTitle}>Fix a File</ThemedText>
+          <ThemedText style={styles.rowSubtitle}>
+            Fix a .vcf or .csv export without touching the address book
+          </ThemedText>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={textColor + "80"} />
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    opacity: 0.6,
+    marginTop: 24,
+    marginHorizontal: 16,
+  },
+  sectionHint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginHorizontal: 16,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  rowAction: {
+    fontSize: 13,
+    fontWeight: "500",
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { ContactIssues } from "@/types/contact";
+
+const WARNING_COLOR = "#ff9500";
+
+/**
+ * Collapsible list of numbers the fixer will not touch because they look
+ * broken, with the reason and any likely correction. Fixing them is left to
+ * the user.
+ */
+export function AttentionSection({ items }: { items: ContactIssues[] }) {
+  const [expanded, setExpanded] = useState(false);
+  const tintColor = useThemeColor({}, "tint");
+
+  if (items.length === 0) return null;
+
+  const issueCount = items.reduce((count, item) => count + item.issues.length, 0);
+
+  return (
+    <View style={[styles.container, { borderColor: WARNING_COLOR + "60" }]}>
+      <Pressable style={styles.header} onPress={() => setExpanded((prev) => !prev)}>
+        <Ionicons name="warning-outline" size={18} color={WARNING_COLOR} />
+        <ThemedText style={styles.title}>
+          Needs attention ({issueCount} numbers)
+        </ThemedText>
+        <Ionicons
+          name={expanded ? "chevron-up" : "chevron-down"}
+          size={18}
+          color={tintColor}
+        />
+      </Pressable>
+      {expanded && (
+        <>
+          <ThemedText style={styles.hint}>
+            These numbers look broken, so they are never fixed automatically.
+            Correct them in your Contacts app.
+          </ThemedText>
+          {items.map((item) => (
+            <View key={item.contactId} style={styles.contact}>
+              <ThemedText style={styles.contactName}>{item.contactName}</ThemedText>
+              {item.issues.map((issue, index) => (
+                <View key={index} style={styles.issue}>
+                  <ThemedText style={styles.number}>
+                    {issue.phone.label} {issue.phone.number}
+                  </ThemedText>
+                  <ThemedText style={[styles.reason, { color: WARNING_COLOR }]}>
+                    {issue.reason}
+                  </ThemedText>
+                  {issue.suggestions.length > 0 && (
+                    <ThemedText style={styles.suggestion}>
+                      Did you mean {issue.suggestions.join(" or ")}?
+                    </ThemedText>
+                  )}
+                </View>
+              ))}
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 12,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 8,
+  },
+  contact: {
+    marginTop: 12,
+    gap: 4,
+  },
+  contactName: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  issue: {
+    marginLeft: 8,
+  },
+  number: {
+    fontSize: 14,
+  },
+  reason: {
+    fontSize: 12,
+  },
+  suggestion: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,92 @@
+import { StyleSheet, View } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+
+export interface ChartBar {
+  key: string;
+  label: string;
+  value: number;
+  // Part of the value drawn in the highlight color, from the left
+  highlight?: number;
+  // Shown after the bar instead of the value
+  caption?: string;
+}
+
+interface BarChartProps {
+  bars: ChartBar[];
+  highlightColor?: string;
+}
+
+/**
+ * Horizontal bars scaled to the largest value, one row per bar.
+ */
+export function BarChart({ bars, highlightColor = "#ff6b6b" }: BarChartProps) {
+  const tintColor = useThemeColor({}, "tint");
+  const max = Math.max(1, ...bars.map((bar) => bar.value));
+
+  return (
+    <View style={styles.container}>
+      {bars.map((bar) => (
+        <View key={bar.key} style={styles.row}>
+          <ThemedText style={styles.label} numberOfLines={1}>
+            {bar.label}
+          </ThemedText>
+          <ThemedView style={styles.track} lightColor="#e5e5ea" darkColor="#2c2c2e">
+            <View
+              style={[
+                styles.fill,
+                { backgroundColor: tintColor, width: `${(bar.value / max) * 100}%` },
+              ]}
+            >
+              {bar.highlight !== undefined && bar.value > 0 && (
+                <View
+                  style={[
+                    styles.fill,
+                    {
+                      backgroundColor: highlightColor,
+                      width: `${(bar.highlight / bar.value) * 100}%`,
+                    },
+                  ]}
+                />
+              )}
+            </View>
+          </ThemedView>
+          <ThemedText style={styles.value}>{bar.caption ?? bar.value}</ThemedText>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    gap: 6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  label: {
+    width: 90,
+    fontSize: 13,
+  },
+  track: {
+    flex: 1,
+    height: 12,
+    borderRadius: 6,
+    overflow: "hidden",
+  },
+  fill: {
+    height: "100%",
+    borderRadius: 6,
+  },
+  value: {
+    minWidth: 48,
+    fontSize: 12,
+    textAlign: "right",
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,53 @@
+import { StyleSheet, View } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+
+interface BatchProgressProps {
+  completed: number;
+  total: number;
+  // Verb shown in the caption, e.g. "fixed"
+  action?: string;
+}
+
+export function BatchProgress({ completed, total, action = "fixed" }: BatchProgressProps) {
+  const tintColor = useThemeColor({}, "tint");
+  const fraction = total > 0 ? completed / total : 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.track, { backgroundColor: tintColor + "30" }]}>
+        <View
+          style={[
+            styles.fill,
+            { backgroundColor: tintColor, width: `${Math.round(fraction * 100)}%` },
+          ]}
+        />
+      </View>
+      <ThemedText style={styles.caption}>
+        {completed} of {total} {action}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    gap: 6,
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  fill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  caption: {
+    fontSize: 14,
+    opacity: 0.7,
+    textAlign: "center",
+  },
+});
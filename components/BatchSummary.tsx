@@ -0,0 +1,151 @@
+import { Modal, Pressable, SectionList, StyleSheet, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { BatchOutcome } from "@/utils/batch";
+
+const SUCCESS_COLOR = "#34c759";
+const FAILURE_COLOR = "#ff6b6b";
+
+interface BatchSummaryProps<T> {
+  // Outcomes to show; the summary is hidden while this is null
+  outcomes: BatchOutcome<T>[] | null;
+  getTitle: (item: T) => string;
+  onRetry: (failed: T[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lists which items of a batch succeeded and which failed, with the reason,
+ * and offers to retry only the failures.
+ */
+export function BatchSummary<T>({ outcomes, getTitle, onRetry, onClose }: BatchSummaryProps<T>) {
+  const backgroundColor = useThemeColor({}, "background");
+  const tintColor = useThemeColor({}, "tint");
+
+  const failed = (outcomes ?? []).filter((outcome) => !outcome.ok);
+  const succeeded = (outcomes ?? []).filter((outcome) => outcome.ok);
+  const sections = [
+    { title: `Failed (${failed.length})`, data: failed },
+    { title: `Fixed (${succeeded.length})`, data: succeeded },
+  ].filter((section) => section.data.length > 0);
+
+  const renderOutcome = ({ item }: { item: BatchOutcome<T> }) => (
+    <View style={[styles.row, { borderBottomColor: tintColor + "20" }]}>
+      <Ionicons
+        name={item.ok ? "checkmark-circle" : "alert-circle"}
+        size={20}
+        color={item.ok ? SUCCESS_COLOR : FAILURE_COLOR}
+      />
+      <View style={styles.rowText}>
+        <ThemedText style={styles.rowTitle}>{getTitle(item.item)}</ThemedText>
+        {!item.ok && <ThemedText style={styles.error}>{item.error}</ThemedText>}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={outcomes !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor }]}>
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>
+            {failed.length === 0 ? "All Contacts Fixed" : "Fix Finished With Errors"}
+          </ThemedText>
+          <Pressable onPress={onClose} hitSlop={8}>
+            <ThemedText style={[styles.headerButton, { color: tintColor }]}>Done</ThemedText>
+          </Pressable>
+        </View>
+        <ThemedText style={styles.summary}>
+          {succeeded.length} of {outcomes?.length ?? 0} contacts fixed
+        </ThemedText>
+        <SectionList
+          sections={sections}
+          renderItem={renderOutcome}
+          keyExtractor={(_, index) => String(index)}
+          renderSectionHeader={({ section }) => (
+            <ThemedText style={[styles.sectionTitle, { backgroundColor }]}>
+              {section.title}
+            </ThemedText>
+          )}
+        />
+        {failed.length > 0 && (
+          <Pressable
+            style={[styles.retryButton, { backgroundColor: FAILURE_COLOR }]}
+            onPress={() => onRetry(failed.map((outcome) => outcome.item))}
+          >
+            <ThemedText style={styles.retryText}>
+              Retry {failed.length} Failed
+            </ThemedText>
+          </Pressable>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 16,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  headerButton: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  summary: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    opacity: 0.6,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+  },
+  error: {
+    fontSize: 13,
+    color: FAILURE_COLOR,
+  },
+  retryButton: {
+    margin: 16,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  retryText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "500",
+  },
+});
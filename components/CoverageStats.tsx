@@ -0,0 +1,75 @@
+import { StyleSheet, View } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { FixKind } from "@/types/contact";
+import { Coverage, getCoveragePercent } from "@/utils/coverage";
+
+interface CoverageStatsProps {
+  coverage: Coverage;
+  kind: FixKind;
+}
+
+export function CoverageStats({ coverage, kind }: CoverageStatsProps) {
+  const tintColor = useThemeColor({}, "tint");
+  const percent = getCoveragePercent(coverage);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headline}>
+        <ThemedText style={styles.percent}>{percent}%</ThemedText>
+        <ThemedText style={styles.caption}>
+          {kind === "duplicates"
+            ? `${coverage.complete} of ${coverage.contacts} contacts have no duplicate numbers`
+            : kind === "canonicalize"
+              ? `${coverage.complete} of ${coverage.contacts} contacts have every number in the canonical format`
+              : `${coverage.complete} of ${coverage.contacts} contacts have every number in both forms`}
+        </ThemedText>
+      </View>
+      <View style={[styles.track, { backgroundColor: tintColor + "30" }]}>
+        <View style={[styles.fill, { backgroundColor: tintColor, width: `${percent}%` }]} />
+      </View>
+      <ThemedText style={styles.details}>
+        {kind === "duplicates"
+          ? `${coverage.duplicates} duplicate entries across ${coverage.numbers} numbers`
+          : kind === "canonicalize"
+            ? `${coverage.contacts - coverage.complete} contacts still to rewrite, ${coverage.numbers} numbers in all`
+            : `${coverage.missingForms} forms missing across ${coverage.numbers} numbers`}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    gap: 4,
+  },
+  headline: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  percent: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  caption: {
+    flex: 1,
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  fill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  details: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,102 @@
+import { Fragment } from "react";
+import { Pressable, ScrollView, StyleSheet, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+
+type ChipValue = string | number;
+
+export interface ChipGroup {
+  key: string;
+  options: { value: ChipValue; title: string }[];
+  selected: ChipValue | null;
+  // Called with null when the selected chip is tapped again
+  onSelect: (value: ChipValue | null) => void;
+}
+
+interface FilterChipsProps {
+  groups: ChipGroup[];
+  onClear: () => void;
+}
+
+/**
+ * One horizontally scrolling row of filter chips. Each group allows a single
+ * chip; groups with fewer than two options are hidden.
+ */
+export function FilterChips({ groups, onClear }: FilterChipsProps) {
+  const backgroundColor = useThemeColor({}, "background");
+  const tintColor = useThemeColor({}, "tint");
+
+  const visibleGroups = groups.filter((group) => group.options.length > 1);
+  if (visibleGroups.length === 0) return null;
+
+  const hasSelection = groups.some((group) => group.selected !== null);
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+    >
+      {hasSelection && (
+        <Pressable style={[styles.chip, { borderColor: tintColor }]} onPress={onClear}>
+          <Ionicons name="close" size={14} color={tintColor} />
+        </Pressable>
+      )}
+      {visibleGroups.map((group, index) => (
+        <Fragment key={group.key}>
+          {index > 0 && <View style={[styles.divider, { backgroundColor: tintColor + "30" }]} />}
+          {group.options.map((option) => {
+            const active = option.value === group.selected;
+            return (
+              <Pressable
+                key={option.value}
+                style={[
+                  styles.chip,
+                  { borderColor: tintColor },
+                  active && { backgroundColor: tintColor },
+                ]}
+                onPress={() => group.onSelect(active ? null : option.value)}
+              >
+                <ThemedText
+                  style={[styles.chipText, { color: active ? backgroundColor : tintColor }]}
+                >
+                  {option.title}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </Fragment>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  content: {
+    gap: 8,
+    paddingHorizontal: 16,
+    alignItems: "center",
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  divider: {
+    width: 1,
+    height: 20,
+  },
+});
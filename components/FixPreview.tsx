@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { FlatList, Modal, Pressable, StyleSheet, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { ContactFixPlan } from "@/types/contact";
+import {
+  countPlannedAdditions,
+  countPlannedRemovals,
+  countPlannedRewrites,
+} from "@/utils/fixPlanner";
+
+const ADDED_COLOR = "#34c759";
+const REMOVED_COLOR = "#ff3b30";
+const REWRITTEN_COLOR = "#ff9500";
+
+interface FixPreviewProps {
+  // Plans to review; the preview is hidden while this is null
+  plans: ContactFixPlan[] | null;
+  onCancel: () => void;
+  // Called with the keys of the changes the user unchecked
+  onApply: (excluded: Set<string>) => void;
+}
+
+/**
+ * Full-screen review of the changes a fix would make. Every planned addition,
+ * removal and rewrite can be unchecked before anything is written.
+ */
+export function FixPreview({ plans, onCancel, onApply }: FixPreviewProps) {
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const backgroundColor = useThemeColor({}, "background");
+  const textColor = useThemeColor({}, "text");
+  const tintColor = useThemeColor({}, "tint");
+
+  // Start every review with all changes checked
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [plans]);
+
+  const toggleChange = (key: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const additionCount = plans ? countPlannedAdditions(plans, excluded) : 0;
+  const removalCount = plans ? countPlannedRemovals(plans, excluded) : 0;
+  const rewriteCount = plans ? countPlannedRewrites(plans, excluded) : 0;
+  const changeCount = additionCount + removalCount + rewriteCount;
+
+  const summary = [
+    rewriteCount > 0 ? `${rewriteCount} numbers will be rewritten` : null,
+    additionCount > 0 || changeCount === 0 ? `${additionCount} numbers will be added` : null,
+    removalCount > 0 ? `${removalCount} duplicates will be removed` : null,
+  ]
+    .filter(Boolean)
+    .join(" and ");
+
+  const renderPlan = ({ item }: { item: ContactFixPlan }) => (
+    <View style={[styles.contact, { borderBottomColor: tintColor + "20" }]}>
+      <ThemedText style={styles.contactName}>{item.contact.name}</ThemedText>
+      {item.untouched.map((phone, index) => (
+        <View key={`untouched-${index}`} style={styles.line}>
+          <ThemedText style={styles.marker}> </ThemedText>
+          <ThemedText style={styles.label}>{phone.label}</ThemedText>
+          <ThemedText style={styles.untouchedNumber}>{phone.number}</ThemedText>
+        </View>
+      ))}
+      {item.rewrites.map((rewrite) => {
+        const included = !excluded.has(rewrite.key);
+        return (
+          <Pressable
+            key={rewrite.key}
+            style={styles.line}
+            onPress={() => toggleChange(rewrite.key)}
+          >
+            <ThemedText style={[styles.marker, { color: REWRITTEN_COLOR }]}>~</ThemedText>
+            <ThemedText style={styles.label}>{rewrite.phone.label}</ThemedText>
+            <ThemedText style={styles.untouchedNumber}>
+              {rewrite.phone.number}
+              {/* A rewrite left out keeps the number as it is */}
+              {included && (
+                <ThemedText style={[styles.addedNumber, { color: REWRITTEN_COLOR }]}>
+                  {"  →  "}
+                  {rewrite.number}
+                </ThemedText>
+              )}
+            </ThemedText>
+            <Ionicons
+              name={included ? "checkbox" : "square-outline"}
+              size={20}
+              color={included ? tintColor : textColor + "80"}
+            />
+          </Pressable>
+        );
+      })}
+      {item.removals.map((removal) => {
+        const included = !excluded.has(removal.key);
+        return (
+          <Pressable
+            key={removal.key}
+            style={styles.line}
+            onPress={() => toggleChange(removal.key)}
+          >
+            <ThemedText style={[styles.marker, { color: REMOVED_COLOR }]}>−</ThemedText>
+            <ThemedText style={styles.label}>
+              {removal.phone.label}
+            </ThemedText>
+            <ThemedText
+              style={
+                // A duplicate left out of the fix simply stays
+                included
+                  ? [styles.removedNumber, { color: REMOVED_COLOR }]
+                  : styles.untouchedNumber
+              }
+            >
+              {removal.phone.number}
+            </ThemedText>
+            <Ionicons
+              name={included ? "checkbox" : "square-outline"}
+              size={20}
+              color={included ? tintColor : textColor + "80"}
+            />
+          </Pressable>
+        );
+      })}
+      {item.additions.map((addition) => {
+        const included = !excluded.has(addition.key);
+        return (
+          <Pressable
+            key={addition.key}
+            style={styles.line}
+            onPress={() => toggleChange(addition.key)}
+          >
+            <ThemedText style={[styles.marker, { color: ADDED_COLOR }]}>+</ThemedText>
+            <ThemedText style={[styles.label, !included && styles.excluded]}>
+              {addition.label}
+            </ThemedText>
+            <ThemedText
+              style={[
+                styles.addedNumber,
+                { color: ADDED_COLOR },
+                !included && styles.excluded,
+              ]}
+            >
+              {addition.number}
+            </ThemedText>
+            <Ionicons
+              name={included ? "checkbox" : "square-outline"}
+              size={20}
+              color={included ? tintColor : textColor + "80"}
+            />
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={plans !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <View style={[styles.container, { backgroundColor }]}>
+        <View style={styles.header}>
+          <Pressable onPress={onCancel} hitSlop={8}>
+            <ThemedText style={[styles.headerButton, { color: tintColor }]}>
+              Cancel
+            </ThemedText>
+          </Pressable>
+          <ThemedText style={styles.title}>Review Changes</ThemedText>
+          <Pressable
+            onPress={() => onApply(excluded)}
+            disabled={changeCount === 0}
+            hitSlop={8}
+          >
+            <ThemedText
+              style={[
+                styles.headerButton,
+                styles.applyButton,
+                { color: tintColor },
+                changeCount === 0 && styles.disabled,
+              ]}
+            >
+              Apply
+            </ThemedText>
+          </Pressable>
+        </View>
+        <ThemedText style={styles.summary}>
+          {summary} for {plans?.length ?? 0} contacts. Tap a change to leave it
+          out.
+        </ThemedText>
+        <FlatList
+          data={plans ?? []}
+          renderItem={renderPlan}
+          keyExtractor={(item) => item.contact.id}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 16,
+  },
+  headerButton: {
+    fontSize: 16,
+  },
+  applyButton: {
+    fontWeight: "600",
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  summary: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  contact: {
+    padding: 16,
+    borderBottomWidth: 1,
+    gap: 4,
+  },
+  contactName: {
+    fontSize: 16,
+    fontWeight: "500",
+    marginBottom: 4,
+  },
+  line: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  marker: {
+    width: 16,
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  label: {
+    fontSize: 12,
+    textTransform: "capitalize",
+    opacity: 0.6,
+    marginRight: 8,
+    minWidth: 60,
+  },
+  untouchedNumber: {
+    flex: 1,
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  addedNumber: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  removedNumber: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "500",
+    textDecorationLine: "line-through",
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  excluded: {
+    opacity: 0.3,
+    textDecorationLine: "line-through",
+  },
+});
@@ -0,0 +1,144 @@
+import { useMemo } from "react";
+import { Pressable, StyleSheet, TextInput, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import type { Contact } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { planContactFix } from "@/utils/fixPlanner";
+import { LABEL_STRATEGIES, LabelOptions } from "@/utils/labels";
+
+interface LabelStrategyPickerProps {
+  value: LabelOptions;
+  onChange: (value: LabelOptions) => void;
+  // Used to build realistic numbers for the preview
+  plan: NumberingPlan | undefined;
+}
+
+// A contact with one local and one international number in the given plan
+const getSampleContact = (plan: NumberingPlan): Contact => {
+  const nationalNumber = (prefix: string) =>
+    (prefix + "88123456789").slice(0, plan.nationalNumberLengths[0]);
+  const prefix = plan.nationalPrefixes[0];
+  const otherPrefix = plan.nationalPrefixes[1] ?? prefix;
+
+  return {
+    id: "sample",
+    name: "Jean Claude",
+    phoneNumbers: [
+      { label: "mobile", number: plan.trunkPrefix + nationalNumber(prefix) },
+      { label: "work", number: `+${plan.countryCode}${nationalNumber(otherPrefix + "2")}` },
+    ],
+    needsFix: true,
+  };
+};
+
+export function LabelStrategyPicker({ value, onChange, plan }: LabelStrategyPickerProps) {
+  const tintColor = useThemeColor({}, "tint");
+  const textColor = useThemeColor({}, "text");
+
+  const preview = useMemo(() => {
+    if (!plan) return null;
+    return planContactFix(getSampleContact(plan), [plan], value);
+  }, [plan, value]);
+
+  return (
+    <View>
+      {LABEL_STRATEGIES.map((strategy) => (
+        <Pressable
+          key={strategy.value}
+          style={[styles.row, { borderBottomColor: tintColor + "20" }]}
+          onPress={() => onChange({ ...value, strategy: strategy.value })}
+        >
+          <ThemedText style={styles.rowTitle}>{strategy.title}</ThemedText>
+          {value.strategy === strategy.value && (
+            <Ionicons name="checkmark" size={20} color={tintColor} />
+          )}
+        </Pressable>
+      ))}
+      {value.strategy === "custom" && (
+        <TextInput
+          style={[styles.input, { color: textColor, borderColor: tintColor + "30" }]}
+          placeholder="Label for added numbers"
+          placeholderTextColor={textColor + "80"}
+          value={value.customLabel}
+          onChangeText={(customLabel) => onChange({ ...value, customLabel })}
+          autoCapitalize="none"
+        />
+      )}
+      {preview && (
+        <View style={[styles.preview, { borderColor: tintColor + "30" }]}>
+          <ThemedText style={styles.previewTitle}>{preview.contact.name}</ThemedText>
+          {preview.untouched.map((phone) => (
+            <View key={phone.number} style={styles.previewLine}>
+              <ThemedText style={styles.previewLabel}>{phone.label}</ThemedText>
+              <ThemedText style={styles.previewNumber}>{phone.number}</ThemedText>
+            </View>
+          ))}
+          {preview.additions.map((addition) => (
+            <View key={addition.key} style={styles.previewLine}>
+              <ThemedText style={[styles.previewLabel, styles.added]}>
+                {addition.label}
+              </ThemedText>
+              <ThemedText style={[styles.previewNumber, styles.added]}>
+                {addition.number}
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+  },
+  input: {
+    margin: 16,
+    marginBottom: 0,
+    paddingHorizontal: 12,
+    height: 44,
+    borderRadius: 10,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  preview: {
+    margin: 16,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    gap: 2,
+  },
+  previewTitle: {
+    fontSize: 16,
+    fontWeight: "500",
+    marginBottom: 4,
+  },
+  previewLine: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  previewLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginRight: 8,
+    minWidth: 90,
+  },
+  previewNumber: {
+    fontSize: 14,
+  },
+  added: {
+    color: "#34c759",
+    opacity: 1,
+  },
+});
@@ -0,0 +1,37 @@
+import { StyleSheet, View } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import type { LineInfo } from "@/types/contact";
+import { getLineLabel } from "@/utils/phoneNumbers";
+
+// Brand colors, so the badge is recognizable at a glance
+const OPERATOR_COLORS: Record<string, { background: string; text: string }> = {
+  MTN: { background: "#ffcb05", text: "#000000" },
+  Airtel: { background: "#ed1c24", text: "#ffffff" },
+};
+
+const DEFAULT_COLORS = { background: "#8e8e93", text: "#ffffff" };
+
+export function LineBadge({ line }: { line: LineInfo }) {
+  const colors = (line.operator && OPERATOR_COLORS[line.operator]) || DEFAULT_COLORS;
+
+  return (
+    <View style={[styles.badge, { backgroundColor: colors.background }]}>
+      <ThemedText style={[styles.text, { color: colors.text }]}>
+        {getLineLabel(line)}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    borderRadius: 4,
+  },
+  text: {
+    fontSize: 10,
+    lineHeight: 16,
+    fontWeight: "600",
+  },
+});
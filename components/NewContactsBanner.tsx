@@ -0,0 +1,65 @@
+import { Pressable, StyleSheet, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+
+interface NewContactsBannerProps {
+  // New or changed contacts that need fixing; the banner hides at 0
+  count: number;
+  onReview: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Tells the user that contacts saved since the last scan need fixing.
+ */
+export function NewContactsBanner({ count, onReview, onDismiss }: NewContactsBannerProps) {
+  const backgroundColor = useThemeColor({}, "background");
+  const tintColor = useThemeColor({}, "tint");
+
+  if (count === 0) return null;
+
+  return (
+    <View style={[styles.container, { backgroundColor: tintColor }]}>
+      <Pressable style={styles.message} onPress={onReview}>
+        <Ionicons name="sparkles-outline" size={18} color={backgroundColor} />
+        <ThemedText style={[styles.text, { color: backgroundColor }]}>
+          {count === 1 ? "1 new contact needs" : `${count} new contacts need`} fixing
+        </ThemedText>
+        <ThemedText style={[styles.action, { color: backgroundColor }]}>Review</ThemedText>
+      </Pressable>
+      <Pressable onPress={onDismiss} hitSlop={8}>
+        <Ionicons name="close" size={18} color={backgroundColor} />
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  message: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  text: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: "600",
+    textDecorationLine: "underline",
+  },
+});
@@ -0,0 +1,63 @@
+import { Pressable, StyleSheet, View } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+
+interface SegmentedControlProps<T extends string> {
+  options: { value: T; title: string }[];
+  selected: T;
+  onChange: (value: T) => void;
+}
+
+export function SegmentedControl<T extends string>({
+  options,
+  selected,
+  onChange,
+}: SegmentedControlProps<T>) {
+  const backgroundColor = useThemeColor({}, "background");
+  const tintColor = useThemeColor({}, "tint");
+
+  return (
+    <View style={[styles.container, { borderColor: tintColor }]}>
+      {options.map((option, index) => {
+        const active = option.value === selected;
+        return (
+          <Pressable
+            key={option.value}
+            style={[
+              styles.segment,
+              index > 0 && { borderLeftWidth: 1, borderLeftColor: tintColor },
+              active && { backgroundColor: tintColor },
+            ]}
+            onPress={() => onChange(option.value)}
+          >
+            <ThemedText
+              style={[styles.text, { color: active ? backgroundColor : tintColor }]}
+            >
+              {option.title}
+            </ThemedText>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    marginHorizontal: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: "hidden",
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 6,
+    alignItems: "center",
+  },
+  text: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
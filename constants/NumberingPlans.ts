@@ -0,0 +1,70 @@
+import type { NumberingPlan } from "@/types/numberingPlan";
+
+/**
+ * Numbering plans shipped with the app. Mostly mobile ranges are listed, since
+ * those are the numbers that end up saved in both local and international form.
+ */
+export const NumberingPlans: NumberingPlan[] = [
+  {
+    id: "RW",
+    name: "Rwanda",
+    countryCode: "250",
+    trunkPrefix: "0",
+    nationalPrefixes: ["7", "25"],
+    nationalNumberLengths: [9],
+    operators: [
+      { prefix: "78", operator: "MTN", lineType: "mobile" },
+      { prefix: "79", operator: "MTN", lineType: "mobile" },
+      { prefix: "72", operator: "Airtel", lineType: "mobile" },
+      { prefix: "73", operator: "Airtel", lineType: "mobile" },
+      { prefix: "25", operator: "Landline", lineType: "fixed" },
+    ],
+    shortCodeLengths: [3, 4],
+    // The 2009 move to 9-digit numbers: 08XX XXXX mobiles became
+    // 0788 XX XXXX and 5XX XXX landlines became 0252 5XX XXX
+    obsoleteRanges: [
+      { prefix: "8", length: 7, newPrefix: "78" },
+      { prefix: "5", length: 6, newPrefix: "252" },
+    ],
+  },
+  {
+    id: "KE",
+    name: "Kenya",
+    countryCode: "254",
+    trunkPrefix: "0",
+    nationalPrefixes: ["7", "1"],
+    nationalNumberLengths: [9],
+  },
+  {
+    id: "UG",
+    name: "Uganda",
+    countryCode: "256",
+    trunkPrefix: "0",
+    nationalPrefixes: ["7"],
+    nationalNumberLengths: [9],
+  },
+  {
+    id: "TZ",
+    name: "Tanzania",
+    countryCode: "255",
+    trunkPrefix: "0",
+    nationalPrefixes: ["6", "7"],
+    nationalNumberLengths: [9],
+  },
+  {
+    id: "BI",
+    name: "Burundi",
+    countryCode: "257",
+    trunkPrefix: "",
+    nationalPrefixes: ["6", "7"],
+    nationalNumberLengths: [8],
+  },
+  {
+    id: "CD",
+    name: "DR Congo",
+    countryCode: "243",
+    trunkPrefix: "0",
+    nationalPrefixes: ["8", "9"],
+    nationalNumberLengths: [9],
+  },
+];
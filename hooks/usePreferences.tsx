@@ -0,0 +1,83 @@
+import {
+  createContext,
+  PropsWithChildren,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { Appearance, Platform } from "react-native";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { getActivePlans } from "@/utils/numberingPlans";
+import {
+  DEFAULT_PREFERENCES,
+  loadPreferences,
+  Preferences,
+  savePreferences,
+} from "@/utils/preferences";
+
+interface PreferencesContextValue {
+  preferences: Preferences;
+  // Plans for preferences.activeCountries, in the same order
+  activePlans: NumberingPlan[];
+  loaded: boolean;
+  updatePreferences: (changes: Partial<Preferences>) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextValue | null>(null);
+
+export function PreferencesProvider({ children }: PropsWithChildren) {
+  const [preferences, setPreferences] = useState(DEFAULT_PREFERENCES);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    loadPreferences()
+      .then(setPreferences)
+      .catch((error) => console.error("Error loading preferences:", error))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Overriding the scheme natively also themes alerts, pickers and the
+  // keyboard; react-native-web has no way to override it
+  useEffect(() => {
+    if (Platform.OS === "web") return;
+    Appearance.setColorScheme(preferences.theme === "system" ? null : preferences.theme);
+  }, [preferences.theme]);
+
+  const updatePreferences = useCallback((changes: Partial<Preferences>) => {
+    setPreferences((prev) => {
+      const next = { ...prev, ...changes };
+      savePreferences(next).catch((error) =>
+        console.error("Error saving preferences:", error)
+      );
+      return next;
+    });
+  }, []);
+
+  // Screens compare plans by reference to tell when a scan is stale, so they
+  // only change with the countries, not with every other preference
+  const activePlans = useMemo(
+    () => getActivePlans(preferences.activeCountries),
+    [preferences.activeCountries]
+  );
+
+  const value = useMemo(
+    () => ({ preferences, activePlans, loaded, updatePreferences }),
+    [preferences, activePlans, loaded, updatePreferences]
+  );
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+}
+
+export function usePreferences() {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error("usePreferences must be used inside a PreferencesProvider");
+  }
+  return context;
+}
@@ -0,0 +1,16 @@
+// "never" rules protect contacts from automatic fixes; they win over
+// "autoFix" rules matching the same contact
+export type RuleAction = "autoFix" | "never";
+
+export type RuleCondition =
+  | { type: "everyone" }
+  // A number with this label, an operator name as shown on the badges
+  // (e.g. "MTN"), or the name of a contact group (iOS only)
+  | { type: "label" | "operator" | "group"; value: string };
+
+export interface AutoFixRule {
+  id: string;
+  action: RuleAction;
+  condition: RuleCondition;
+  enabled: boolean;
+}
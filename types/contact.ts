@@ -1,7 +1,27 @@
+import type { LineType } from "@/types/numberingPlan";
+
 export interface PhoneNumber {
   label: string;
   number: string;
   id?: string;
+  // Set when the list is loaded; never written back to the device
+  line?: LineInfo;
+}
+
+// A number written back into the file it was read from. `entry` is its
+// position among the record's numbers as read; added numbers have none.
+export interface FilePhoneNumber {
+  label: string;
+  number: string;
+  entry?: number;
+}
+
+export interface LineInfo {
+  // Id of the numbering plan the number belongs to, e.g. "RW"
+  country: string;
+  lineType: LineType;
+  // Operator name, e.g. "MTN", when the plan lists the number's range
+  operator: string | null;
 }
 
 export interface Contact {
@@ -9,4 +29,94 @@ export interface Contact {
   name: string;
   phoneNumbers: PhoneNumber[];
   needsFix: boolean;
-} 
\ No newline at end of file
+  // Numbers the user chose to leave alone; shown, but never checked or fixed
+  ignoredNumbers?: PhoneNumber[];
+}
+
+// Which of the two equivalent forms a number is written in: "local" starts
+// with the trunk prefix (07XXXXXXXX), "international" with the country code
+// (+2507XXXXXXXX).
+export type NumberFormat = "local" | "international";
+
+// How numbers are shown in the list: as saved, or converted to one form
+export type DisplayFormat = "asSaved" | NumberFormat;
+
+// The single form canonical mode stores every number in: "e164" is
+// +250788123456, "local" 0788123456 and "grouped" +250 788 123 456
+export type CanonicalFormat = "e164" | "local" | "grouped";
+
+export interface NormalizedNumber {
+  // Id of the numbering plan the number belongs to, e.g. "RW"
+  country: string;
+  format: NumberFormat;
+  // Digits after the trunk prefix / country code, e.g. 788123456
+  subscriber: string;
+  local: string;
+  international: string;
+}
+
+// A form of a number that is missing from a contact, together with the
+// entry it was derived from.
+export interface MissingForm {
+  source: PhoneNumber;
+  number: string;
+  format: NumberFormat;
+}
+
+// An entry holding the same number, in the same form, as an earlier entry
+export interface DuplicateEntry {
+  phone: PhoneNumber;
+  duplicateOf: PhoneNumber;
+}
+
+// A number the fixer intends to add to a contact
+export interface PlannedAddition {
+  // Stable id used to include or exclude the addition in a preview
+  key: string;
+  label: string;
+  number: string;
+  source: PhoneNumber;
+}
+
+// A duplicate entry the fixer intends to delete
+export interface PlannedRemoval extends DuplicateEntry {
+  key: string;
+}
+
+// An entry the fixer intends to rewrite in place, keeping its label and id
+export interface PlannedRewrite {
+  key: string;
+  phone: PhoneNumber;
+  number: string;
+}
+
+export interface ContactFixPlan {
+  contact: Contact;
+  additions: PlannedAddition[];
+  removals: PlannedRemoval[];
+  rewrites: PlannedRewrite[];
+  // Existing entries the fix leaves as they are
+  untouched: PhoneNumber[];
+}
+
+// Which problem the fixer looks for: forms missing from a contact, the same
+// number saved more than once, or numbers not in the canonical format
+export type FixKind = "missingForms" | "duplicates" | "canonicalize";
+
+// Why a number cannot be fixed as it is written
+export type IssueKind = "malformed" | "truncated" | "tooLong" | "obsolete";
+
+export interface NumberIssue {
+  phone: PhoneNumber;
+  kind: IssueKind;
+  reason: string;
+  // Numbers the entry probably should have been; empty when there is no
+  // safe guess
+  suggestions: string[];
+}
+
+export interface ContactIssues {
+  contactId: string;
+  contactName: string;
+  issues: NumberIssue[];
+}
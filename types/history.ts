@@ -0,0 +1,41 @@
+import type { FixKind } from "@/types/contact";
+
+// Numbers a scan saw for one operator or one label
+export interface BreakdownCount {
+  numbers: number;
+  // Of those, numbers in contacts that needed fixing
+  needFix: number;
+}
+
+export type Breakdown = Record<string, BreakdownCount>;
+
+// One complete read of the address book
+export interface ScanSession {
+  type: "scan";
+  id: string;
+  timestamp: number;
+  kind: FixKind;
+  // Contacts read from the device
+  scanned: number;
+  // Contacts with a number the fixer handles
+  listed: number;
+  needFix: number;
+  byOperator: Breakdown;
+  byLabel: Breakdown;
+}
+
+// One fix action: a single contact, a selection, or an auto-fix run
+export interface FixSession {
+  type: "fix";
+  id: string;
+  timestamp: number;
+  kind: FixKind;
+  // Shared with the journal entries the session wrote
+  batchId: string;
+  source: "manual" | "auto";
+  attempted: number;
+  fixed: number;
+  failed: number;
+}
+
+export type HistorySession = ScanSession | FixSession;
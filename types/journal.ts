@@ -0,0 +1,40 @@
+import type { Contact as DeviceContact } from "expo-contacts";
+import type { PhoneNumber } from "@/types/contact";
+
+// What a write changed besides the phone numbers it was planned to change
+export interface IntegrityFailure {
+  // Values of the changed fields from before the write
+  fieldsBefore: Partial<DeviceContact>;
+  // Numbers the write lost without being asked to remove them
+  lostNumbers: PhoneNumber[];
+}
+
+// One write made by the fixer to a single contact
+export interface JournalEntry {
+  id: string;
+  // Shared by every entry written by the same fix action
+  batchId: string;
+  contactId: string;
+  contactName: string;
+  before: PhoneNumber[];
+  after: PhoneNumber[];
+  timestamp: number;
+  // Set once the change has been reverted
+  undoneAt?: number;
+  // Set when an auto-fix rule made the change without the user confirming it
+  rule?: { id: string; description: string };
+  // Set when the check after the write failed, so a retry keeps failing
+  // until the contact is back as it was
+  integrityFailure?: IntegrityFailure;
+}
+
+// What reverting a group of journal entries writes to one contact
+export interface UndoStep {
+  contactId: string;
+  contactName: string;
+  // Phone numbers the contact should currently have; anything else means it
+  // was edited after the fix and is not safe to revert
+  expected: PhoneNumber[];
+  restore: PhoneNumber[];
+  entryIds: string[];
+}
@@ -0,0 +1,38 @@
+// Kind of line a number reaches. Short codes (e.g. 114, *182#) only work
+// inside the country and have no international form.
+export type LineType = "mobile" | "fixed" | "shortCode";
+
+export interface OperatorRange {
+  // Leading digits of the national significant number, e.g. "78"
+  prefix: string;
+  operator: string;
+  lineType: Exclude<LineType, "shortCode">;
+}
+
+// Numbers retired by a renumbering, and how they map to the current plan
+export interface ObsoleteRange {
+  // Leading digits and length of the old national number
+  prefix: string;
+  length: number;
+  // Digits put in front of the old national number to get the new one
+  newPrefix: string;
+}
+
+export interface NumberingPlan {
+  // ISO 3166-1 alpha-2 code, used as the registry key
+  id: string;
+  name: string;
+  // Country calling code without the leading "+", e.g. "250"
+  countryCode: string;
+  // Digit dialled before the national number inside the country ("" if none)
+  trunkPrefix: string;
+  // Leading digits of the national significant numbers the fixer handles
+  nationalPrefixes: string[];
+  // Allowed lengths of the national significant number
+  nationalNumberLengths: number[];
+  // Operator of each number range, where known
+  operators?: OperatorRange[];
+  // Lengths of the all-digit short codes used in the country
+  shortCodeLengths?: number[];
+  obsoleteRanges?: ObsoleteRange[];
+}
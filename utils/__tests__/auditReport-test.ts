@@ -0,0 +1,182 @@
+import type * as Contacts from "expo-contacts";
+import type { JournalEntry } from "@/types/journal";
+import {
+  buildAuditRows,
+  loadReportKey,
+  protectNumber,
+  protectRows,
+  toAuditCsv,
+  toAuditJson,
+} from "../auditReport";
+import { hmacSha256 } from "../hmac";
+import { EMPTY_IGNORE_LIST, ignoreContact } from "../ignoreList";
+import { getDefaultPlans } from "../numberingPlans";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-crypto", () => {
+  const crypto = require("crypto");
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    digest: async (_algorithm: string, data: Uint8Array) =>
+      new Uint8Array(crypto.createHash("sha256").update(data).digest()).buffer,
+    getRandomBytes: (count: number) => new Uint8Array(crypto.randomBytes(count)),
+  };
+});
+
+const plans = getDefaultPlans();
+const mobile = (number: string) => ({ label: "mobile", number });
+
+const device = (id: string, ...numbers: string[]): Contacts.Contact => ({
+  id,
+  name: `Contact ${id}`,
+  firstName: "Contact",
+  lastName: id,
+  contactType: "person",
+  phoneNumbers: numbers.map((number) => ({ label: "mobile", number })),
+});
+
+const entry = (overrides: Partial<JournalEntry>): JournalEntry => ({
+  id: "e1",
+  batchId: "b1",
+  contactId: "1",
+  contactName: "Contact 1",
+  before: [mobile("0788123456")],
+  after: [mobile("0788123456"), mobile("+250788123456")],
+  timestamp: 1000,
+  ...overrides,
+});
+
+describe("buildAuditRows", () => {
+  it("gives every examined contact a status", () => {
+    const contacts = [
+      device("1", "0788123456", "+250788123456"),
+      device("2", "0788111111"),
+      device("3", "0788222222", "+250788222222"),
+      device("4", "0788333333"),
+      device("5", "+33612345678"),
+      device("6", "0788444444"),
+    ];
+    const journal = [
+      entry({}),
+      entry({ id: "e2", contactId: "4", contactName: "Contact 4", undoneAt: 2000 }),
+    ];
+    const ignoreList = ignoreContact(EMPTY_IGNORE_LIST, {
+      id: "6",
+      name: "Contact 6",
+      phoneNumbers: [],
+      needsFix: true,
+    });
+
+    const rows = buildAuditRows(contacts, journal, "missingForms", plans, ignoreList);
+
+    expect(rows.map((row) => [row.contactId, row.status])).toEqual([
+      ["1", "fixed"],
+      ["2", "needsFix"],
+      ["3", "ok"],
+      ["4", "undone"],
+      ["6", "ignored"],
+    ]);
+  });
+
+  it("diffs the earliest and latest active changes of a fixed contact", () => {
+    const journal = [
+      entry({ rule: { id: "r1", description: "Add international forms" } }),
+      entry({
+        id: "e2",
+        before: [mobile("0788123456"), mobile("+250788123456")],
+        after: [{ label: "work", number: "+250788123456" }],
+        timestamp: 3000,
+      }),
+      entry({ id: "e3", timestamp: 4000, undoneAt: 5000 }),
+    ];
+
+    // Deleted since, so only the journal knows about it
+    const [row] = buildAuditRows([], journal, "missingForms", plans, EMPTY_IGNORE_LIST);
+
+    expect(row).toEqual({
+      contactId: "1",
+      name: "Contact 1",
+      status: "fixed",
+      originalNumbers: [mobile("0788123456")],
+      addedNumbers: [{ label: "work", number: "+250788123456" }],
+      removedNumbers: [mobile("0788123456")],
+      changedAt: 3000,
+      rules: ["Add international forms"],
+    });
+  });
+});
+
+describe("protectNumber", () => {
+  it("masks all but the last three digits", async () => {
+    expect(await protectNumber("+250 788 123 456", "mask")).toBe("+••• ••• ••• 456");
+  });
+
+  it("hashes the international form with the report key, so both forms match", async () => {
+    const key = await loadReportKey();
+    const hash = await hmacSha256(key.secret, "+250788123456");
+    expect(await protectNumber("0788123456", "hash", plans, key)).toBe(hash);
+    expect(await protectNumber("+250788123456", "hash", plans, key)).toBe(hash);
+  });
+
+  it("keeps the same key on a device and hashes differently with another", async () => {
+    const key = await loadReportKey();
+    expect(await loadReportKey()).toEqual(key);
+
+    const other = { secret: new Uint8Array(32), id: "other" };
+    expect(await protectNumber("0788123456", "hash", plans, other)).not.toBe(
+      await protectNumber("0788123456", "hash", plans, key)
+    );
+  });
+
+  it("refuses to hash without a key", async () => {
+    await expect(protectNumber("0788123456", "hash", plans)).rejects.toThrow();
+  });
+});
+
+describe("toAuditCsv", () => {
+  it("quotes fields and defuses formulas", () => {
+    const journal = [entry({ contactName: '=HYPERLINK("x")' })];
+    const [row] = buildAuditRows([], journal, "missingForms", plans, EMPTY_IGNORE_LIST);
+
+    const [header, line] = toAuditCsv([row]).split("\r\n");
+
+    expect(header).toBe(
+      "contact_id,name,status,original_numbers,added_numbers,added_labels,removed_numbers,changed_at,rules"
+    );
+    expect(line).toBe(
+      `1,"'=HYPERLINK(""x"")",fixed,mobile: 0788123456,mobile: +250788123456,mobile,,${new Date(1000).toISOString()},`
+    );
+  });
+});
+
+describe("toAuditJson", () => {
+  it("protects every number in the report", async () => {
+    const rows = buildAuditRows([], [entry({})], "missingForms", plans, EMPTY_IGNORE_LIST);
+
+    const report = JSON.parse(toAuditJson(await protectRows(rows, "mask", plans), "mask", 0));
+
+    expect(report).toMatchObject({ generatedAt: new Date(0).toISOString(), privacy: "mask" });
+    expect(report.hash).toBeUndefined();
+    expect(report.contacts[0]).toMatchObject({
+      originalNumbers: [mobile("•••••••456")],
+      addedNumbers: [mobile("+•••••••••456")],
+      changedAt: new Date(1000).toISOString(),
+    });
+  });
+
+  it("names the hash algorithm and key of a hashed report", async () => {
+    const key = await loadReportKey();
+    const rows = buildAuditRows([], [entry({})], "missingForms", plans, EMPTY_IGNORE_LIST);
+
+    const report = JSON.parse(
+      toAuditJson(await protectRows(rows, "hash", plans, key), "hash", 0, key)
+    );
+
+    expect(report.hash).toEqual({ algorithm: "HMAC-SHA256", keyId: key.id });
+    expect(report.contacts[0].originalNumbers).toEqual([
+      mobile(await hmacSha256(key.secret, "+250788123456")),
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import type { AutoFixRule } from "@/types/autoFix";
+import type { Contact } from "@/types/contact";
+import {
+  describeRule,
+  findAutoFixRule,
+  loadRules,
+  planAutoFixes,
+  saveRules,
+} from "../autoFix";
+import { getActivePlans } from "../numberingPlans";
+import { classifyLine } from "../phoneNumbers";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-contacts", () => ({
+  Fields: { ID: "id" },
+  getGroupsAsync: jest.fn(),
+  getContactsAsync: jest.fn(),
+}));
+
+const contact = (id: string, phones: [string, string][]): Contact => ({
+  id,
+  name: `Contact ${id}`,
+  phoneNumbers: phones.map(([label, number]) => ({
+    label,
+    number,
+    line: classifyLine(number) ?? undefined,
+  })),
+  needsFix: true,
+});
+
+const rule = (
+  id: string,
+  action: AutoFixRule["action"],
+  condition: AutoFixRule["condition"],
+  enabled = true
+): AutoFixRule => ({ id, action, condition, enabled });
+
+const mobile = contact("1", [["mobile", "0788123456"]]);
+const work = contact("2", [["work", "0722123456"]]);
+
+describe("findAutoFixRule", () => {
+  const autoFixMobile = rule("a", "autoFix", { type: "label", value: "Mobile" });
+
+  it("matches labels without case", () => {
+    expect(findAutoFixRule(mobile, [autoFixMobile])).toBe(autoFixMobile);
+    expect(findAutoFixRule(work, [autoFixMobile])).toBeNull();
+  });
+
+  it("matches operators and groups", () => {
+    const airtel = rule("b", "autoFix", { type: "operator", value: "Airtel" });
+    const team = rule("c", "autoFix", { type: "group", value: "Team" });
+    const groups = new Map([["Team", new Set(["1"])]]);
+
+    expect(findAutoFixRule(work, [airtel])).toBe(airtel);
+    expect(findAutoFixRule(mobile, [airtel])).toBeNull();
+    expect(findAutoFixRule(mobile, [team], groups)).toBe(team);
+    expect(findAutoFixRule(work, [team], groups)).toBeNull();
+  });
+
+  it("lets a never rule win and ignores disabled rules", () => {
+    const everyone = rule("a", "autoFix", { type: "everyone" });
+    const neverWork = rule("b", "never", { type: "label", value: "work" });
+
+    expect(findAutoFixRule(work, [everyone, neverWork])).toBeNull();
+    expect(findAutoFixRule(work, [everyone, { ...neverWork, enabled: false }])).toBe(everyone);
+    expect(findAutoFixRule(mobile, [{ ...everyone, enabled: false }])).toBeNull();
+  });
+});
+
+describe("planAutoFixes", () => {
+  it("plans only missing forms for contacts a rule allows", () => {
+    const everyone = rule("a", "autoFix", { type: "everyone" });
+    const fixed = contact("3", [
+      ["mobile", "0733000111"],
+      ["mobile'", "+250733000111"],
+    ]);
+
+    const fixes = planAutoFixes(
+      [mobile, work, fixed],
+      [everyone, rule("b", "never", { type: "operator", value: "Airtel" })]
+    );
+
+    expect(fixes).toHaveLength(1);
+    expect(fixes[0].rule).toBe(everyone);
+    expect(fixes[0].plan.contact).toBe(mobile);
+    expect(fixes[0].plan.additions.map((addition) => addition.number)).toEqual([
+      "+250788123456",
+    ]);
+  });
+
+  it("leaves local numbers that fit several active countries for review", () => {
+    const plans = getActivePlans(["RW", "KE"]);
+    const everyone = rule("a", "autoFix", { type: "everyone" });
+    const ambiguous = contact("4", [["mobile", "0712345678"]]);
+    const both = contact("5", [
+      ["mobile", "0712345678"],
+      ["work", "+254722123456"],
+    ]);
+
+    const fixes = planAutoFixes([ambiguous, both], [everyone], new Map(), plans);
+
+    expect(fixes.map(({ plan }) => plan.contact.id)).toEqual(["5"]);
+    expect(fixes[0].plan.additions.map((addition) => addition.number)).toEqual(["0722123456"]);
+  });
+
+  it("does nothing without an enabled auto-fix rule", () => {
+    expect(planAutoFixes([mobile], [rule("a", "autoFix", { type: "everyone" }, false)])).toEqual(
+      []
+    );
+  });
+});
+
+describe("describeRule", () => {
+  it("reads as a sentence", () => {
+    expect(describeRule(rule("a", "never", { type: "group", value: "Work" }))).toBe(
+      "Never auto-fix contacts in the Work group"
+    );
+    expect(describeRule(rule("a", "autoFix", { type: "label", value: "mobile" }))).toBe(
+      'Auto-fix contacts with a number labelled "mobile"'
+    );
+  });
+});
+
+it("stores the rules", async () => {
+  expect(await loadRules()).toEqual([]);
+  const rules = [rule("a", "autoFix", { type: "everyone" })];
+  await saveRules(rules);
+  expect(await loadRules()).toEqual(rules);
+});
@@ -0,0 +1,75 @@
+import { createQueue, describeError, runBatch } from "../batch";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("runBatch", () => {
+  it("reports every outcome in item order", async () => {
+    const outcomes = await runBatch([3, 1, 2], async (n) => {
+      await delay(n);
+      if (n === 1) throw new Error("boom");
+    });
+
+    expect(outcomes).toEqual([
+      { item: 3, ok: true },
+      { item: 1, ok: false, error: "boom" },
+      { item: 2, ok: true },
+    ]);
+  });
+
+  it("never runs more workers than the concurrency limit", async () => {
+    let running = 0;
+    let peak = 0;
+    await runBatch(
+      Array.from({ length: 10 }, (_, i) => i),
+      async () => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await delay(1);
+        running -= 1;
+      },
+      { concurrency: 3 }
+    );
+    expect(peak).toBe(3);
+  });
+
+  it("reports progress after each item", async () => {
+    const progress: [number, number][] = [];
+    await runBatch(["a", "b"], async () => {}, {
+      onProgress: (completed, total) => progress.push([completed, total]),
+    });
+    expect(progress).toEqual([
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  it("handles an empty batch", async () => {
+    expect(await runBatch([], async () => {})).toEqual([]);
+  });
+});
+
+describe("describeError", () => {
+  it("prefers the error message", () => {
+    expect(describeError(new Error("denied"))).toBe("denied");
+    expect(describeError("offline")).toBe("offline");
+  });
+});
+
+describe("createQueue", () => {
+  it("runs tasks one after another and keeps going after a failure", async () => {
+    const enqueue = createQueue();
+    const order: string[] = [];
+    const first = enqueue(async () => {
+      await delay(5);
+      order.push("first");
+      throw new Error("failed");
+    });
+    const second = enqueue(async () => {
+      order.push("second");
+      return 2;
+    });
+    await expect(first).rejects.toThrow("failed");
+    await expect(second).resolves.toBe(2);
+    expect(order).toEqual(["first", "second"]);
+  });
+});
@@ -0,0 +1,87 @@
+import type { Contact as DeviceContact } from "expo-contacts";
+import { diffContactFields, getLostPhoneNumbers } from "../contactFields";
+
+const company: DeviceContact = {
+  id: "1",
+  name: "Acme Ltd",
+  contactType: "company",
+  company: "Acme Ltd",
+  nickname: "Acme",
+  phoneticFirstName: "Akmi",
+  emails: [{ label: "work", email: "info@acme.rw", id: "e1" }],
+  phoneNumbers: [
+    { label: "main", number: "0788123456", id: "p1" },
+    { label: "fax", number: "+15551234567", id: "p2" },
+  ],
+};
+
+describe("diffContactFields", () => {
+  it("reports nothing when only phone numbers changed", () => {
+    expect(
+      diffContactFields(company, {
+        ...company,
+        phoneNumbers: [
+          ...company.phoneNumbers!,
+          { label: "main'", number: "+250788123456" },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it("names every field that changed", () => {
+    expect(
+      diffContactFields(company, {
+        ...company,
+        contactType: "person",
+        nickname: undefined,
+        emails: [],
+      })
+    ).toEqual(["contactType", "nickname", "emails"]);
+  });
+
+  it("ignores key order and empty lists", () => {
+    expect(
+      diffContactFields(
+        { ...company, addresses: [] },
+        { ...company, emails: [{ id: "e1", email: "info@acme.rw", label: "work" }] }
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("getLostPhoneNumbers", () => {
+  it("keeps entries whose ids survived", () => {
+    expect(getLostPhoneNumbers(company, company)).toEqual([]);
+  });
+
+  it("keeps entries re-created with a new id but the same number", () => {
+    expect(
+      getLostPhoneNumbers(company, {
+        ...company,
+        phoneNumbers: [
+          { label: "main", number: "0788 123 456", id: "new1" },
+          { label: "fax", number: "+15551234567", id: "new2" },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it("reports entries that disappeared", () => {
+    expect(
+      getLostPhoneNumbers(company, {
+        ...company,
+        phoneNumbers: [company.phoneNumbers![0]],
+      })
+    ).toEqual([company.phoneNumbers![1]]);
+  });
+
+  it("accepts deliberate removals", () => {
+    expect(
+      getLostPhoneNumbers(
+        company,
+        { ...company, phoneNumbers: [company.phoneNumbers![0]] },
+        ["p2"]
+      )
+    ).toEqual([]);
+  });
+});
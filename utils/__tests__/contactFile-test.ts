@@ -0,0 +1,188 @@
+import { fixContactFile, parseContactFile, scanContactFile, toContactFile } from "../contactFile";
+import { planFixes } from "../fixPlanner";
+import { getDefaultPlans } from "../numberingPlans";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const plans = getDefaultPlans();
+
+const VCF = [
+  "BEGIN:VCARD",
+  "VERSION:3.0",
+  "UID:abc",
+  "N:Doe;Jane;;;",
+  "FN:Jane Doe",
+  "TEL;TYPE=CELL:0788123456",
+  "END:VCARD",
+  "BEGIN:VCARD",
+  "VERSION:3.0",
+  "FN:Bob",
+  "TEL;TYPE=CELL:+250722123456",
+  "TEL;TYPE=WORK:0722123456",
+  "END:VCARD",
+].join("\r\n");
+
+describe("parseContactFile", () => {
+  it("keeps UIDs, gives other records and every entry an id", () => {
+    const file = parseContactFile("export.vcf", VCF);
+
+    expect(file.format).toBe("vcf");
+    expect(file.contacts.map((contact) => contact.id)).toEqual(["abc", "file-2"]);
+    expect(file.generatedIds).toEqual(["file-2"]);
+    expect(file.contacts[1].phoneNumbers?.map((phone) => phone.id)).toEqual([
+      "file-2:0",
+      "file-2:1",
+    ]);
+  });
+
+  it("reads anything that is not a vCard as CSV", () => {
+    const file = parseContactFile("crm.txt", "Name,Phone\nJane,0788123456");
+
+    expect(file.format).toBe("csv");
+    expect(file.contacts[0]).toMatchObject({ id: "file-1", name: "Jane" });
+  });
+});
+
+describe("scanContactFile", () => {
+  it("lists records with only a full name", () => {
+    const file = parseContactFile("crm.csv", "Name,Phone\nJane,0788123456");
+    const [listed] = scanContactFile(file.contacts, "missingForms", plans);
+
+    expect(listed).toMatchObject({ id: "file-1", name: "Jane", needsFix: true });
+  });
+});
+
+describe("fixContactFile", () => {
+  it("applies the planned fixes to the records in memory", () => {
+    const file = parseContactFile("export.vcf", VCF);
+    const listed = scanContactFile(file.contacts, "missingForms", plans);
+    const fixPlans = planFixes(listed.filter((contact) => contact.needsFix), plans);
+
+    const { contacts, fixed } = fixContactFile(file.contacts, fixPlans);
+
+    expect(fixed).toBe(1);
+    expect(contacts[0].phoneNumbers?.map((phone) => phone.number)).toEqual([
+      "0788123456",
+      "+250788123456",
+    ]);
+    expect(contacts[1]).toBe(file.contacts[1]);
+  });
+
+  it("removes the duplicate entry it planned to remove, and skips excluded changes", () => {
+    const file = parseContactFile(
+      "export.vcf",
+      VCF.replace("TEL;TYPE=WORK:0722123456", "TEL;TYPE=WORK:+250722123456")
+    );
+    const listed = scanContactFile(file.contacts, "duplicates", plans);
+    const fixPlans = planFixes(listed, plans, undefined, "duplicates");
+
+    const { contacts } = fixContactFile(file.contacts, fixPlans);
+    expect(contacts[1].phoneNumbers).toEqual([
+      { label: "mobile", number: "+250722123456", id: "file-2:0" },
+      expect.objectContaining({ number: "0722123456" }),
+    ]);
+
+    const excluded = new Set(fixPlans.flatMap((plan) => plan.removals.map((r) => r.key)));
+    const kept = fixContactFile(file.contacts, fixPlans, excluded).contacts[1];
+    expect(kept.phoneNumbers).toHaveLength(3);
+  });
+});
+
+describe("toContactFile", () => {
+  const fixAll = (file: ReturnType<typeof parseContactFile>) => {
+    const listed = scanContactFile(file.contacts, "missingForms", plans);
+    return fixContactFile(
+      file.contacts,
+      planFixes(listed.filter((contact) => contact.needsFix), plans)
+    ).contacts;
+  };
+
+  it("leaves out the ids given when the file was opened when converting", () => {
+    const file = parseContactFile("export.vcf", VCF);
+    const text = toContactFile({ ...file, format: "csv" }, file.contacts, "vcf");
+
+    expect(text).toContain("UID:abc");
+    expect(text).not.toContain("file-2");
+    expect(toContactFile(file, file.contacts, "csv")).toContain("Jane Doe,Jane,Doe");
+  });
+
+  it("keeps every line of a vCard it does not read, changing only the numbers", () => {
+    const card = [
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      "N:Doe;Jane;;;",
+      "FN:Jane Doe",
+      "X-CRM-ID:42",
+      "CATEGORIES:Clients,VIP",
+      "item1.TEL:0788123456",
+      "item1.X-ABLabel:Desk",
+      "TEL;TYPE=WORK:+250722123456",
+      "X-CUSTOM;X-PARAM=a:a long custom value that is folded over two lines by",
+      "  the exporter",
+      "END:VCARD",
+      "",
+    ].join("\r\n");
+    const file = parseContactFile("export.vcf", card);
+
+    const text = toContactFile(file, fixAll(file));
+
+    expect(text.split("\r\n")).toEqual([
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      "N:Doe;Jane;;;",
+      "FN:Jane Doe",
+      "X-CRM-ID:42",
+      "CATEGORIES:Clients,VIP",
+      "item1.TEL:0788123456",
+      "item1.X-ABLabel:Desk",
+      "TEL;TYPE=WORK:+250722123456",
+      "item2.TEL:+250788123456",
+      "item2.X-ABLabel:desk'",
+      "item3.TEL:0722123456",
+      "item3.X-ABLabel:work'",
+      "X-CUSTOM;X-PARAM=a:a long custom value that is folded over two lines by",
+      "  the exporter",
+      "END:VCARD",
+      "",
+    ]);
+    // Nothing but the added numbers differs from the file as read
+    expect(parseContactFile("fixed.vcf", text).contacts[0].phoneNumbers).toHaveLength(4);
+  });
+
+  it("returns an untouched vCard file as it was", () => {
+    const file = parseContactFile("export.vcf", VCF + "\r\n");
+    expect(toContactFile(file, file.contacts)).toBe(VCF + "\r\n");
+  });
+
+  it("keeps every CSV column, rewriting only the phone cells", () => {
+    const csv = [
+      "First Name;Last Name;Mobile Phone;Customer ID;Tags",
+      "Jane;Doe;0788123456;C-1;vip, client",
+      "Bob;;;C-2;",
+    ].join("\r\n");
+    const file = parseContactFile("crm.csv", csv);
+
+    const text = toContactFile(file, fixAll(file));
+
+    expect(text.split("\r\n")).toEqual([
+      "First Name;Last Name;Mobile Phone;Customer ID;Tags;Phone 1 - Type;Phone 1 - Value",
+      "Jane;Doe;0788123456;C-1;vip, client;Mobile';+250788123456",
+      "Bob;;;C-2;;;",
+      "",
+    ]);
+  });
+
+  it("fills empty phone columns before adding any", () => {
+    const csv = [
+      "Name,Phone 1 - Type,Phone 1 - Value,Phone 2 - Type,Phone 2 - Value,Custom Field",
+      "Jane,Mobile,0788123456,,,x",
+    ].join("\r\n");
+    const file = parseContactFile("google.csv", csv);
+
+    const text = toContactFile(file, fixAll(file));
+
+    expect(text.split("\r\n")[1]).toBe("Jane,Mobile,0788123456,Mobile',+250788123456,x");
+  });
+});
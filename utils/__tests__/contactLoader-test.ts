@@ -0,0 +1,197 @@
+import * as Contacts from "expo-contacts";
+import {
+  loadContactPages,
+  readContacts,
+  replaceById,
+  toContactIssues,
+  toListContact,
+} from "../contactLoader";
+import { EMPTY_IGNORE_LIST, ignoreContact, ignoreNumber } from "../ignoreList";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-contacts", () => ({
+  Fields: {
+    ID: "id",
+    FirstName: "firstName",
+    LastName: "lastName",
+    PhoneNumbers: "phoneNumbers",
+  },
+  getContactsAsync: jest.fn(),
+  getContactByIdAsync: jest.fn(),
+}));
+
+const getContactsAsync = Contacts.getContactsAsync as jest.Mock;
+const getContactByIdAsync = Contacts.getContactByIdAsync as jest.Mock;
+
+const device = (id: string, ...numbers: string[]): Contacts.Contact => ({
+  id,
+  name: `Contact ${id}`,
+  firstName: "Contact",
+  lastName: id,
+  contactType: "person",
+  phoneNumbers: numbers.map((number, index) => ({
+    label: "mobile",
+    number,
+    id: `${id}-${index}`,
+  })),
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("loadContactPages", () => {
+  const addressBook = Array.from({ length: 5 }, (_, index) => device(String(index)));
+
+  beforeEach(() => {
+    getContactsAsync.mockImplementation(
+      async ({ pageSize, pageOffset }: { pageSize: number; pageOffset: number }) => ({
+        data: addressBook.slice(pageOffset, pageOffset + pageSize),
+        hasNextPage: pageOffset + pageSize < addressBook.length,
+        hasPreviousPage: pageOffset > 0,
+      })
+    );
+  });
+
+  it("hands over every page as it arrives", async () => {
+    const pages: number[][] = [];
+    const completed = await loadContactPages(
+      (page) => pages.push([page.contacts.length, page.loaded]),
+      { pageSize: 2 }
+    );
+
+    expect(completed).toBe(true);
+    expect(pages).toEqual([
+      [2, 2],
+      [2, 4],
+      [1, 5],
+    ]);
+    expect(getContactsAsync).toHaveBeenLastCalledWith(
+      expect.objectContaining({ pageSize: 2, pageOffset: 4 })
+    );
+  });
+
+  it("stops quietly once cancelled", async () => {
+    const onPage = jest.fn();
+    let cancelled = false;
+    const completed = await loadContactPages(
+      (page) => {
+        onPage(page);
+        cancelled = true;
+      },
+      { pageSize: 2, isCancelled: () => cancelled }
+    );
+
+    expect(completed).toBe(false);
+    expect(onPage).toHaveBeenCalledTimes(1);
+    expect(getContactsAsync).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("readContacts", () => {
+  it("maps deleted contacts to null", async () => {
+    getContactByIdAsync.mockImplementation(async (id: string) =>
+      id === "1" ? device("1", "0788123456") : undefined
+    );
+
+    const contacts = await readContacts(["1", "2"]);
+
+    expect(contacts.get("1")?.id).toBe("1");
+    expect(contacts.get("2")).toBeNull();
+  });
+});
+
+describe("toListContact", () => {
+  it("keeps supported numbers and short codes, tagged with their line", () => {
+    const contact = toListContact(
+      device("1", "0788123456", "+15551234567", "*182#"),
+      "missingForms"
+    );
+
+    expect(contact).toMatchObject({
+      id: "1",
+      name: "Contact 1",
+      needsFix: true,
+      phoneNumbers: [
+        { number: "0788123456", line: { operator: "MTN" } },
+        { number: "*182#", line: { lineType: "shortCode" } },
+      ],
+    });
+  });
+
+  it("checks the mode the list is loaded in", () => {
+    const contact = device("1", "0788123456", "0788 123 456", "+250788123456");
+
+    expect(toListContact(contact, "missingForms")?.needsFix).toBe(false);
+    expect(toListContact(contact, "duplicates")?.needsFix).toBe(true);
+  });
+
+  it("skips contacts without a name or a number to fix", () => {
+    const unnamed = { ...device("1", "0788123456"), firstName: "", lastName: "" };
+    expect(toListContact(unnamed, "missingForms")).toBeNull();
+    expect(toListContact(device("1", "112", "+15551234567"), "missingForms")).toBeNull();
+  });
+});
+
+describe("toListContact with an ignore list", () => {
+  const contact = device("1", "0788123456", "0252123456");
+  const listed = toListContact(contact, "missingForms")!;
+
+  it("leaves ignored numbers out of the check", () => {
+    const list = ignoreNumber(EMPTY_IGNORE_LIST, listed, listed.phoneNumbers[1]);
+    const withBothForms = {
+      ...contact,
+      phoneNumbers: [...contact.phoneNumbers!, { label: "mobile'", number: "+250788123456" }],
+    };
+    const partly = toListContact(withBothForms, "missingForms", undefined, list);
+
+    expect(partly?.needsFix).toBe(false);
+    expect(partly?.phoneNumbers.map((phone) => phone.number)).toEqual([
+      "0788123456",
+      "+250788123456",
+    ]);
+    expect(partly?.ignoredNumbers?.map((phone) => phone.number)).toEqual(["0252123456"]);
+  });
+
+  it("drops ignored contacts and contacts with every number ignored", () => {
+    expect(
+      toListContact(contact, "missingForms", undefined, ignoreContact(EMPTY_IGNORE_LIST, listed))
+    ).toBeNull();
+
+    const list = listed.phoneNumbers.reduce(
+      (ignored, phone) => ignoreNumber(ignored, listed, phone),
+      EMPTY_IGNORE_LIST
+    );
+    expect(toListContact(contact, "missingForms", undefined, list)).toBeNull();
+  });
+});
+
+describe("toContactIssues", () => {
+  it("lists broken numbers under the contact's name", () => {
+    expect(toContactIssues(device("1", "078812345"))).toMatchObject({
+      contactId: "1",
+      contactName: "Contact 1",
+      issues: [{ kind: "truncated" }],
+    });
+    expect(toContactIssues(device("1", "0788123456"))).toBeNull();
+  });
+});
+
+describe("replaceById", () => {
+  const getId = (item: { id: string }) => item.id;
+
+  it("swaps rows in place, drops deleted ones and appends new ones", () => {
+    type Row = { id: string; fixed?: boolean };
+    const items: Row[] = [{ id: "a" }, { id: "b" }, { id: "c" }];
+    const updated = { id: "b", fixed: true };
+    const updates = new Map<string, Row | null>([
+      ["b", updated],
+      ["c", null],
+      ["d", { id: "d" }],
+    ]);
+
+    expect(replaceById(items, updates, getId)).toEqual([{ id: "a" }, updated, { id: "d" }]);
+  });
+});
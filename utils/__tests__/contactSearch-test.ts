@@ -0,0 +1,153 @@
+import type { Contact } from "@/types/contact";
+import {
+  buildSearchIndex,
+  filterContacts,
+  getFilterOptions,
+  NO_FILTERS,
+  parseQuery,
+  pruneFilters,
+} from "../contactSearch";
+import { classifyLine } from "../phoneNumbers";
+
+const contact = (
+  id: string,
+  name: string,
+  phones: [string, string][],
+  needsFix = true
+): Contact => ({
+  id,
+  name,
+  phoneNumbers: phones.map(([label, number]) => ({
+    label,
+    number,
+    line: classifyLine(number) ?? undefined,
+  })),
+  needsFix,
+});
+
+const irene = contact("1", "Irénée Uwase", [["mobile", "+250 788 123 456"]]);
+const jean = contact("2", "Jean Claude", [
+  ["work", "0722123456"],
+  ["home", "0733 000 111"],
+]);
+const aline = contact(
+  "3",
+  "Aline",
+  [
+    ["mobile", "0788999000"],
+    ["mobile'", "+250788999000"],
+  ],
+  false
+);
+
+const index = buildSearchIndex([jean, aline, irene]);
+const search = (query: string, filters = NO_FILTERS, selected = new Set<string>()) =>
+  filterContacts(index, query, filters, selected).map((c) => c.id);
+
+describe("buildSearchIndex", () => {
+  it("reuses cached entries and parses only new contacts", () => {
+    const cache = new WeakMap();
+    const [first] = buildSearchIndex([irene], undefined, cache);
+    const grown = buildSearchIndex([jean, irene, aline], undefined, cache);
+
+    expect(grown.map((entry) => entry.contact.id)).toEqual(["3", "1", "2"]);
+    expect(grown[1]).toBe(first);
+    expect(cache.get(jean)).toBe(grown[2]);
+  });
+
+  it("sorts by the given order", () => {
+    const ids = (order: Parameters<typeof buildSearchIndex>[3]) =>
+      buildSearchIndex([jean, aline, irene], undefined, undefined, order).map(
+        (entry) => entry.contact.id
+      );
+
+    expect(ids("name")).toEqual(["3", "1", "2"]);
+    expect(ids("nameDescending")).toEqual(["2", "1", "3"]);
+    // Aline is already fixed, so she moves after the others
+    expect(ids("needsFixFirst")).toEqual(["1", "2", "3"]);
+  });
+});
+
+describe("parseQuery", () => {
+  it("keeps a number-like query whole", () => {
+    expect(parseQuery(" +250 788-123 ")).toEqual({ numbers: ["250788123"], words: [] });
+  });
+
+  it("splits mixed queries", () => {
+    expect(parseQuery("Jean 0722")).toEqual({ numbers: ["0722"], words: ["jean"] });
+  });
+});
+
+describe("filterContacts", () => {
+  it("sorts by name", () => {
+    expect(search("")).toEqual(["3", "1", "2"]);
+  });
+
+  it("matches digits in any format", () => {
+    expect(search("788123")).toEqual(["1"]);
+    expect(search("0788 123")).toEqual(["1"]);
+    expect(search("250722")).toEqual(["2"]);
+    expect(search("00250 733")).toEqual(["2"]);
+  });
+
+  it("matches names without accents and labels", () => {
+    expect(search("irenee")).toEqual(["1"]);
+    expect(search("IRÉNÉE uwa")).toEqual(["1"]);
+    expect(search("work")).toEqual(["2"]);
+    expect(search("jean 0733")).toEqual(["2"]);
+    expect(search("jean 0788")).toEqual([]);
+  });
+
+  it("matches names in other scripts instead of ignoring the query", () => {
+    const named = buildSearchIndex([
+      irene,
+      contact("4", "Дмитрий Иванов", [["mobile", "0788111222"]]),
+      contact("5", "محمد علي", [["mobile", "0788333444"]]),
+    ]);
+    const find = (query: string) =>
+      filterContacts(named, query, NO_FILTERS, new Set()).map((c) => c.id);
+
+    expect(find("дмитрий")).toEqual(["4"]);
+    expect(find("محمد")).toEqual(["5"]);
+    expect(find("Иван")).toEqual(["4"]);
+    expect(find("Ωμέγα")).toEqual([]);
+  });
+
+  it("applies the filter chips", () => {
+    expect(search("", { ...NO_FILTERS, operator: "Airtel" })).toEqual(["2"]);
+    expect(search("", { ...NO_FILTERS, label: "mobile" })).toEqual(["3", "1"]);
+    expect(search("", { ...NO_FILTERS, status: "fixed" })).toEqual(["3"]);
+    expect(search("", { ...NO_FILTERS, missingForms: 2 })).toEqual(["2"]);
+    expect(search("", { ...NO_FILTERS, selection: "selected" }, new Set(["1"]))).toEqual([
+      "1",
+    ]);
+  });
+});
+
+describe("getFilterOptions and pruneFilters", () => {
+  const options = getFilterOptions(index);
+
+  it("lists the values present in the list", () => {
+    expect(options).toEqual({
+      labels: ["home", "mobile", "mobile'", "work"],
+      operators: ["Airtel", "MTN"],
+      missingForms: [0, 1, 2],
+    });
+  });
+
+  it("drops stale values", () => {
+    expect(
+      pruneFilters(
+        {
+          ...NO_FILTERS,
+          operator: "Landline",
+          label: "work",
+          status: "fixed",
+          selection: "selected",
+        },
+        options,
+        false
+      )
+    ).toEqual({ ...NO_FILTERS, label: "work", status: "fixed" });
+  });
+});
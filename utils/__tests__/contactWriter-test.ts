@@ -0,0 +1,334 @@
+import * as Contacts from "expo-contacts";
+import {
+  addPhoneNumbers,
+  applyPlannedChanges,
+  ContactIntegrityError,
+  undoEntries,
+  updatePhoneNumbers,
+} from "../contactWriter";
+import { clearJournal, getActiveEntries, loadJournal } from "../journal";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-contacts", () => ({
+  Fields: { ID: "id", PhoneNumbers: "phoneNumbers" },
+  getContactByIdAsync: jest.fn(),
+  updateContactAsync: jest.fn(),
+}));
+
+const getContactByIdAsync = Contacts.getContactByIdAsync as jest.Mock;
+const updateContactAsync = Contacts.updateContactAsync as jest.Mock;
+
+const stored: Contacts.Contact = {
+  id: "1",
+  name: "Acme Ltd",
+  contactType: "company",
+  company: "Acme Ltd",
+  nickname: "Acme",
+  emails: [{ label: "work", email: "info@acme.rw", id: "e1" }],
+  phoneNumbers: [
+    { label: "main", number: "0788123456", id: "p1" },
+    { label: "fax", number: "+15551234567", id: "p2" },
+  ],
+};
+
+// The list only knows the supported numbers and a display name
+const listed = {
+  id: "1",
+  name: "Acme Ltd",
+  phoneNumbers: [{ label: "main", number: "0788123456", id: "p1" }],
+  needsFix: true,
+};
+
+const addition = { label: "main'", number: "+250788123456" };
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  await clearJournal();
+});
+
+it("writes only the phone numbers, keeping every existing entry", async () => {
+  let current = stored;
+  getContactByIdAsync.mockImplementation(async () => current);
+  updateContactAsync.mockImplementation(async (update: Contacts.Contact) => {
+    current = { ...current, phoneNumbers: update.phoneNumbers };
+    return "1";
+  });
+
+  await addPhoneNumbers(listed, [addition], "batch");
+
+  expect(updateContactAsync).toHaveBeenCalledWith({
+    id: "1",
+    name: "Acme Ltd",
+    contactType: "company",
+    phoneNumbers: [
+      { label: "main", number: "0788123456", id: "p1" },
+      { label: "fax", number: "+15551234567", id: "p2" },
+      { label: "main'", number: "+250788123456", id: undefined },
+    ],
+  });
+  const [entry] = await loadJournal();
+  expect(entry.before).toHaveLength(2);
+  expect(entry.after).toHaveLength(3);
+});
+
+it("fails when the saved contact lost other fields", async () => {
+  getContactByIdAsync
+    .mockResolvedValueOnce(stored)
+    .mockResolvedValueOnce({ ...stored, contactType: "person", emails: [] });
+  updateContactAsync.mockResolvedValue("1");
+
+  await expect(addPhoneNumbers(listed, [addition], "batch")).rejects.toEqual(
+    new ContactIntegrityError("Acme Ltd", ["contactType", "emails"])
+  );
+  // The write still happened, so it stays undoable
+  expect(await loadJournal()).toHaveLength(1);
+});
+
+it("keeps failing a retry until the changed fields are restored", async () => {
+  let current = stored;
+  getContactByIdAsync.mockImplementation(async () => current);
+  updateContactAsync.mockImplementation(async (update: Contacts.Contact) => {
+    current = { ...current, phoneNumbers: update.phoneNumbers, emails: [] };
+    return "1";
+  });
+  const error = new ContactIntegrityError("Acme Ltd", ["emails"]);
+
+  await expect(addPhoneNumbers(listed, [addition], "batch")).rejects.toEqual(error);
+  // The number is already saved, but the email is still missing
+  await expect(addPhoneNumbers(listed, [addition], "retry")).rejects.toEqual(error);
+  expect(updateContactAsync).toHaveBeenCalledTimes(1);
+
+  current = { ...current, emails: stored.emails };
+  await expect(addPhoneNumbers(listed, [addition], "retry")).resolves.toBe(false);
+  const [entry] = await loadJournal();
+  expect(entry.integrityFailure).toBeUndefined();
+});
+
+it("skips contacts with nothing to add", async () => {
+  await expect(addPhoneNumbers(listed, [], "batch")).resolves.toBe(false);
+  expect(updateContactAsync).not.toHaveBeenCalled();
+});
+
+it("does not add a number twice when a fix is retried", async () => {
+  getContactByIdAsync.mockResolvedValue({
+    ...stored,
+    phoneNumbers: [...stored.phoneNumbers!, { label: "main'", number: "+250 788 123 456" }],
+  });
+
+  await expect(addPhoneNumbers(listed, [addition], "batch")).resolves.toBe(false);
+  expect(updateContactAsync).not.toHaveBeenCalled();
+});
+
+it("journals the rule behind an automatic fix", async () => {
+  let current = stored;
+  getContactByIdAsync.mockImplementation(async () => current);
+  updateContactAsync.mockImplementation(async (update: Contacts.Contact) => {
+    current = { ...current, phoneNumbers: update.phoneNumbers };
+    return "1";
+  });
+  const rule = { id: "r1", description: "Auto-fix every contact" };
+
+  await updatePhoneNumbers(listed, { additions: [addition], removals: [] }, "batch", rule);
+
+  const [entry] = await loadJournal();
+  expect(entry.rule).toEqual(rule);
+});
+
+it("keeps undoing the other contacts when one write fails", async () => {
+  const contacts = new Map<string, Contacts.Contact>([
+    ["1", stored],
+    ["2", { ...stored, id: "2", name: "Beta Ltd" }],
+  ]);
+  getContactByIdAsync.mockImplementation(async (id: string) => contacts.get(id));
+  updateContactAsync.mockImplementation(async (update: Contacts.Contact) => {
+    contacts.set(update.id!, { ...contacts.get(update.id!)!, phoneNumbers: update.phoneNumbers });
+    return update.id;
+  });
+  await addPhoneNumbers(listed, [addition], "batch");
+  await addPhoneNumbers({ ...listed, id: "2", name: "Beta Ltd" }, [addition], "batch");
+
+  updateContactAsync.mockRejectedValueOnce(new Error("Contact is read-only"));
+  const { reverted, conflicts, failed } = await undoEntries(await loadJournal());
+
+  expect(failed.map((step) => step.contactName)).toEqual(["Acme Ltd"]);
+  expect(reverted.map((step) => step.contactName)).toEqual(["Beta Ltd"]);
+  expect(conflicts).toEqual([]);
+  // The failed contact can still be undone later
+  expect(getActiveEntries(await loadJournal())).toHaveLength(1);
+});
+
+describe("applyPlannedChanges", () => {
+  const before = [
+    { label: "mobile", number: "0788123456", id: "p1" },
+    { label: "work", number: "0788 123 456", id: "p2" },
+  ];
+
+  it("removes, rewrites and adds entries in memory", () => {
+    const result = applyPlannedChanges(before, {
+      additions: [{ label: "mobile", number: "+250788123456" }],
+      removals: [before[1]],
+      rewrites: [{ phone: before[0], number: "0788-123-456" }],
+    });
+
+    expect(result).toEqual({
+      after: [
+        { label: "mobile", number: "0788-123-456", id: "p1" },
+        { label: "mobile", number: "+250788123456" },
+      ],
+      removedIds: ["p2"],
+      rewritten: new Map([["0788123456", "0788-123-456"]]),
+    });
+  });
+
+  it("is null when nothing would change", () => {
+    expect(
+      applyPlannedChanges(before, {
+        additions: [{ label: "mobile", number: "0788123456" }],
+        removals: [],
+      })
+    ).toBeNull();
+  });
+});
+
+describe("removing duplicates", () => {
+  const duplicated: Contacts.Contact = {
+    ...stored,
+    phoneNumbers: [
+      { label: "main", number: "0788123456", id: "p1" },
+      { label: "fax", number: "+15551234567", id: "p2" },
+      { label: "main'", number: "0788 123 456", id: "p3" },
+    ],
+  };
+
+  let current: Contacts.Contact;
+  beforeEach(() => {
+    current = duplicated;
+    getContactByIdAsync.mockImplementation(async () => current);
+    updateContactAsync.mockImplementation(async (update: Contacts.Contact) => {
+      // New entries get fresh ids, as on a device
+      current = {
+        ...current,
+        phoneNumbers: update.phoneNumbers!.map((phone, index) => ({
+          ...phone,
+          id: phone.id ?? `new${index}`,
+        })),
+      };
+      return "1";
+    });
+  });
+
+  it("deletes the planned entries and keeps the rest", async () => {
+    await updatePhoneNumbers(
+      listed,
+      { additions: [addition], removals: [{ label: "main'", number: "0788 123 456", id: "p3" }] },
+      "batch"
+    );
+
+    expect(current.phoneNumbers!.map((phone) => phone.number)).toEqual([
+      "0788123456",
+      "+15551234567",
+      "+250788123456",
+    ]);
+  });
+
+  it("removes the later of two entries without ids", async () => {
+    current = {
+      ...stored,
+      phoneNumbers: [
+        { label: "main", number: "0788123456", id: "p1" },
+        { label: "main", number: "0788123456" },
+      ],
+    };
+    await updatePhoneNumbers(
+      listed,
+      { additions: [], removals: [{ label: "main", number: "0788123456" }] },
+      "batch"
+    );
+    expect(current.phoneNumbers).toEqual([{ label: "main", number: "0788123456", id: "p1" }]);
+  });
+
+  it("does nothing when the duplicate is already gone", async () => {
+    current = stored;
+    await updatePhoneNumbers(
+      listed,
+      { additions: [], removals: [{ label: "main'", number: "0788 123 456", id: "p3" }] },
+      "batch"
+    );
+    expect(updateContactAsync).not.toHaveBeenCalled();
+  });
+
+  it("recreates removed entries on undo", async () => {
+    await updatePhoneNumbers(
+      listed,
+      { additions: [], removals: [{ label: "main'", number: "0788 123 456", id: "p3" }] },
+      "batch"
+    );
+    const { reverted } = await undoEntries(await loadJournal());
+
+    expect(reverted).toHaveLength(1);
+    expect(updateContactAsync).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        phoneNumbers: [
+          { label: "main", number: "0788123456", id: "p1" },
+          { label: "fax", number: "+15551234567", id: "p2" },
+          { label: "main'", number: "0788 123 456", id: undefined },
+        ],
+      })
+    );
+  });
+});
+
+describe("rewriting numbers", () => {
+  let current: Contacts.Contact;
+  beforeEach(() => {
+    current = stored;
+    getContactByIdAsync.mockImplementation(async () => current);
+    updateContactAsync.mockImplementation(async (update: Contacts.Contact) => {
+      current = { ...current, phoneNumbers: update.phoneNumbers };
+      return "1";
+    });
+  });
+
+  const rewrite = {
+    phone: { label: "main", number: "0788123456", id: "p1" },
+    number: "+250788123456",
+  };
+
+  it("replaces the number in place, keeping the label and id", async () => {
+    await updatePhoneNumbers(listed, { additions: [], removals: [], rewrites: [rewrite] }, "batch");
+
+    expect(current.phoneNumbers).toEqual([
+      { label: "main", number: "+250788123456", id: "p1" },
+      { label: "fax", number: "+15551234567", id: "p2" },
+    ]);
+    const [entry] = await loadJournal();
+    expect(entry.before[0].number).toBe("0788123456");
+    expect(entry.after[0].number).toBe("+250788123456");
+  });
+
+  it("accepts the rewritten entry coming back with a new id", async () => {
+    updateContactAsync.mockImplementation(async (update: Contacts.Contact) => {
+      // iOS recreates every entry on save
+      current = {
+        ...current,
+        phoneNumbers: update.phoneNumbers!.map((phone, index) => ({ ...phone, id: `new${index}` })),
+      };
+      return "1";
+    });
+
+    await expect(
+      updatePhoneNumbers(listed, { additions: [], removals: [], rewrites: [rewrite] }, "batch")
+    ).resolves.toBe(true);
+  });
+
+  it("does nothing when the number was already rewritten", async () => {
+    current = {
+      ...stored,
+      phoneNumbers: [{ label: "main", number: "+250788123456", id: "p1" }],
+    };
+    await updatePhoneNumbers(listed, { additions: [], removals: [], rewrites: [rewrite] }, "batch");
+    expect(updateContactAsync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import { parseContactsCsv, toContactsCsv, updateContactsCsv } from "../contactsCsv";
+
+describe("parseContactsCsv", () => {
+  it("reads the Google Contacts layout", () => {
+    const text = [
+      "Name,Given Name,Family Name,Organization 1 - Name,E-mail 1 - Type,E-mail 1 - Value,Phone 1 - Type,Phone 1 - Value,Phone 2 - Type,Phone 2 - Value",
+      "Jane Doe,Jane,Doe,Acme,* Work,jane@acme.rw,* Mobile,0788123456 ::: +250722123456,Work,0788000000",
+    ].join("\n");
+
+    expect(parseContactsCsv(text)).toEqual([
+      {
+        name: "Jane Doe",
+        contactType: "person",
+        firstName: "Jane",
+        lastName: "Doe",
+        company: "Acme",
+        emails: [{ label: "work", email: "jane@acme.rw" }],
+        phoneNumbers: [
+          { label: "mobile", number: "0788123456" },
+          { label: "mobile", number: "+250722123456" },
+          { label: "work", number: "0788000000" },
+        ],
+      },
+    ]);
+  });
+
+  it("reads one column per kind of number, as Outlook and CRMs export", () => {
+    const [contact] = parseContactsCsv(
+      "First Name;Last Name;Mobile Phone;Business Phone;Notes\nJean;Mugabo;0788123456;;VIP"
+    );
+
+    expect(contact).toMatchObject({
+      name: "Jean Mugabo",
+      note: "VIP",
+      phoneNumbers: [{ label: "mobile", number: "0788123456" }],
+    });
+  });
+
+  it("is empty without a header", () => {
+    expect(parseContactsCsv("")).toEqual([]);
+  });
+});
+
+describe("toContactsCsv", () => {
+  it("writes the Google layout with as many pairs as the largest contact needs", () => {
+    const text = toContactsCsv([
+      {
+        name: "Jane Doe",
+        contactType: "person",
+        firstName: "Jane",
+        lastName: "Doe",
+        phoneNumbers: [
+          { label: "mobile", number: "0788123456" },
+          { label: "mobile", number: "+250788123456" },
+        ],
+      },
+      { name: "Acme", contactType: "company", company: "Acme" },
+    ]);
+
+    expect(text.split("\r\n")).toEqual([
+      "Name,Given Name,Family Name,Organization 1 - Name,Notes,Phone 1 - Type,Phone 1 - Value,Phone 2 - Type,Phone 2 - Value",
+      "Jane Doe,Jane,Doe,,,Mobile,0788123456,Mobile,+250788123456",
+      "Acme,,,Acme,,,,,",
+      "",
+    ]);
+    expect(parseContactsCsv(text)[0].phoneNumbers).toHaveLength(2);
+  });
+});
+
+describe("updateContactsCsv", () => {
+  it("rewrites only the numbers in a cell, keeping the rest of the file", () => {
+    const csv = [
+      "Name,Phone 1 - Type,Phone 1 - Value,Notes",
+      "Jane,* Mobile,0788123456 ::: 0788123456,\"Met at the fair, 2023\"",
+      "Bob,Work,0722123456,",
+    ].join("\r\n");
+
+    const text = updateContactsCsv(csv, [
+      [{ label: "mobile", number: "0788123456", entry: 0 }],
+      null,
+    ]);
+
+    expect(text.split("\r\n")).toEqual([
+      "Name,Phone 1 - Type,Phone 1 - Value,Notes",
+      'Jane,* Mobile,0788123456,"Met at the fair, 2023"',
+      "Bob,Work,0722123456,",
+      "",
+    ]);
+  });
+
+  it("clears the type of a pair whose numbers were all removed", () => {
+    const csv = "Name,Phone 1 - Type,Phone 1 - Value\nJane,Mobile,0788123456";
+    expect(updateContactsCsv(csv, [[]]).split("\r\n")[1]).toBe("Jane,,");
+  });
+});
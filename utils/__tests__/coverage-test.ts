@@ -0,0 +1,51 @@
+import type { Contact } from "@/types/contact";
+import { getCoverage, getCoveragePercent } from "../coverage";
+
+const contact = (id: string, numbers: string[], needsFix: boolean): Contact => ({
+  id,
+  name: `Contact ${id}`,
+  phoneNumbers: numbers.map((number) => ({ label: "mobile", number })),
+  needsFix,
+});
+
+describe("getCoverage", () => {
+  it("counts contacts, numbers and what is left to fix", () => {
+    const coverage = getCoverage([
+      contact("1", ["0788123456", "+250788123456"], false),
+      contact("2", ["0722123456", "0722 123 456"], true),
+      contact("3", ["0733000111", "112"], true),
+    ]);
+
+    expect(coverage).toEqual({
+      contacts: 3,
+      complete: 1,
+      numbers: 5,
+      missingForms: 2,
+      duplicates: 1,
+    });
+  });
+
+  it("counts each cached contact once and picks up replaced ones", () => {
+    const cache = new WeakMap();
+    const broken = contact("1", ["0788123456"], true);
+    expect(getCoverage([broken], undefined, cache).complete).toBe(0);
+    expect(cache.has(broken)).toBe(true);
+
+    const fixed = { ...broken, phoneNumbers: [], needsFix: false };
+    expect(getCoverage([fixed], undefined, cache)).toMatchObject({
+      complete: 1,
+      missingForms: 0,
+    });
+  });
+});
+
+describe("getCoveragePercent", () => {
+  it("rounds down so a list is only 100% when everything is fixed", () => {
+    expect(getCoveragePercent({ ...getCoverage([]), contacts: 3, complete: 2 })).toBe(66);
+    expect(getCoveragePercent({ ...getCoverage([]), contacts: 200, complete: 199 })).toBe(99);
+  });
+
+  it("treats an empty list as complete", () => {
+    expect(getCoveragePercent(getCoverage([]))).toBe(100);
+  });
+});
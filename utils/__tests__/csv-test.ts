@@ -0,0 +1,40 @@
+import { parseCsv, toCsv } from "../csv";
+
+describe("parseCsv", () => {
+  it("reads quoted fields with delimiters, quotes and line breaks", () => {
+    const text = 'name,note\r\n"Doe, Jane","Said ""hi""\nthen left"\r\n\r\nBob,\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["name", "note"],
+      ["Doe, Jane", 'Said "hi"\nthen left'],
+      ["Bob", ""],
+    ]);
+  });
+
+  it("detects semicolons and tabs from the header, and drops a byte order mark", () => {
+    expect(parseCsv("\uFEFFname;phone\nJane;0788 123 456")).toEqual([
+      ["name", "phone"],
+      ["Jane", "0788 123 456"],
+    ]);
+    expect(parseCsv("name\tphone\nJane\t0788123456")).toEqual([
+      ["name", "phone"],
+      ["Jane", "0788123456"],
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only the fields that need it and round-trips", () => {
+    const rows = [
+      ["name", "phone"],
+      ["Doe, Jane", "+250788123456"],
+      ['Bob "B"', " 0788123456"],
+    ];
+    const text = toCsv(rows);
+
+    expect(text).toBe(
+      'name,phone\r\n"Doe, Jane",+250788123456\r\n"Bob ""B"""," 0788123456"\r\n'
+    );
+    expect(parseCsv(text)).toEqual(rows);
+  });
+});
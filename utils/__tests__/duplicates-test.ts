@@ -0,0 +1,127 @@
+import {
+  findDuplicateContacts,
+  getNumberKey,
+  nameSimilarity,
+  normalizeName,
+  planMerge,
+} from "../duplicates";
+
+const contact = (id: string, name: string, numbers: string[]) => ({
+  id,
+  name,
+  phoneNumbers: numbers.map((number, index) => ({
+    label: index === 0 ? "mobile" : "work",
+    number,
+  })),
+  needsFix: false,
+});
+
+describe("normalizeName", () => {
+  it("strips accents, case and punctuation", () => {
+    expect(normalizeName("  Irénée UWIMANA-Mugisha ")).toBe("irenee uwimana mugisha");
+  });
+
+  it("keeps letters of other scripts", () => {
+    expect(normalizeName("Иван  ПЕТРОВ")).toBe("иван петров");
+    expect(normalizeName("محمد علي")).toBe("محمد علي");
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("ignores word order", () => {
+    expect(nameSimilarity("Uwimana Jean", "jean uwimana")).toBe(1);
+  });
+
+  it("scores small typos high and different names low", () => {
+    expect(nameSimilarity("Jean Claude", "Jean Claud")).toBeGreaterThan(0.8);
+    expect(nameSimilarity("Jean Claude", "Aline Mukamana")).toBeLessThan(0.3);
+  });
+
+  it("scores empty names as 0", () => {
+    expect(nameSimilarity("", "Jean")).toBe(0);
+  });
+});
+
+describe("getNumberKey", () => {
+  it("uses the international form of supported numbers", () => {
+    expect(getNumberKey("0788 123 456")).toBe("+250788123456");
+    expect(getNumberKey("250788123456")).toBe("+250788123456");
+  });
+
+  it("falls back to the dial string", () => {
+    expect(getNumberKey("+1 (555) 123-4567")).toBe("+15551234567");
+  });
+});
+
+describe("findDuplicateContacts", () => {
+  it("groups contacts sharing a number written differently", () => {
+    const jean = contact("1", "Jean Claude", ["0788 123 456"]);
+    const work = contact("2", "JC Work", ["+250-788-123-456", "+15551234567"]);
+    const other = contact("3", "Aline", ["0722123456"]);
+
+    const [group, ...rest] = findDuplicateContacts([jean, work, other]);
+
+    expect(rest).toEqual([]);
+    expect(group.contacts).toEqual([jean, work]);
+    expect(group.sharedNumbers).toEqual(["+250788123456"]);
+    expect(group.confidence).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it("groups similar names with a lower confidence", () => {
+    const groups = findDuplicateContacts([
+      contact("1", "Jean Claude Uwimana", ["0788123456"]),
+      contact("2", "Jean-Claude Uwimana", ["0722123456"]),
+      contact("3", "Jean Paul", ["0733123456"]),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].contacts.map((c) => c.id)).toEqual(["1", "2"]);
+    expect(groups[0].sharedNumbers).toEqual([]);
+    expect(groups[0].confidence).toBeLessThan(0.7);
+  });
+
+  it("compares names written in other scripts", () => {
+    const groups = findDuplicateContacts([
+      contact("1", "Иван Петров", ["0788123456"]),
+      contact("2", "Петров Иван", ["0722123456"]),
+      contact("3", "Мария Смирнова", ["0733123456"]),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].contacts.map((c) => c.id)).toEqual(["1", "2"]);
+  });
+
+  it("does not group contacts by short codes", () => {
+    expect(
+      findDuplicateContacts([
+        contact("1", "Voicemail", ["123"]),
+        contact("2", "MTN Support", ["123"]),
+      ])
+    ).toEqual([]);
+  });
+
+  it("sorts the most certain groups first", () => {
+    const groups = findDuplicateContacts([
+      contact("1", "Eric Nshuti", ["0788000001"]),
+      contact("2", "Eric Nshuti", ["0788000002"]),
+      contact("3", "Aline", ["0788123456"]),
+      contact("4", "Aline M", ["+250788123456"]),
+    ]);
+    expect(groups.map((group) => group.id)).toEqual(["3:4", "1:2"]);
+  });
+});
+
+describe("planMerge", () => {
+  it("adds the numbers the survivor is missing, once each", () => {
+    const survivor = contact("1", "Jean Claude", ["0788123456"]);
+    const others = [
+      contact("2", "JC Work", ["+250788123456", "+15551234567"]),
+      contact("3", "JC", ["+1 555 123 4567", "0722123456"]),
+    ];
+
+    expect(planMerge(survivor, others)).toEqual([
+      { label: "work", number: "+15551234567" },
+      { label: "work", number: "0722123456" },
+    ]);
+  });
+});
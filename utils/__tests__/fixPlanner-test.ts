@@ -0,0 +1,222 @@
+import {
+  countPlannedAdditions,
+  countPlannedRemovals,
+  getPlannedAdditions,
+  getPlannedChanges,
+  planContactCanonicalize,
+  planContactDedupe,
+  planContactFix,
+  planFixes,
+  relabelPlan,
+} from "../fixPlanner";
+
+const contact = (id: string, numbers: [string, string][]) => ({
+  id,
+  name: `Contact ${id}`,
+  phoneNumbers: numbers.map(([label, number], index) => ({
+    label,
+    number,
+    id: `${id}-${index}`,
+  })),
+  needsFix: true,
+});
+
+describe("planContactFix", () => {
+  it("lists the additions with their labels and keeps existing entries", () => {
+    const jean = contact("1", [
+      ["mobile", "0788123456"],
+      ["home", "+15551234567"],
+    ]);
+    const plan = planContactFix(jean);
+
+    expect(plan.untouched).toBe(jean.phoneNumbers);
+    expect(plan.additions).toEqual([
+      {
+        key: "1:+250788123456",
+        label: "mobile'",
+        number: "+250788123456",
+        source: jean.phoneNumbers[0],
+      },
+    ]);
+  });
+
+  it("plans nothing for a complete contact", () => {
+    const plan = planContactFix(
+      contact("1", [
+        ["mobile", "0788123456"],
+        ["mobile'", "+250788123456"],
+      ])
+    );
+    expect(plan.additions).toEqual([]);
+  });
+});
+
+describe("planContactDedupe", () => {
+  it("keeps the first entry of each form and removes the rest", () => {
+    const jean = contact("1", [
+      ["mobile", "0788 123 456"],
+      ["other", "250788123456"],
+      ["home", "+250 788-123-456"],
+      ["mobile'", "0788123456"],
+    ]);
+    const plan = planContactDedupe(jean);
+
+    expect(plan.contact).toBe(jean);
+    expect(plan.untouched).toEqual([jean.phoneNumbers[0], jean.phoneNumbers[1]]);
+    expect(plan.removals).toEqual([
+      { key: "1:remove:1-2", phone: jean.phoneNumbers[2], duplicateOf: jean.phoneNumbers[1] },
+      { key: "1:remove:1-3", phone: jean.phoneNumbers[3], duplicateOf: jean.phoneNumbers[0] },
+    ]);
+    expect(plan.additions).toEqual([]);
+  });
+
+  it("adds the form none of the duplicates holds", () => {
+    const plan = planContactDedupe(
+      contact("1", [
+        ["mobile", "0788123456"],
+        ["home", "0788 123 456"],
+      ])
+    );
+    expect(plan.removals.map((removal) => removal.phone.label)).toEqual(["home"]);
+    expect(plan.additions.map((addition) => addition.number)).toEqual(["+250788123456"]);
+  });
+});
+
+describe("planContactCanonicalize", () => {
+  it("rewrites entries in place and removes the ones that would repeat", () => {
+    const jean = contact("1", [
+      ["mobile", "0788123456"],
+      ["mobile'", "+250788123456"],
+      ["work", "0722 123 456"],
+      ["home", "+15551234567"],
+    ]);
+    const plan = planContactCanonicalize(jean, undefined, "e164");
+
+    expect(plan.additions).toEqual([]);
+    // The entry already in the canonical format is the one kept
+    expect(plan.removals).toEqual([
+      { key: "1:remove:1-0", phone: jean.phoneNumbers[0], duplicateOf: jean.phoneNumbers[1] },
+    ]);
+    expect(plan.rewrites).toEqual([
+      { key: "1:rewrite:1-2", phone: jean.phoneNumbers[2], number: "+250722123456" },
+    ]);
+    expect(plan.untouched).toEqual([jean.phoneNumbers[1], jean.phoneNumbers[3]]);
+  });
+
+  it("rewrites to the grouped format", () => {
+    const jean = contact("1", [["mobile", "+250788123456"]]);
+    expect(planContactCanonicalize(jean, undefined, "grouped").rewrites[0].number).toBe(
+      "+250 788 123 456"
+    );
+  });
+
+  it("is passed through getPlannedChanges, minus excluded rewrites", () => {
+    const jean = contact("1", [
+      ["mobile", "+250788123456"],
+      ["work", "+250722123456"],
+    ]);
+    const plan = planContactCanonicalize(jean, undefined, "local");
+
+    expect(getPlannedChanges(plan, new Set(["1:rewrite:1-1"])).rewrites).toEqual([
+      { phone: jean.phoneNumbers[0], number: "0788123456" },
+    ]);
+  });
+});
+
+describe("planFixes", () => {
+  it("drops contacts with nothing to add", () => {
+    const plans = planFixes([
+      contact("1", [["mobile", "0788123456"]]),
+      contact("2", [["work", "+15551234567"]]),
+    ]);
+    expect(plans.map((plan) => plan.contact.id)).toEqual(["1"]);
+  });
+
+  it("plans merges for contacts with duplicates", () => {
+    const plans = planFixes(
+      [
+        contact("1", [["mobile", "0788123456"]]),
+        contact("2", [
+          ["mobile", "0788123456"],
+          ["mobile'", "+250788123456"],
+          ["home", "250788123456"],
+        ]),
+      ],
+      undefined,
+      undefined,
+      "duplicates"
+    );
+    expect(plans.map((plan) => plan.contact.id)).toEqual(["2"]);
+  });
+});
+
+describe("getPlannedChanges", () => {
+  const plan = planContactDedupe(
+    contact("1", [
+      ["mobile", "0788123456"],
+      ["home", "0788123456"],
+      ["work", "0722123456"],
+      ["other", "0722 123 456"],
+    ])
+  );
+
+  it("lists removals next to additions, leaving out excluded ones", () => {
+    const { additions, removals } = getPlannedChanges(plan, new Set(["1:remove:1-3"]));
+    expect(removals).toEqual([plan.contact.phoneNumbers[1]]);
+    expect(additions).toHaveLength(2);
+    expect(countPlannedRemovals([plan])).toBe(2);
+    expect(countPlannedRemovals([plan], new Set(["1:remove:1-3"]))).toBe(1);
+  });
+});
+
+describe("getPlannedAdditions", () => {
+  const plan = planContactFix(
+    contact("1", [
+      ["mobile", "0788123456"],
+      ["work", "+250722123456"],
+    ])
+  );
+
+  it("includes every addition by default", () => {
+    expect(getPlannedAdditions(plan)).toEqual([
+      { label: "mobile'", number: "+250788123456" },
+      { label: "work'", number: "0722123456" },
+    ]);
+  });
+
+  it("leaves out excluded additions", () => {
+    expect(getPlannedAdditions(plan, new Set(["1:0722123456"]))).toEqual([
+      { label: "mobile'", number: "+250788123456" },
+    ]);
+  });
+
+  it("counts the additions still included", () => {
+    expect(countPlannedAdditions([plan])).toBe(2);
+    expect(countPlannedAdditions([plan], new Set(["1:0722123456"]))).toBe(1);
+  });
+});
+
+describe("relabelPlan", () => {
+  const plan = planContactFix(
+    contact("1", [
+      ["mobile", "0788123456"],
+      ["work", "+250722123456"],
+    ])
+  );
+
+  it("uses the labels typed for some additions", () => {
+    const relabelled = relabelPlan(
+      plan,
+      new Map([
+        ["1:+250788123456", " Mobile (intl) "],
+        ["1:0722123456", "   "],
+      ])
+    );
+
+    expect(getPlannedAdditions(relabelled)).toEqual([
+      { label: "Mobile (intl)", number: "+250788123456" },
+      { label: "work'", number: "0722123456" },
+    ]);
+    expect(relabelled.additions[0].key).toBe(plan.additions[0].key);
+  });
+});
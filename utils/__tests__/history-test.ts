@@ -0,0 +1,180 @@
+import type { Contact } from "@/types/contact";
+import type { FixSession, HistorySession } from "@/types/history";
+import {
+  clearHistory,
+  getBreakdowns,
+  getDailyFixes,
+  loadHistory,
+  MAX_FIX_SESSIONS,
+  MAX_SCAN_SESSIONS,
+  recordFix,
+  recordScan,
+  sortBreakdown,
+  summarizeHistory,
+} from "../history";
+import { classifyLine } from "../phoneNumbers";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const contact = (id: string, phones: [string, string][], needsFix: boolean): Contact => ({
+  id,
+  name: `Contact ${id}`,
+  phoneNumbers: phones.map(([label, number]) => ({
+    label,
+    number,
+    line: classifyLine(number) ?? undefined,
+  })),
+  needsFix,
+});
+
+const fix = (
+  timestamp: number,
+  fixed: number,
+  failed: number,
+  source: FixSession["source"] = "manual"
+): FixSession => ({
+  type: "fix",
+  id: String(timestamp),
+  timestamp,
+  kind: "missingForms",
+  batchId: "batch",
+  source,
+  attempted: fixed + failed,
+  fixed,
+  failed,
+});
+
+beforeEach(() => clearHistory());
+
+describe("recordScan and recordFix", () => {
+  it("appends sessions in order", async () => {
+    await recordScan({
+      kind: "missingForms",
+      scanned: 10,
+      listed: 8,
+      needFix: 3,
+      byOperator: {},
+      byLabel: {},
+    });
+    await recordFix({
+      kind: "missingForms",
+      batchId: "b1",
+      source: "manual",
+      attempted: 3,
+      fixed: 2,
+      failed: 1,
+    });
+
+    const sessions = await loadHistory();
+    expect(sessions.map((session) => session.type)).toEqual(["scan", "fix"]);
+    expect(sessions[1]).toMatchObject({ batchId: "b1", fixed: 2, failed: 1 });
+  });
+
+  it("keeps only the most recent sessions", async () => {
+    for (let index = 0; index < MAX_FIX_SESSIONS + 2; index++) {
+      await recordFix({
+        kind: "missingForms",
+        batchId: `b${index}`,
+        source: "auto",
+        attempted: 1,
+        fixed: 1,
+        failed: 0,
+      });
+    }
+
+    const sessions = (await loadHistory()) as FixSession[];
+    expect(sessions).toHaveLength(MAX_FIX_SESSIONS);
+    expect(sessions[0].batchId).toBe("b2");
+  });
+
+  it("never drops fixes to make room for scans", async () => {
+    await recordFix({
+      kind: "missingForms",
+      batchId: "b0",
+      source: "manual",
+      attempted: 1,
+      fixed: 1,
+      failed: 0,
+    });
+    for (let index = 0; index < MAX_SCAN_SESSIONS + 2; index++) {
+      await recordScan({
+        kind: "missingForms",
+        scanned: index,
+        listed: 0,
+        needFix: 0,
+        byOperator: {},
+        byLabel: {},
+      });
+    }
+
+    const sessions = await loadHistory();
+    expect(sessions[0]).toMatchObject({ type: "fix", batchId: "b0" });
+    expect(sessions.filter((session) => session.type === "scan")).toHaveLength(
+      MAX_SCAN_SESSIONS
+    );
+    expect(sessions[1]).toMatchObject({ type: "scan", scanned: 2 });
+  });
+});
+
+describe("getBreakdowns", () => {
+  it("counts numbers by operator and label, and those needing a fix", () => {
+    const { byOperator, byLabel } = getBreakdowns([
+      contact("1", [["mobile", "0788123456"], ["work", "0722123456"]], true),
+      contact("2", [["mobile", "0781234567"]], false),
+    ]);
+
+    expect(byOperator).toEqual({
+      MTN: { numbers: 2, needFix: 1 },
+      Airtel: { numbers: 1, needFix: 1 },
+    });
+    expect(sortBreakdown(byLabel)).toEqual([
+      { key: "mobile", numbers: 2, needFix: 1 },
+      { key: "work", numbers: 1, needFix: 1 },
+    ]);
+  });
+});
+
+describe("summarizeHistory", () => {
+  it("totals the fix sessions and finds the last scan", () => {
+    const scan: HistorySession = {
+      type: "scan",
+      id: "s",
+      timestamp: 2,
+      kind: "missingForms",
+      scanned: 5,
+      listed: 4,
+      needFix: 2,
+      byOperator: {},
+      byLabel: {},
+    };
+    const summary = summarizeHistory([fix(1, 3, 1), scan, fix(3, 2, 0, "auto")]);
+
+    expect(summary).toMatchObject({
+      scans: 1,
+      fixSessions: 2,
+      fixed: 5,
+      failed: 1,
+      autoFixed: 2,
+    });
+    expect(summary.lastScan).toBe(scan);
+  });
+});
+
+describe("getDailyFixes", () => {
+  it("totals each of the last days, including days without fixes", () => {
+    const now = new Date(2025, 0, 31, 18).getTime();
+    const yesterday = new Date(2025, 0, 30, 9).getTime();
+    const lastWeek = new Date(2025, 0, 20).getTime();
+
+    const sessions = [fix(lastWeek, 9, 9), fix(yesterday, 2, 1), fix(now, 4, 0)];
+    const days = getDailyFixes(sessions, 3, now);
+
+    expect(days).toEqual([
+      { dateKey: "2025-01-29", fixed: 0, failed: 0 },
+      { dateKey: "2025-01-30", fixed: 2, failed: 1 },
+      { dateKey: "2025-01-31", fixed: 4, failed: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import { fromHex, hmacSha256, toHex } from "../hmac";
+
+jest.mock("expo-crypto", () => {
+  const crypto = require("crypto");
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    digest: async (_algorithm: string, data: Uint8Array) =>
+      new Uint8Array(crypto.createHash("sha256").update(data).digest()).buffer,
+  };
+});
+
+describe("hmacSha256", () => {
+  // Test cases 1, 2 and 6 of RFC 4231
+  it("matches the published test vectors", async () => {
+    expect(await hmacSha256(new Uint8Array(20).fill(0x0b), "Hi There")).toBe(
+      "b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7"
+    );
+    expect(await hmacSha256(new TextEncoder().encode("Jefe"), "what do ya want for nothing?")).toBe(
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843"
+    );
+    expect(
+      await hmacSha256(
+        new Uint8Array(131).fill(0xaa),
+        "Test Using Larger Than Block-Size Key - Hash Key First"
+      )
+    ).toBe("60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54");
+  });
+});
+
+describe("toHex and fromHex", () => {
+  it("round-trip bytes", () => {
+    const bytes = new Uint8Array([0, 15, 16, 255]);
+    expect(toHex(bytes)).toBe("000f10ff");
+    expect(fromHex("000f10ff")).toEqual(bytes);
+  });
+});
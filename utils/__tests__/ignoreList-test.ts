@@ -0,0 +1,67 @@
+import type { Contact } from "@/types/contact";
+import {
+  EMPTY_IGNORE_LIST,
+  ignoreContact,
+  ignoreNumber,
+  isContactIgnored,
+  isNumberIgnored,
+  loadIgnoreList,
+  mentionsContact,
+  saveIgnoreList,
+  unignoreContact,
+  unignoreNumber,
+} from "../ignoreList";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const switchboard: Contact = {
+  id: "1",
+  name: "Switchboard",
+  phoneNumbers: [{ label: "work", number: "0252123456", id: "p1" }],
+  needsFix: true,
+};
+
+describe("ignoring numbers", () => {
+  const list = ignoreNumber(EMPTY_IGNORE_LIST, switchboard, switchboard.phoneNumbers[0]);
+
+  it("matches the number in any format, on that contact only", () => {
+    expect(isNumberIgnored(list, "1", "+250 252 123 456")).toBe(true);
+    expect(isNumberIgnored(list, "2", "0252123456")).toBe(false);
+    expect(isNumberIgnored(list, "1", "0788123456")).toBe(false);
+  });
+
+  it("does not add the same number twice", () => {
+    expect(ignoreNumber(list, switchboard, { label: "main", number: "+250252123456" })).toBe(
+      list
+    );
+  });
+
+  it("mentions the contact without ignoring all of it", () => {
+    expect(mentionsContact(list, "1")).toBe(true);
+    expect(isContactIgnored(list, "1")).toBe(false);
+  });
+
+  it("can be undone", () => {
+    expect(unignoreNumber(list, list.numbers[0])).toEqual(EMPTY_IGNORE_LIST);
+  });
+});
+
+describe("ignoring contacts", () => {
+  it("adds and removes a contact once", () => {
+    const list = ignoreContact(EMPTY_IGNORE_LIST, switchboard);
+
+    expect(list.contacts).toEqual([{ contactId: "1", contactName: "Switchboard" }]);
+    expect(ignoreContact(list, switchboard)).toBe(list);
+    expect(isContactIgnored(list, "1")).toBe(true);
+    expect(unignoreContact(list, "1")).toEqual(EMPTY_IGNORE_LIST);
+  });
+});
+
+it("stores the list", async () => {
+  expect(await loadIgnoreList()).toEqual(EMPTY_IGNORE_LIST);
+  const list = ignoreContact(EMPTY_IGNORE_LIST, switchboard);
+  await saveIgnoreList(list);
+  expect(await loadIgnoreList()).toEqual(list);
+});
@@ -0,0 +1,184 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { JournalEntry } from "@/types/journal";
+import {
+  JOURNAL_CHUNK_SIZE,
+  appendJournalEntry,
+  clearJournal,
+  getDateKey,
+  getEntriesForContact,
+  getEntriesForDate,
+  getLastBatch,
+  getPhoneNumbersNotIn,
+  loadJournal,
+  markEntriesUndone,
+  planUndo,
+  samePhoneNumbers,
+} from "../journal";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const mobile = (number: string) => ({ label: "mobile", number });
+
+const entry = (overrides: Partial<JournalEntry>): JournalEntry => ({
+  id: "e1",
+  batchId: "b1",
+  contactId: "c1",
+  contactName: "Jean",
+  before: [mobile("0788123456")],
+  after: [mobile("0788123456"), mobile("+250788123456")],
+  timestamp: new Date(2025, 0, 31, 10).getTime(),
+  ...overrides,
+});
+
+describe("journal selectors", () => {
+  const entries = [
+    entry({ id: "e1", batchId: "b1", contactId: "c1" }),
+    entry({
+      id: "e2",
+      batchId: "b2",
+      contactId: "c2",
+      timestamp: new Date(2025, 1, 1, 9).getTime(),
+    }),
+    entry({
+      id: "e3",
+      batchId: "b2",
+      contactId: "c3",
+      timestamp: new Date(2025, 1, 1, 9).getTime(),
+    }),
+    entry({
+      id: "e4",
+      batchId: "b3",
+      contactId: "c1",
+      timestamp: new Date(2025, 1, 2).getTime(),
+      undoneAt: new Date(2025, 1, 2).getTime(),
+    }),
+  ];
+
+  it("finds the most recent batch that is not undone", () => {
+    expect(getLastBatch(entries).map((e) => e.id)).toEqual(["e2", "e3"]);
+    expect(getLastBatch([])).toEqual([]);
+  });
+
+  it("groups entries by local date", () => {
+    expect(getDateKey(new Date(2025, 0, 31, 23, 59).getTime())).toBe("2025-01-31");
+    expect(getEntriesForDate(entries, "2025-02-01").map((e) => e.id)).toEqual([
+      "e2",
+      "e3",
+    ]);
+  });
+
+  it("finds the changes to one contact", () => {
+    expect(getEntriesForContact(entries, "c1").map((e) => e.id)).toEqual(["e1"]);
+  });
+});
+
+describe("planUndo", () => {
+  it("restores each contact to its state before the earliest change", () => {
+    const first = entry({
+      id: "e1",
+      before: [mobile("0788123456")],
+      after: [mobile("0788123456"), mobile("+250788123456")],
+    });
+    const second = entry({
+      id: "e2",
+      timestamp: first.timestamp + 1000,
+      before: first.after,
+      after: [...first.after, mobile("0722123456")],
+    });
+
+    expect(planUndo([second, first])).toEqual([
+      {
+        contactId: "c1",
+        contactName: "Jean",
+        expected: second.after,
+        restore: first.before,
+        entryIds: ["e1", "e2"],
+      },
+    ]);
+  });
+
+  it("skips entries that were already undone", () => {
+    expect(planUndo([entry({ undoneAt: 1 })])).toEqual([]);
+  });
+});
+
+describe("samePhoneNumbers", () => {
+  it("ignores order, formatting and labels", () => {
+    expect(
+      samePhoneNumbers(
+        [mobile("0788 123 456"), mobile("+250788123456")],
+        [{ label: "Mobile", number: "+250788123456" }, mobile("0788123456")]
+      )
+    ).toBe(true);
+  });
+
+  it("detects added or changed numbers", () => {
+    expect(samePhoneNumbers([mobile("0788123456")], [mobile("0788123457")])).toBe(false);
+    expect(samePhoneNumbers([mobile("0788123456")], [])).toBe(false);
+  });
+
+  it("lists the numbers of one set missing from another", () => {
+    const before = [mobile("0788123456"), mobile("0788 123 456"), mobile("0722123456")];
+    const after = [mobile("0788123456"), mobile("+250788123456")];
+
+    expect(getPhoneNumbersNotIn(after, before)).toEqual([mobile("+250788123456")]);
+    // The merged duplicate counts once
+    expect(getPhoneNumbersNotIn(before, after)).toEqual([
+      mobile("0788 123 456"),
+      mobile("0722123456"),
+    ]);
+  });
+});
+
+describe("journal storage", () => {
+  beforeEach(() => clearJournal());
+
+  it("keeps every concurrently appended entry", async () => {
+    const { id: _id, timestamp: _timestamp, ...base } = entry({});
+    await Promise.all(
+      ["c1", "c2", "c3"].map((contactId) =>
+        appendJournalEntry({ ...base, contactId })
+      )
+    );
+    expect((await loadJournal()).map((e) => e.contactId).sort()).toEqual([
+      "c1",
+      "c2",
+      "c3",
+    ]);
+  });
+
+  it("marks entries as undone", async () => {
+    const { id: _id, timestamp: _timestamp, ...base } = entry({});
+    const recorded = await appendJournalEntry(base);
+    await markEntriesUndone([recorded.id]);
+    const [stored] = await loadJournal();
+    expect(stored.undoneAt).toEqual(expect.any(Number));
+  });
+
+  it("appends to the latest chunk and rewrites only the chunks it changes", async () => {
+    const { id: _id, timestamp: _timestamp, ...base } = entry({});
+    for (let i = 0; i <= JOURNAL_CHUNK_SIZE; i++) {
+      await appendJournalEntry({ ...base, contactId: `c${i}` });
+    }
+    expect(JSON.parse((await AsyncStorage.getItem("journal"))!)).toHaveLength(JOURNAL_CHUNK_SIZE);
+    const journal = await loadJournal();
+    expect(journal.map((e) => e.contactId)).toEqual(
+      Array.from({ length: JOURNAL_CHUNK_SIZE + 1 }, (_, i) => `c${i}`)
+    );
+
+    const multiSet = jest.mocked(AsyncStorage.multiSet);
+    multiSet.mockClear();
+    await markEntriesUndone([journal[JOURNAL_CHUNK_SIZE].id]);
+    expect(multiSet.mock.calls).toEqual([[[["journal.1", expect.any(String)]]]]);
+    expect(getLastBatch(await loadJournal())).toHaveLength(JOURNAL_CHUNK_SIZE);
+  });
+
+  it("loads a journal saved as a single array", async () => {
+    await AsyncStorage.setItem("journal", JSON.stringify([entry({ id: "old" })]));
+    const { id: _id, timestamp: _timestamp, ...base } = entry({});
+    await appendJournalEntry(base);
+    expect((await loadJournal()).map((e) => e.id)).toEqual(["old", expect.any(String)]);
+  });
+});
@@ -0,0 +1,62 @@
+import { formatLabel, getAdditionLabel } from "../labels";
+
+describe("getAdditionLabel", () => {
+  const existing = ["mobile", "mobile'"];
+
+  it("adds prime marks by default", () => {
+    expect(getAdditionLabel("mobile", "international", existing)).toBe("mobile''");
+  });
+
+  it("keeps the same label", () => {
+    expect(
+      getAdditionLabel("mobile", "international", existing, {
+        strategy: "same",
+        customLabel: "",
+      })
+    ).toBe("mobile");
+  });
+
+  it("names the added form with a suffix", () => {
+    const options = { strategy: "suffix" as const, customLabel: "" };
+    expect(getAdditionLabel("mobile", "international", existing, options)).toBe(
+      "mobile (intl)"
+    );
+    expect(getAdditionLabel("work", "local", existing, options)).toBe("work (local)");
+    // The source may itself have been added with a suffix
+    expect(getAdditionLabel("mobile (intl)", "local", existing, options)).toBe(
+      "mobile (local)"
+    );
+  });
+
+  it("uses a fixed custom label, falling back to the source label", () => {
+    expect(
+      getAdditionLabel("mobile", "local", existing, {
+        strategy: "custom",
+        customLabel: " CRM ",
+      })
+    ).toBe("CRM");
+    expect(
+      getAdditionLabel("mobile", "local", existing, {
+        strategy: "custom",
+        customLabel: "",
+      })
+    ).toBe("mobile");
+  });
+});
+
+describe("formatLabel", () => {
+  it("lowercases labels and spells out underscores by default", () => {
+    expect(formatLabel("Mobile")).toBe("mobile");
+    expect(formatLabel("MAIN_PHONE_NUMBER")).toBe("main phone number");
+  });
+
+  it("keeps labels as saved when asked to", () => {
+    expect(formatLabel("Mobile", "asSaved")).toBe("Mobile");
+    expect(formatLabel("MAIN_NUMBER", "asSaved")).toBe("MAIN_NUMBER");
+  });
+
+  it("falls back to other for missing labels", () => {
+    expect(formatLabel(undefined)).toBe("other");
+    expect(formatLabel("", "asSaved")).toBe("other");
+  });
+});
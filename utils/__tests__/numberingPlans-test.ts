@@ -0,0 +1,43 @@
+import {
+  formatCountryList,
+  getActivePlans,
+  getNumberingPlan,
+  getNumberingPlans,
+  registerNumberingPlan,
+} from "../numberingPlans";
+
+describe("numbering plan registry", () => {
+  it("ships the East African plans", () => {
+    expect(getNumberingPlans().map((plan) => plan.id)).toEqual(
+      expect.arrayContaining(["RW", "KE", "UG", "TZ", "BI", "CD"])
+    );
+  });
+
+  it("resolves active countries in order and skips unknown ids", () => {
+    expect(getActivePlans(["UG", "XX", "RW"]).map((plan) => plan.id)).toEqual([
+      "UG",
+      "RW",
+    ]);
+  });
+
+  it("accepts new plans", () => {
+    registerNumberingPlan({
+      id: "ZZ",
+      name: "Testland",
+      countryCode: "999",
+      trunkPrefix: "0",
+      nationalPrefixes: ["5"],
+      nationalNumberLengths: [8],
+    });
+    expect(getNumberingPlan("ZZ")?.countryCode).toBe("999");
+  });
+});
+
+describe("formatCountryList", () => {
+  it("joins country names for display", () => {
+    expect(formatCountryList(getActivePlans(["RW"]))).toBe("Rwanda");
+    expect(formatCountryList(getActivePlans(["RW", "KE", "UG"]))).toBe(
+      "Rwanda, Kenya and Uganda"
+    );
+  });
+});
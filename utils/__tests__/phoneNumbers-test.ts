@@ -0,0 +1,444 @@
+import {
+  classifyLine,
+  classifyNumber,
+  cleanNumber,
+  contactHasDuplicates,
+  contactNeedsCanonicalizing,
+  contactNeedsFix,
+  formatCanonical,
+  formatForDisplay,
+  getDuplicateEntries,
+  getFixedPhoneNumbers,
+  getMissingForms,
+  getNextLabel,
+  isAmbiguousNumber,
+  isSupportedNumber,
+  normalizeContactNumbers,
+  normalizeNumber,
+  validateContact,
+} from "../phoneNumbers";
+import { getActivePlans } from "../numberingPlans";
+
+const eastAfrica = getActivePlans(["RW", "KE", "UG", "TZ", "BI", "CD"]);
+
+describe("cleanNumber", () => {
+  it("strips spaces and dashes", () => {
+    expect(cleanNumber("078 812-3456")).toBe("0788123456");
+    expect(cleanNumber("+250 788 123 456")).toBe("+250788123456");
+  });
+
+  it("strips parentheses, dots and slashes", () => {
+    expect(cleanNumber("(078) 812-3456")).toBe("0788123456");
+    expect(cleanNumber("0788.123.456")).toBe("0788123456");
+    expect(cleanNumber("0788/123/456")).toBe("0788123456");
+  });
+
+  it("strips Unicode spaces and dashes", () => {
+    expect(cleanNumber("0788\u00a0123\u202f456")).toBe("0788123456");
+    expect(cleanNumber("\u200b+250\u2009788\u2013123\u2013456")).toBe(
+      "+250788123456"
+    );
+  });
+
+  it("folds full-width digits and plus signs", () => {
+    expect(cleanNumber("\uff0b\uff12\uff15\uff10788123456")).toBe(
+      "+250788123456"
+    );
+  });
+
+  it("turns a 00 international prefix into +", () => {
+    expect(cleanNumber("00250788123456")).toBe("+250788123456");
+    expect(cleanNumber("00 250 788 123 456")).toBe("+250788123456");
+  });
+
+  it("drops an optional (0) trunk prefix after the country code", () => {
+    expect(cleanNumber("+250 (0) 788 123 456")).toBe("+250788123456");
+    expect(cleanNumber("(0788) 123 456")).toBe("0788123456");
+  });
+});
+
+describe("normalizeNumber", () => {
+  it("normalizes a local number", () => {
+    expect(normalizeNumber("0788123456")).toEqual({
+      country: "RW",
+      format: "local",
+      subscriber: "788123456",
+      local: "0788123456",
+      international: "+250788123456",
+    });
+  });
+
+  it("normalizes an international number", () => {
+    expect(normalizeNumber("+250 788-123-456")).toEqual({
+      country: "RW",
+      format: "international",
+      subscriber: "788123456",
+      local: "0788123456",
+      international: "+250788123456",
+    });
+  });
+
+  it.each([
+    ["(078) 812-3456", "local"],
+    ["0788.123.456", "local"],
+    ["0788\u00a0123\u00a0456", "local"],
+    ["250788123456", "international"],
+    ["00250788123456", "international"],
+    ["+250 (0)788 123 456", "international"],
+  ])("parses %j", (raw, format) => {
+    expect(normalizeNumber(raw)).toEqual({
+      country: "RW",
+      format,
+      subscriber: "788123456",
+      local: "0788123456",
+      international: "+250788123456",
+    });
+  });
+
+  it.each([
+    "078812345",
+    "07881234567",
+    "+25078812345",
+    "+2507881234567",
+    "25078812345",
+    "0025078812345",
+    "+2500788123456",
+    "0788123456 ext 12",
+    "*182#",
+    "07",
+  ])("rejects %j", (raw) => {
+    expect(normalizeNumber(raw)).toBeNull();
+  });
+
+  it("returns null for non-Rwandan numbers", () => {
+    expect(normalizeNumber("+254712345678")).toBeNull();
+    expect(normalizeNumber("")).toBeNull();
+  });
+
+  it("accepts Rwandan landlines", () => {
+    expect(normalizeNumber("0252 123 456")).toMatchObject({
+      format: "local",
+      international: "+250252123456",
+    });
+    expect(normalizeNumber("0222123456")).toBeNull();
+  });
+});
+
+describe("normalizeNumber with several numbering plans", () => {
+  it("detects international numbers by their country code", () => {
+    expect(normalizeNumber("+254712345678", eastAfrica)).toMatchObject({
+      country: "KE",
+      local: "0712345678",
+    });
+    expect(normalizeNumber("+256772123456", eastAfrica)?.country).toBe("UG");
+    expect(normalizeNumber("+255654123456", eastAfrica)?.country).toBe("TZ");
+    expect(normalizeNumber("+243812345678", eastAfrica)?.country).toBe("CD");
+  });
+
+  it("gives ambiguous local numbers to the first active plan", () => {
+    expect(normalizeNumber("0712345678", eastAfrica)?.country).toBe("RW");
+    expect(
+      normalizeNumber("0712345678", getActivePlans(["KE", "RW"]))?.country
+    ).toBe("KE");
+  });
+
+  it("handles plans without a trunk prefix", () => {
+    expect(normalizeNumber("79123456", eastAfrica)).toEqual({
+      country: "BI",
+      format: "local",
+      subscriber: "79123456",
+      local: "79123456",
+      international: "+25779123456",
+    });
+  });
+
+  it("uses only the plans it is given", () => {
+    expect(normalizeNumber("+254712345678")).toBeNull();
+    expect(normalizeNumber("0788123456", getActivePlans(["CD"]))).toBeNull();
+  });
+
+  it("rejects numbers of the wrong length", () => {
+    expect(normalizeNumber("078812345", eastAfrica)).toBeNull();
+    expect(normalizeNumber("+2507881234567", eastAfrica)).toBeNull();
+  });
+});
+
+describe("formatForDisplay", () => {
+  it("converts supported numbers to the chosen form", () => {
+    expect(formatForDisplay("0788 123 456", "international")).toBe("+250788123456");
+    expect(formatForDisplay("+250 788 123 456", "local")).toBe("0788123456");
+  });
+
+  it("leaves numbers as saved otherwise", () => {
+    expect(formatForDisplay("0788 123 456", "asSaved")).toBe("0788 123 456");
+    expect(formatForDisplay("+1 555 123 4567", "local")).toBe("+1 555 123 4567");
+    expect(formatForDisplay("*182#", "international")).toBe("*182#");
+  });
+});
+
+describe("formatCanonical", () => {
+  it("writes a number in each canonical format", () => {
+    expect(formatCanonical("0788 123 456", "e164")).toBe("+250788123456");
+    expect(formatCanonical("+250788123456", "local")).toBe("0788123456");
+    expect(formatCanonical("0788123456", "grouped")).toBe("+250 788 123 456");
+  });
+
+  it("groups shorter subscriber numbers from the right", () => {
+    expect(formatCanonical("+257 79 123 456", "grouped", eastAfrica)).toBe("+257 79 123 456");
+  });
+
+  it("leaves unsupported numbers alone", () => {
+    expect(formatCanonical("*182#", "e164")).toBeNull();
+    expect(formatCanonical("+15551234567", "local")).toBeNull();
+  });
+});
+
+describe("contactNeedsCanonicalizing", () => {
+  const phone = (number: string) => ({ label: "mobile", number });
+
+  it("flags numbers in another format and numbers saved twice", () => {
+    expect(contactNeedsCanonicalizing([phone("0788123456")], "e164")).toBe(true);
+    expect(
+      contactNeedsCanonicalizing([phone("+250788123456"), phone("+250788123456")], "e164")
+    ).toBe(true);
+  });
+
+  it("accepts contacts already in the canonical format", () => {
+    expect(
+      contactNeedsCanonicalizing([phone("+250788123456"), phone("+15551234567")], "e164")
+    ).toBe(false);
+  });
+});
+
+describe("classifyNumber", () => {
+  it("reports the format a number is written in", () => {
+    expect(classifyNumber("0722123456")).toBe("local");
+    expect(classifyNumber("+250722123456")).toBe("international");
+    expect(classifyNumber("+15551234567")).toBeNull();
+  });
+
+  it("agrees with isSupportedNumber", () => {
+    expect(isSupportedNumber("0788123456")).toBe(true);
+    expect(isSupportedNumber("+15551234567")).toBe(false);
+  });
+});
+
+describe("classifyLine", () => {
+  it.each([
+    ["0788123456", "MTN", "mobile"],
+    ["+250 79 123 4567", "MTN", "mobile"],
+    ["0722123456", "Airtel", "mobile"],
+    ["250732123456", "Airtel", "mobile"],
+    ["0252 123 456", "Landline", "fixed"],
+  ])("tags %j as %s", (number, operator, lineType) => {
+    expect(classifyLine(number)).toEqual({ country: "RW", operator, lineType });
+  });
+
+  it("recognizes short codes without making them fixable", () => {
+    ["114", "3456", "*182#", "*131*1#"].forEach((number) => {
+      expect(classifyLine(number)).toEqual({
+        country: "RW",
+        operator: null,
+        lineType: "shortCode",
+      });
+      expect(getMissingForms([{ label: "other", number }])).toEqual([]);
+    });
+  });
+
+  it("leaves the operator unknown where the plan does not list ranges", () => {
+    expect(classifyLine("+254712345678", eastAfrica)).toEqual({
+      country: "KE",
+      operator: null,
+      lineType: "mobile",
+    });
+  });
+
+  it("returns null for unknown numbers", () => {
+    expect(classifyLine("+15551234567")).toBeNull();
+    expect(classifyLine("12")).toBeNull();
+  });
+});
+
+describe("getMissingForms", () => {
+  it("lists the international form of a local number", () => {
+    const source = { label: "mobile", number: "0788123456" };
+    expect(getMissingForms([source])).toEqual([
+      { source, number: "+250788123456", format: "international" },
+    ]);
+  });
+
+  it("lists the local form of an international number", () => {
+    const source = { label: "mobile", number: "+250788123456" };
+    expect(getMissingForms([source])).toEqual([
+      { source, number: "0788123456", format: "local" },
+    ]);
+  });
+
+  it("ignores numbers that already have both forms", () => {
+    expect(
+      getMissingForms([
+        { label: "mobile", number: "0788 123 456" },
+        { label: "mobile'", number: "+250788123456" },
+      ])
+    ).toEqual([]);
+  });
+
+  it("reports each missing number once", () => {
+    expect(
+      getMissingForms([
+        { label: "mobile", number: "0788123456" },
+        { label: "home", number: "078-812-3456" },
+      ])
+    ).toHaveLength(1);
+  });
+
+  it("treats differently written forms as the same number", () => {
+    expect(
+      getMissingForms([
+        { label: "mobile", number: "(078) 812-3456" },
+        { label: "mobile'", number: "00250788123456" },
+      ])
+    ).toEqual([]);
+  });
+
+  it("adds the canonical form of a loosely written number", () => {
+    expect(
+      getMissingForms([{ label: "mobile", number: "250 788 123 456" }]).map(
+        (m) => m.number
+      )
+    ).toEqual(["0788123456"]);
+  });
+
+  it("skips non-Rwandan numbers", () => {
+    expect(getMissingForms([{ label: "work", number: "+15551234567" }])).toEqual([]);
+  });
+});
+
+describe("getMissingForms with several numbering plans", () => {
+  it("adds the form belonging to each number's own country", () => {
+    const phones = [
+      { label: "mobile", number: "+254712345678" },
+      { label: "work", number: "79123456" },
+    ];
+    expect(getMissingForms(phones, eastAfrica).map((m) => m.number)).toEqual([
+      "0712345678",
+      "+25779123456",
+    ]);
+  });
+
+  it("reads an ambiguous local number in the country the contact already has", () => {
+    const plans = getActivePlans(["RW", "KE"]);
+    const kenyan = [{ label: "mobile", number: "+254712345678" }];
+    const fixed = getFixedPhoneNumbers(kenyan, plans);
+
+    expect(fixed.map((phone) => phone.number)).toEqual(["+254712345678", "0712345678"]);
+    // The added local form is not taken for the Rwandan +250712345678
+    expect(getMissingForms(fixed, plans)).toEqual([]);
+    expect(contactNeedsFix(fixed, plans)).toBe(false);
+    expect(normalizeContactNumbers(fixed, plans)[1]?.country).toBe("KE");
+  });
+
+  it("falls back to plan order for an ambiguous number on its own", () => {
+    const plans = getActivePlans(["RW", "KE"]);
+    expect(isAmbiguousNumber("0712345678", plans)).toBe(true);
+    expect(isAmbiguousNumber("+254712345678", plans)).toBe(false);
+    expect(
+      getMissingForms([{ label: "mobile", number: "0712345678" }], plans).map((m) => m.number)
+    ).toEqual(["+250712345678"]);
+  });
+});
+
+describe("contactNeedsFix and validateContact", () => {
+  it("flags a contact missing a form", () => {
+    const phones = [{ label: "mobile", number: "0788123456" }];
+    expect(contactNeedsFix(phones)).toBe(true);
+    expect(validateContact(phones)).toBe(false);
+  });
+
+  it("accepts a contact with both forms", () => {
+    const phones = [
+      { label: "mobile", number: "0788123456" },
+      { label: "mobile'", number: "+250788123456" },
+    ];
+    expect(contactNeedsFix(phones)).toBe(false);
+    expect(validateContact(phones)).toBe(true);
+  });
+
+  it("does not validate a contact without Rwandan numbers", () => {
+    const phones = [{ label: "work", number: "+15551234567" }];
+    expect(contactNeedsFix(phones)).toBe(false);
+    expect(validateContact(phones)).toBe(false);
+  });
+});
+
+describe("getDuplicateEntries", () => {
+  it("finds entries repeating a number in the same form", () => {
+    const phones = [
+      { label: "mobile", number: "0788 123 456" },
+      { label: "mobile'", number: "+250 788-123-456" },
+      { label: "other", number: "250788123456" },
+      { label: "home", number: "0788123456" },
+    ];
+    expect(getDuplicateEntries(phones)).toEqual([
+      { phone: phones[2], duplicateOf: phones[1] },
+      { phone: phones[3], duplicateOf: phones[0] },
+    ]);
+    expect(contactHasDuplicates(phones)).toBe(true);
+  });
+
+  it("does not treat the two forms of a number as duplicates", () => {
+    const phones = [
+      { label: "mobile", number: "0788123456" },
+      { label: "mobile'", number: "+250788123456" },
+      { label: "work", number: "+15551234567" },
+      { label: "work'", number: "+1 555 123 4567" },
+    ];
+    expect(contactHasDuplicates(phones)).toBe(false);
+  });
+});
+
+describe("getNextLabel", () => {
+  it("adds a prime to a fresh label", () => {
+    expect(getNextLabel("mobile", ["mobile"])).toBe("mobile'");
+  });
+
+  it("adds one more prime than the highest existing one", () => {
+    expect(getNextLabel("mobile", ["mobile", "mobile''", "home"])).toBe("mobile'''");
+    expect(getNextLabel("mobile'", ["mobile", "mobile'"])).toBe("mobile''");
+  });
+
+  it("handles labels containing regex characters", () => {
+    expect(getNextLabel("work (main)", ["work (main)"])).toBe("work (main)'");
+  });
+});
+
+describe("getFixedPhoneNumbers", () => {
+  it("appends the missing forms after the existing entries", () => {
+    const phones = [
+      { label: "mobile", number: "0788123456", id: "1" },
+      { label: "work", number: "+250722123456", id: "2" },
+      { label: "home", number: "+15551234567", id: "3" },
+    ];
+    expect(getFixedPhoneNumbers(phones)).toEqual([
+      ...phones,
+      { label: "mobile'", number: "+250788123456" },
+      { label: "work'", number: "0722123456" },
+    ]);
+  });
+
+  it("gives additions derived from the same label distinct primes", () => {
+    const fixed = getFixedPhoneNumbers([
+      { label: "mobile", number: "0788123456" },
+      { label: "mobile", number: "0722123456" },
+    ]);
+    expect(fixed.slice(2).map((p) => p.label)).toEqual(["mobile'", "mobile''"]);
+  });
+
+  it("leaves a complete contact unchanged", () => {
+    const phones = [
+      { label: "mobile", number: "0788123456" },
+      { label: "mobile'", number: "+250788123456" },
+    ];
+    expect(getFixedPhoneNumbers(phones)).toEqual(phones);
+  });
+});
@@ -0,0 +1,100 @@
+import type * as Contacts from "expo-contacts";
+import {
+  getChangedIds,
+  getFingerprint,
+  loadScanIndex,
+  saveScanIndex,
+  scanContact,
+} from "../scanIndex";
+import { EMPTY_IGNORE_LIST, ignoreContact } from "../ignoreList";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("expo-contacts", () => ({
+  Fields: {
+    ID: "id",
+    FirstName: "firstName",
+    LastName: "lastName",
+    PhoneNumbers: "phoneNumbers",
+  },
+}));
+
+const contact: Contacts.Contact = {
+  id: "1",
+  name: "Jean Claude",
+  firstName: "Jean",
+  lastName: "Claude",
+  contactType: "person",
+  phoneNumbers: [{ label: "mobile", number: "0788123456", id: "p1" }],
+};
+
+describe("getFingerprint", () => {
+  it("only changes when the name or a phone entry changes", () => {
+    const fingerprint = getFingerprint(contact);
+
+    expect(getFingerprint({ ...contact, emails: [{ label: "work", email: "a@b.rw" }] })).toBe(
+      fingerprint
+    );
+    expect(getFingerprint({ ...contact, lastName: "Claud" })).not.toBe(fingerprint);
+    expect(
+      getFingerprint({ ...contact, phoneNumbers: [{ label: "work", number: "0788123456" }] })
+    ).not.toBe(fingerprint);
+    expect(
+      getFingerprint({
+        ...contact,
+        phoneNumbers: [...contact.phoneNumbers!, { label: "mobile'", number: "+250788123456" }],
+      })
+    ).not.toBe(fingerprint);
+  });
+});
+
+describe("scanContact", () => {
+  it("reuses the previous result for an unchanged contact", () => {
+    const first = scanContact(contact, "missingForms");
+    expect(first.contact?.needsFix).toBe(true);
+    expect(scanContact({ ...contact }, "missingForms", undefined, first)).toBe(first);
+  });
+
+  it("checks a changed contact again", () => {
+    const first = scanContact(contact, "missingForms");
+    const fixed = scanContact(
+      {
+        ...contact,
+        phoneNumbers: [...contact.phoneNumbers!, { label: "mobile'", number: "+250788123456" }],
+      },
+      "missingForms",
+      undefined,
+      first
+    );
+
+    expect(fixed).not.toBe(first);
+    expect(fixed.contact?.needsFix).toBe(false);
+  });
+
+  it("checks contacts the ignore list mentions again", () => {
+    const first = scanContact(contact, "missingForms");
+    const list = ignoreContact(EMPTY_IGNORE_LIST, first.contact!);
+
+    const ignored = scanContact(contact, "missingForms", undefined, first, list);
+    expect(ignored.contact).toBeNull();
+    expect(scanContact(contact, "missingForms", undefined, ignored).contact?.needsFix).toBe(true);
+  });
+});
+
+describe("getChangedIds", () => {
+  it("lists new and changed contacts", () => {
+    expect(getChangedIds({ a: "1", b: "2", c: "3" }, { a: "1", b: "9", d: "4" })).toEqual([
+      "b",
+      "d",
+    ]);
+  });
+});
+
+describe("loadScanIndex", () => {
+  it("is null until a scan was saved", async () => {
+    expect(await loadScanIndex()).toBeNull();
+    await saveScanIndex({ a: "1" });
+    expect(await loadScanIndex()).toEqual({ a: "1" });
+  });
+});
@@ -0,0 +1,57 @@
+import { checkNumber, findNumberIssues } from "../validation";
+
+describe("checkNumber", () => {
+  it.each([
+    ["078812345", "truncated", "1 digit missing"],
+    ["+250 7881 234", "truncated", "2 digits missing"],
+    ["07881234567", "tooLong", "1 digit too many"],
+  ])("flags %j as %s without guessing", (number, kind, reason) => {
+    expect(checkNumber(number)).toEqual({ kind, reason, suggestions: [] });
+  });
+
+  it.each([
+    ["+250 0788 123 456", "+250788123456"],
+    ["788123456", "0788123456"],
+    ["O788 l23 456", "0788123456"],
+  ])("suggests a correction for malformed %j", (number, suggestion) => {
+    expect(checkNumber(number)).toMatchObject({
+      kind: "malformed",
+      suggestions: [suggestion],
+    });
+  });
+
+  it.each([
+    ["08301234", "0788301234"],
+    ["+250 830 1234", "+250788301234"],
+    ["512345", "0252512345"],
+  ])("maps the obsolete %j to its current number", (number, suggestion) => {
+    expect(checkNumber(number)).toEqual({
+      kind: "obsolete",
+      reason: "Uses the old Rwanda numbering",
+      suggestions: [suggestion],
+    });
+  });
+
+  it.each([
+    "0788123456",
+    "+250252123456",
+    "114",
+    "*182#",
+    "+15551234567",
+    "0788123456 ext 12",
+    "Office",
+  ])("leaves %j alone", (number) => {
+    expect(checkNumber(number)).toBeNull();
+  });
+});
+
+describe("findNumberIssues", () => {
+  it("lists only the entries with a problem", () => {
+    const broken = { label: "home", number: "078812345" };
+    expect(
+      findNumberIssues([{ label: "mobile", number: "0788123456" }, broken])
+    ).toEqual([
+      { phone: broken, kind: "truncated", reason: "1 digit missing", suggestions: [] },
+    ]);
+  });
+});
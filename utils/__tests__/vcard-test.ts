@@ -0,0 +1,260 @@
+import type { Contact as DeviceContact } from "expo-contacts";
+import {
+  escapeValue,
+  parseVCards,
+  replaceVCardPhones,
+  splitVCards,
+  toVCard,
+  toVCardFile,
+  unescapeValue,
+} from "../vcard";
+
+const jean: DeviceContact = {
+  id: "ABC-123:ABPerson",
+  contactType: "person",
+  name: "Dr. Jean Claude Uwimana",
+  firstName: "Jean",
+  middleName: "Claude",
+  lastName: "Uwimana",
+  namePrefix: "Dr.",
+  nickname: "JC",
+  company: "Acme; Ltd",
+  department: "Sales",
+  jobTitle: "Manager",
+  phoneNumbers: [
+    { label: "mobile", number: "0788 123 456", id: "p1" },
+    { label: "mobile'", number: "+250788123456", id: "p2" },
+  ],
+  emails: [{ label: "work", email: "jc@example.com" }],
+  birthday: { day: 5, month: 0, year: 1990 },
+  note: "Met at the conference,\nKigali",
+};
+
+describe("escaping", () => {
+  it("round-trips special characters", () => {
+    const value = "a;b,c\\d\ne";
+    expect(escapeValue(value)).toBe("a\\;b\\,c\\\\d\\ne");
+    expect(unescapeValue(escapeValue(value))).toBe(value);
+  });
+});
+
+describe("toVCard", () => {
+  const card = toVCard(jean);
+
+  it("writes a vCard 3.0 with CRLF line endings", () => {
+    expect(card.startsWith("BEGIN:VCARD\r\nVERSION:3.0\r\n")).toBe(true);
+    expect(card.endsWith("END:VCARD\r\n")).toBe(true);
+  });
+
+  it("keeps the contact id in UID", () => {
+    expect(card).toContain("UID:ABC-123:ABPerson\r\n");
+  });
+
+  it("uses TEL types for standard labels and X-ABLabel for custom ones", () => {
+    expect(card).toContain("TEL;TYPE=CELL:0788 123 456\r\n");
+    expect(card).toContain("item1.TEL:+250788123456\r\nitem1.X-ABLabel:mobile'\r\n");
+  });
+
+  it("writes vCard 4.0 when asked", () => {
+    expect(toVCard({ ...jean, contactType: "company" }, "4.0")).toContain(
+      "VERSION:4.0\r\n"
+    );
+    expect(toVCard({ ...jean, contactType: "company" }, "4.0")).toContain("KIND:org");
+  });
+
+  it("writes vCard 4.0 dates in the basic format", () => {
+    const contact: DeviceContact = {
+      ...jean,
+      birthday: { day: 15, month: 5, year: 2004 },
+      dates: [{ label: "anniversary", day: 1, month: 11 }],
+    };
+    const lines = toVCard(contact, "4.0").split("\r\n");
+    expect(lines).toContain("BDAY:20040615");
+    expect(lines).toContain("item2.X-ABDATE:--1201");
+    expect(toVCard(contact, "3.0")).toContain("BDAY:2004-06-15\r\n");
+    expect(parseVCards(toVCard(contact, "4.0"))[0]).toMatchObject({
+      birthday: { day: 15, month: 5, year: 2004 },
+      dates: [{ label: "anniversary", day: 1, month: 11 }],
+    });
+  });
+
+  it("folds long lines", () => {
+    const folded = toVCard({ ...jean, note: "x".repeat(200) });
+    const lines = folded.split("\r\n");
+    expect(Math.max(...lines.map((line) => line.length))).toBeLessThanOrEqual(76);
+  });
+
+  it("folds by UTF-8 octets without splitting a character", () => {
+    const note = "é".repeat(75) + "😀".repeat(40);
+    const lines = toVCard({ ...jean, note }).split("\r\n");
+
+    lines.forEach((line) => {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toMatch(/[\ud800-\udbff](?![\udc00-\udfff])/);
+    });
+    expect(parseVCards(lines.join("\r\n"))[0].note).toBe(note);
+  });
+
+  it("keeps custom address labels out of the TYPE parameter", () => {
+    const card = toVCard({
+      ...jean,
+      addresses: [{ label: "site: north, gate 2", city: "Musanze" }],
+    });
+
+    expect(card).toContain(
+      "item2.ADR:;;;Musanze;;;\r\nitem2.X-ABLabel:site: north\\, gate 2"
+    );
+    expect(parseVCards(card)[0].addresses).toEqual([
+      expect.objectContaining({ label: "site: north, gate 2", city: "Musanze" }),
+    ]);
+  });
+});
+
+describe("parseVCards", () => {
+  it("round-trips a serialized contact", () => {
+    const [parsed] = parseVCards(toVCard(jean));
+    expect(parsed).toMatchObject({
+      id: jean.id,
+      name: jean.name,
+      firstName: "Jean",
+      middleName: "Claude",
+      lastName: "Uwimana",
+      namePrefix: "Dr.",
+      nickname: "JC",
+      company: "Acme; Ltd",
+      department: "Sales",
+      jobTitle: "Manager",
+      birthday: { day: 5, month: 0, year: 1990 },
+      note: jean.note,
+      phoneNumbers: [
+        { label: "mobile", number: "0788 123 456" },
+        { label: "mobile'", number: "+250788123456" },
+      ],
+      emails: [{ label: "work", email: "jc@example.com" }],
+    });
+  });
+
+  it("round-trips the fields only Apple's vCards carry", () => {
+    const contact: DeviceContact = {
+      ...jean,
+      maidenName: "Mukamana",
+      phoneticFirstName: "Jhan",
+      phoneticLastName: "Oo-wee-mah-nah",
+      instantMessageAddresses: [
+        { label: "work", service: "Skype", username: "jc.uwimana" },
+        { label: "chat", service: "Signal", username: "JC;88" },
+      ],
+      socialProfiles: [
+        { label: "other", service: "Twitter", username: "JCU", url: "https://x.com/JCU" },
+      ],
+      dates: [{ label: "anniversary", day: 15, month: 5, year: 2015 }],
+      relationships: [{ label: "spouse", name: "Aline" }],
+      urlAddresses: [{ label: "portfolio", url: "https://jc.rw" }],
+      image: { base64: "/9j/4AAQSkZJRgABAQ" + "A".repeat(120) },
+    };
+
+    for (const version of ["3.0", "4.0"] as const) {
+      const [parsed] = parseVCards(toVCard(contact, version));
+      expect(parsed).toMatchObject({
+        maidenName: "Mukamana",
+        phoneticFirstName: "Jhan",
+        phoneticLastName: "Oo-wee-mah-nah",
+        instantMessageAddresses: contact.instantMessageAddresses,
+        socialProfiles: contact.socialProfiles,
+        dates: contact.dates,
+        relationships: contact.relationships,
+        urlAddresses: contact.urlAddresses,
+        image: contact.image,
+      });
+    }
+  });
+
+  it("parses several cards from one file", () => {
+    const file = toVCardFile([jean, { ...jean, id: "2", name: "Other" }]);
+    expect(parseVCards(file).map((card) => card.id)).toEqual([jean.id, "2"]);
+  });
+
+  it("reads vCard 2.1 exports from old phones", () => {
+    const [parsed] = parseVCards(
+      [
+        "BEGIN:VCARD",
+        "VERSION:2.1",
+        "N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:Ir=C3=A9n=C3=A9e;Marie;;;",
+        "TEL;CELL;PREF:0788123456",
+        "TEL;HOME;FAX:0252123456",
+        "END:VCARD",
+      ].join("\n")
+    );
+    expect(parsed.name).toBe("Marie Irénée");
+    expect(parsed.phoneNumbers).toEqual([
+      { label: "mobile", number: "0788123456" },
+      { label: "home fax", number: "0252123456" },
+    ]);
+  });
+
+  it("unwraps Apple's built-in labels and tel: URIs", () => {
+    const [parsed] = parseVCards(
+      [
+        "BEGIN:VCARD",
+        "VERSION:4.0",
+        "FN:Aline",
+        "item1.TEL;VALUE=uri:tel:+250788123456",
+        "item1.X-ABLabel:_$!<Mobile>!$_",
+        "END:VCARD",
+      ].join("\r\n")
+    );
+    expect(parsed.phoneNumbers).toEqual([{ label: "Mobile", number: "+250788123456" }]);
+  });
+
+  it("ignores text outside of cards", () => {
+    expect(parseVCards("hello\nworld")).toEqual([]);
+  });
+});
+
+describe("splitVCards and replaceVCardPhones", () => {
+  const file = [
+    "BEGIN:VCARD",
+    "VERSION:4.0",
+    "FN:Jane",
+    "TEL;VALUE=uri;TYPE=cell;PREF=1:tel:0788123456",
+    "item1.TEL:0722123456",
+    "item1.X-ABLabel:Desk",
+    "NOTE:kept",
+    "END:VCARD",
+    "BEGIN:VCARD",
+    "VERSION:4.0",
+    "FN:Bob",
+    "END:VCARD",
+    "",
+  ].join("\n");
+
+  it("splits a file into its cards as written", () => {
+    const cards = splitVCards(file);
+    expect(cards).toHaveLength(2);
+    expect(cards[1]).toBe("BEGIN:VCARD\r\nVERSION:4.0\r\nFN:Bob\r\nEND:VCARD\r\n");
+  });
+
+  it("rewrites a number in place and drops a removed one with its label", () => {
+    const [card] = splitVCards(file);
+    const text = replaceVCardPhones(card, [{ label: "mobile", number: "+250788123456", entry: 0 }]);
+
+    expect(text.split("\r\n")).toEqual([
+      "BEGIN:VCARD",
+      "VERSION:4.0",
+      "FN:Jane",
+      "TEL;VALUE=uri;TYPE=cell;PREF=1:tel:+250788123456",
+      "NOTE:kept",
+      "END:VCARD",
+      "",
+    ]);
+  });
+
+  it("adds numbers to a card that had none", () => {
+    const [, card] = splitVCards(file);
+    const text = replaceVCardPhones(card, [{ label: "mobile", number: "+250788123456" }]);
+    expect(parseVCards(text)[0].phoneNumbers).toEqual([
+      { label: "mobile", number: "+250788123456" },
+    ]);
+    expect(text).toContain("TEL;TYPE=CELL:+250788123456\r\nEND:VCARD");
+  });
+});
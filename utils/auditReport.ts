@@ -0,0 +1,324 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Contacts from "expo-contacts";
+import * as Crypto from "expo-crypto";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import type { FixKind, PhoneNumber } from "@/types/contact";
+import type { JournalEntry } from "@/types/journal";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import {
+  ListOptions,
+  loadContactPages,
+  toListContact,
+} from "@/utils/contactLoader";
+import { toPhoneNumbers } from "@/utils/contactFields";
+import { toCsv } from "@/utils/csv";
+import { getNumberKey } from "@/utils/duplicates";
+import { IgnoreList, isContactIgnored, loadIgnoreList } from "@/utils/ignoreList";
+import { getDateKey, getPhoneNumbersNotIn, loadJournal } from "@/utils/journal";
+import { formatLabel } from "@/utils/labels";
+import { fromHex, hmacSha256, toHex } from "@/utils/hmac";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+
+export type AuditStatus = "fixed" | "undone" | "needsFix" | "ok" | "ignored";
+
+export type ReportFormat = "csv" | "json";
+
+// How numbers appear in the exported file
+export type ReportPrivacy = "full" | "mask" | "hash";
+
+const KEY_STORAGE_KEY = "reportKey";
+
+// Secret for hashed reports, generated once per device
+export interface ReportKey {
+  secret: Uint8Array;
+  // Names the key in a report without revealing it, so two reports can be
+  // told apart as comparable or not
+  id: string;
+}
+
+export const REPORT_FORMATS: { value: ReportFormat; title: string }[] = [
+  { value: "csv", title: "CSV" },
+  { value: "json", title: "JSON" },
+];
+
+export const REPORT_PRIVACY: { value: ReportPrivacy; title: string }[] = [
+  { value: "full", title: "Full numbers" },
+  { value: "mask", title: "Masked" },
+  { value: "hash", title: "Hashed" },
+];
+
+// One contact the fixer examined, and what it did to it
+export interface AuditRow {
+  contactId: string;
+  name: string;
+  status: AuditStatus;
+  // The numbers before the first fix that is still applied, or the current
+  // numbers when nothing was changed
+  originalNumbers: PhoneNumber[];
+  addedNumbers: PhoneNumber[];
+  removedNumbers: PhoneNumber[];
+  // Time of the latest change still applied
+  changedAt?: number;
+  // Auto-fix rules that made those changes
+  rules: string[];
+}
+
+const byName = (a: AuditRow, b: AuditRow) =>
+  a.name.localeCompare(b.name) || a.contactId.localeCompare(b.contactId);
+
+// What the journal says about one contact: its earliest numbers, what the
+// active fixes added and removed, or that every fix was undone
+const getJournalRow = (entries: JournalEntry[]): AuditRow => {
+  const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  const active = sorted.filter((entry) => entry.undoneAt === undefined);
+  const last = sorted[sorted.length - 1];
+  const row = { contactId: last.contactId, name: last.contactName };
+
+  if (active.length === 0) {
+    return {
+      ...row,
+      status: "undone",
+      originalNumbers: sorted[0].before,
+      addedNumbers: [],
+      removedNumbers: [],
+      rules: [],
+    };
+  }
+
+  const before = active[0].before;
+  const after = active[active.length - 1].after;
+  const rules = active.flatMap((entry) => (entry.rule ? [entry.rule.description] : []));
+  return {
+    ...row,
+    status: "fixed",
+    originalNumbers: before,
+    addedNumbers: getPhoneNumbersNotIn(after, before),
+    removedNumbers: getPhoneNumbersNotIn(before, after),
+    changedAt: active[active.length - 1].timestamp,
+    rules: [...new Set(rules)],
+  };
+};
+
+/**
+ * One row per contact the fixer examined: every contact it lists or was told
+ * to ignore, plus every contact it has changed, even if since deleted.
+ * Changes recorded in the journal take precedence over the current scan.
+ */
+export const buildAuditRows = (
+  contacts: Contacts.Contact[],
+  journal: JournalEntry[],
+  kind: FixKind,
+  plans: NumberingPlan[],
+  ignoreList: IgnoreList,
+  options: ListOptions = {}
+): AuditRow[] => {
+  const byContact = new Map<string, JournalEntry[]>();
+  journal.forEach((entry) =>
+    byContact.set(entry.contactId, [...(byContact.get(entry.contactId) ?? []), entry])
+  );
+  const rows = new Map(
+    [...byContact.values()].map((entries) => {
+      const row = getJournalRow(entries);
+      return [row.contactId, row];
+    })
+  );
+
+  contacts.forEach((contact) => {
+    if (!contact.id) return;
+    const journalRow = rows.get(contact.id);
+    if (journalRow?.status === "fixed") return;
+
+    const ignored = isContactIgnored(ignoreList, contact.id);
+    const listed = ignored ? null : toListContact(contact, kind, plans, ignoreList, options);
+    if (!ignored && !listed) {
+      // Not something the fixer handles, unless it was changed before
+      return;
+    }
+    rows.set(contact.id, {
+      contactId: contact.id,
+      name: listed?.name ?? journalRow?.name ?? contact.name ?? "",
+      // An undone contact keeps that status: the scan adds nothing to it
+      status: journalRow?.status ?? (ignored ? "ignored" : listed!.needsFix ? "needsFix" : "ok"),
+      originalNumbers: toPhoneNumbers(contact).map(({ label, number }) => ({
+        label: formatLabel(label),
+        number,
+      })),
+      addedNumbers: [],
+      removedNumbers: [],
+      rules: [],
+    });
+  });
+
+  return [...rows.values()].sort(byName);
+};
+
+/**
+ * Loads this device's report key, generating and saving it on first use.
+ */
+export const loadReportKey = async (): Promise<ReportKey> => {
+  let stored = await AsyncStorage.getItem(KEY_STORAGE_KEY);
+  if (!stored) {
+    stored = toHex(Crypto.getRandomBytes(32));
+    await AsyncStorage.setItem(KEY_STORAGE_KEY, stored);
+  }
+  const secret = fromHex(stored);
+  return { secret, id: (await hmacSha256(secret, "key id")).slice(0, 8) };
+};
+
+/**
+ * Hides a number for a shared report. Masking keeps the last three digits.
+ * Hashing takes an HMAC of the international form, so "0788 123 456" and
+ * "+250788123456" match across reports made with the same key; without the
+ * key, hashing every possible number does not reveal which one it was.
+ */
+export const protectNumber = async (
+  number: string,
+  privacy: ReportPrivacy,
+  plans: NumberingPlan[] = getDefaultPlans(),
+  key?: ReportKey
+) => {
+  switch (privacy) {
+    case "full":
+      return number;
+    case "mask":
+      return number.replace(/\d(?=(?:\D*\d){3})/g, "•");
+    case "hash":
+      if (!key) throw new Error("Hashing numbers needs a report key");
+      return hmacSha256(key.secret, getNumberKey(number, plans));
+  }
+};
+
+/**
+ * Replaces every number of the rows as `privacy` asks, before they are
+ * written out.
+ */
+export const protectRows = async (
+  rows: AuditRow[],
+  privacy: ReportPrivacy,
+  plans: NumberingPlan[] = getDefaultPlans(),
+  key?: ReportKey
+): Promise<AuditRow[]> => {
+  const protect = (phones: PhoneNumber[]) =>
+    Promise.all(
+      phones.map(async ({ label, number }) => ({
+        label,
+        number: await protectNumber(number, privacy, plans, key),
+      }))
+    );
+  return Promise.all(
+    rows.map(async (row) => ({
+      ...row,
+      originalNumbers: await protect(row.originalNumbers),
+      addedNumbers: await protect(row.addedNumbers),
+      removedNumbers: await protect(row.removedNumbers),
+    }))
+  );
+};
+
+// Keeps spreadsheets from reading a name such as "=SUM(A1)" as a formula.
+// Numbers starting with "+" are left as they are.
+const defuseFormula = (value: string) =>
+  /^[=@\t\r]|^[+-](?!\d)/.test(value) ? `'${value}` : value;
+
+const CSV_COLUMNS = [
+  "contact_id",
+  "name",
+  "status",
+  "original_numbers",
+  "added_numbers",
+  "added_labels",
+  "removed_numbers",
+  "changed_at",
+  "rules",
+];
+
+const joinNumbers = (phones: PhoneNumber[]) =>
+  phones.map((phone) => `${phone.label}: ${phone.number}`).join("; ");
+
+// Rows are written as given: protect their numbers first
+export const toAuditCsv = (rows: AuditRow[]) => {
+  const lines = rows.map((row) =>
+    [
+      row.contactId,
+      row.name,
+      row.status,
+      joinNumbers(row.originalNumbers),
+      joinNumbers(row.addedNumbers),
+      row.addedNumbers.map((phone) => phone.label).join("; "),
+      joinNumbers(row.removedNumbers),
+      row.changedAt !== undefined ? new Date(row.changedAt).toISOString() : "",
+      row.rules.join("; "),
+    ].map(defuseFormula)
+  );
+  return toCsv([CSV_COLUMNS, ...lines]);
+};
+
+// Hashed reports name the algorithm and key, so a reader knows which
+// reports can be compared
+export const toAuditJson = (
+  rows: AuditRow[],
+  privacy: ReportPrivacy,
+  generatedAt = Date.now(),
+  key?: ReportKey
+) =>
+  JSON.stringify(
+    {
+      generatedAt: new Date(generatedAt).toISOString(),
+      privacy,
+      ...(privacy === "hash" && key && { hash: { algorithm: "HMAC-SHA256", keyId: key.id } }),
+      contacts: rows.map((row) => ({
+        ...row,
+        ...(row.changedAt !== undefined && {
+          changedAt: new Date(row.changedAt).toISOString(),
+        }),
+      })),
+    },
+    null,
+    2
+  );
+
+/**
+ * Scans the address book and reads the journal and ignore list to build the
+ * report rows.
+ */
+export const getAuditRows = async (
+  kind: FixKind,
+  plans: NumberingPlan[],
+  options: ListOptions = {}
+) => {
+  const contacts: Contacts.Contact[] = [];
+  await loadContactPages((page) => contacts.push(...page.contacts));
+  const [journal, ignoreList] = await Promise.all([loadJournal(), loadIgnoreList()]);
+  return buildAuditRows(contacts, journal, kind, plans, ignoreList, options);
+};
+
+/**
+ * Writes the report to a file and opens the share sheet for it.
+ */
+export const shareAuditReport = async (
+  rows: AuditRow[],
+  format: ReportFormat,
+  privacy: ReportPrivacy,
+  plans: NumberingPlan[]
+) => {
+  const key = privacy === "hash" ? await loadReportKey() : undefined;
+  const protectedRows = await protectRows(rows, privacy, plans, key);
+  const uri = `${FileSystem.cacheDirectory}audit-report-${getDateKey(Date.now())}.${format}`;
+  await FileSystem.writeAsStringAsync(
+    uri,
+    format === "csv"
+      ? toAuditCsv(protectedRows)
+      : toAuditJson(protectedRows, privacy, Date.now(), key)
+  );
+  await Sharing.shareAsync(
+    uri,
+    format === "csv"
+      ? {
+          mimeType: "text/csv",
+          UTI: "public.comma-separated-values-text",
+          dialogTitle: "Share audit report",
+        }
+      : { mimeType: "application/json", UTI: "public.json", dialogTitle: "Share audit report" }
+  );
+};
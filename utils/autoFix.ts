@@ -0,0 +1,143 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Contacts from "expo-contacts";
+import { Platform } from "react-native";
+import type { AutoFixRule } from "@/types/autoFix";
+import type { Contact, ContactFixPlan } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { planFixes } from "@/utils/fixPlanner";
+import { DEFAULT_LABEL_OPTIONS, LabelOptions } from "@/utils/labels";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+import { getLineLabel, isAmbiguousNumber } from "@/utils/phoneNumbers";
+
+const STORAGE_KEY = "autoFixRules";
+
+// Ids of the members of each contact group, by group name
+export type GroupMembers = Map<string, Set<string>>;
+
+export interface AutoFix {
+  plan: ContactFixPlan;
+  // The rule the change is credited to in the journal
+  rule: AutoFixRule;
+}
+
+export const loadRules = async (): Promise<AutoFixRule[]> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+export const saveRules = (rules: AutoFixRule[]) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+
+export const describeRule = ({ action, condition }: AutoFixRule) => {
+  const verb = action === "autoFix" ? "Auto-fix" : "Never auto-fix";
+  switch (condition.type) {
+    case "everyone":
+      return `${verb} every contact`;
+    case "label":
+      return `${verb} contacts with a number labelled "${condition.value}"`;
+    case "operator":
+      return `${verb} contacts with a ${condition.value} number`;
+    case "group":
+      return `${verb} contacts in the ${condition.value} group`;
+  }
+};
+
+export const matchesRule = (
+  contact: Contact,
+  { condition }: AutoFixRule,
+  groups: GroupMembers = new Map()
+) => {
+  switch (condition.type) {
+    case "everyone":
+      return true;
+    case "label":
+      return contact.phoneNumbers.some(
+        (phone) => phone.label.toLowerCase() === condition.value.toLowerCase()
+      );
+    case "operator":
+      return contact.phoneNumbers.some(
+        (phone) => phone.line !== undefined && getLineLabel(phone.line) === condition.value
+      );
+    case "group":
+      return groups.get(condition.value)?.has(contact.id) ?? false;
+  }
+};
+
+/**
+ * The enabled rule that lets the fixer change a contact on its own, or null
+ * when none does or a "never" rule protects the contact.
+ */
+export const findAutoFixRule = (
+  contact: Contact,
+  rules: AutoFixRule[],
+  groups: GroupMembers = new Map()
+): AutoFixRule | null => {
+  const matching = rules.filter((rule) => rule.enabled && matchesRule(contact, rule, groups));
+  if (matching.some((rule) => rule.action === "never")) return null;
+  return matching.find((rule) => rule.action === "autoFix") ?? null;
+};
+
+/**
+ * Plans the fixes the rules allow. Automatic fixes only ever add missing
+ * forms; removing duplicates always goes through the preview.
+ */
+export const planAutoFixes = (
+  contacts: Contact[],
+  rules: AutoFixRule[],
+  groups: GroupMembers = new Map(),
+  plans: NumberingPlan[] = getDefaultPlans(),
+  labelOptions: LabelOptions = DEFAULT_LABEL_OPTIONS
+): AutoFix[] => {
+  if (!rules.some((rule) => rule.enabled && rule.action === "autoFix")) return [];
+
+  const ruleById = new Map<string, AutoFixRule>();
+  const allowed = contacts.filter((contact) => {
+    const rule = findAutoFixRule(contact, rules, groups);
+    if (rule) ruleById.set(contact.id, rule);
+    return rule !== null;
+  });
+
+  // A local number that fits several active plans could belong to either
+  // country, so its other form is left for the user to review
+  return planFixes(allowed, plans, labelOptions, "missingForms").flatMap((plan) => {
+    const additions = plan.additions.filter(
+      (addition) => !isAmbiguousNumber(addition.source.number, plans)
+    );
+    return additions.length > 0
+      ? [{ plan: { ...plan, additions }, rule: ruleById.get(plan.contact.id)! }]
+      : [];
+  });
+};
+
+// Contact groups only exist on iOS
+export const getGroupNames = async () => {
+  if (Platform.OS !== "ios") return [];
+  const groups = await Contacts.getGroupsAsync({});
+  return groups.flatMap((group) => (group.name ? [group.name] : [])).sort();
+};
+
+/**
+ * Reads the members of the groups the enabled rules refer to.
+ */
+export const loadGroupMembers = async (rules: AutoFixRule[]): Promise<GroupMembers> => {
+  const members: GroupMembers = new Map();
+  const names = new Set(
+    rules.flatMap(({ enabled, condition }) =>
+      enabled && condition.type === "group" ? [condition.value] : []
+    )
+  );
+  if (names.size === 0 || Platform.OS !== "ios") return members;
+
+  const groups = await Contacts.getGroupsAsync({});
+  for (const group of groups) {
+    if (!group.id || !group.name || !names.has(group.name)) continue;
+    const { data } = await Contacts.getContactsAsync({
+      groupId: group.id,
+      fields: [Contacts.Fields.ID],
+    });
+    const ids = members.get(group.name) ?? new Set<string>();
+    data.forEach((contact) => contact.id && ids.add(contact.id));
+    members.set(group.name, ids);
+  }
+  return members;
+};
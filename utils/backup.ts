@@ -0,0 +1,139 @@
+import * as Contacts from "expo-contacts";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import type { FixKind } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { ListOptions, toListContact } from "@/utils/contactLoader";
+import { getDateKey } from "@/utils/journal";
+import { parseVCards, toVCardFile, VCardVersion } from "@/utils/vcard";
+
+export type BackupScope = "needsFix" | "all";
+
+export interface RestoreResult {
+  updated: number;
+  created: number;
+  failed: number;
+}
+
+export const VCARD_MIME_TYPES = ["text/vcard", "text/x-vcard", "text/directory"];
+
+// expo-contacts hands photos over as files; the backup embeds their data so
+// the .vcf stands on its own. A photo that cannot be read is left out.
+const withPhotoData = async (contact: Contacts.Contact): Promise<Contacts.Contact> => {
+  const uri = contact.rawImage?.uri ?? contact.image?.uri;
+  if (!uri) return contact;
+  try {
+    const base64 = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return { ...contact, image: { ...contact.image, base64 } };
+  } catch (error) {
+    console.error("Error reading contact photo:", contact.name, error);
+    return contact;
+  }
+};
+
+// The reverse for a restore: the address book only takes photos as files
+const withPhotoFile = async (
+  card: Contacts.Contact,
+  index: number
+): Promise<Contacts.Contact> => {
+  if (!card.image?.base64 || card.image.uri) return card;
+  const uri = `${FileSystem.cacheDirectory}restored-photo-${index}`;
+  await FileSystem.writeAsStringAsync(uri, card.image.base64, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return { ...card, image: { uri } };
+};
+
+/**
+ * Reads every field of the contacts to back up, photos included: either the
+ * ones the fixer would modify in the given mode, as the contact list marks
+ * them, or the whole address book. Ignored numbers are still counted, so a
+ * contact is backed up before anything un-ignored in it is fixed.
+ */
+export const getBackupContacts = async (
+  scope: BackupScope,
+  kind: FixKind,
+  plans: NumberingPlan[],
+  options: ListOptions = {}
+): Promise<Contacts.Contact[]> => {
+  // Without `fields`, expo-contacts returns every field it supports
+  const { data } = await Contacts.getContactsAsync();
+  const contacts =
+    scope === "all"
+      ? data
+      : data.filter(
+          (contact) => toListContact(contact, kind, plans, undefined, options)?.needsFix
+        );
+  // One photo at a time, so a large address book does not open thousands of
+  // files at once
+  const withPhotos: Contacts.Contact[] = [];
+  for (const contact of contacts) withPhotos.push(await withPhotoData(contact));
+  return withPhotos;
+};
+
+/**
+ * Writes the contacts to a .vcf file and opens the share sheet for it.
+ */
+export const shareBackup = async (
+  contacts: Contacts.Contact[],
+  version: VCardVersion
+) => {
+  const uri = `${FileSystem.cacheDirectory}contacts-backup-${getDateKey(Date.now())}.vcf`;
+  await FileSystem.writeAsStringAsync(uri, toVCardFile(contacts, version));
+  await Sharing.shareAsync(uri, {
+    mimeType: "text/vcard",
+    UTI: "public.vcard",
+    dialogTitle: "Save contacts backup",
+  });
+};
+
+/**
+ * Lets the user pick a vCard file and parses it. Resolves to null if the
+ * picker was cancelled.
+ */
+export const pickBackup = async (): Promise<Contacts.Contact[] | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: [...VCARD_MIME_TYPES, "public.vcard"],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const text = await FileSystem.readAsStringAsync(result.assets[0].uri);
+  return parseVCards(text);
+};
+
+/**
+ * Writes backed-up cards back to the address book. Cards whose UID matches
+ * an existing contact overwrite it; the others are added as new contacts.
+ */
+export const restoreBackup = async (
+  cards: Contacts.Contact[]
+): Promise<RestoreResult> => {
+  const result: RestoreResult = { updated: 0, created: 0, failed: 0 };
+
+  for (const [index, backedUp] of cards.entries()) {
+    try {
+      const card = await withPhotoFile(backedUp, index);
+      const existing = card.id
+        ? await Contacts.getContactByIdAsync(card.id, [Contacts.Fields.ID])
+        : undefined;
+
+      if (existing) {
+        await Contacts.updateContactAsync({ ...card, id: existing.id });
+        result.updated += 1;
+      } else {
+        const { id: _id, ...fields } = card;
+        await Contacts.addContactAsync(fields);
+        result.created += 1;
+      }
+    } catch (error) {
+      console.error("Error restoring contact:", backedUp.name, error);
+      result.failed += 1;
+    }
+  }
+
+  return result;
+};
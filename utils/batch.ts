@@ -0,0 +1,62 @@
+export type BatchOutcome<T> =
+  | { item: T; ok: true }
+  | { item: T; ok: false; error: string };
+
+export interface BatchOptions {
+  // Maximum number of workers running at the same time
+  concurrency?: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export const describeError = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Returns an `enqueue` that runs each task after the previous one settles,
+ * for stores updated read-modify-write. A failed task rejects its own
+ * promise without blocking the tasks behind it.
+ */
+export const createQueue = () => {
+  let queue: Promise<unknown> = Promise.resolve();
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+};
+
+/**
+ * Runs `worker` over every item with at most `concurrency` in flight. A
+ * failing item does not stop the others; each outcome is reported in the
+ * same order as the items.
+ */
+export const runBatch = async <T>(
+  items: T[],
+  worker: (item: T) => Promise<unknown>,
+  { concurrency = 4, onProgress }: BatchOptions = {}
+): Promise<BatchOutcome<T>[]> => {
+  const outcomes: BatchOutcome<T>[] = new Array(items.length);
+  let next = 0;
+  let completed = 0;
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      try {
+        await worker(item);
+        outcomes[index] = { item, ok: true };
+      } catch (error) {
+        outcomes[index] = { item, ok: false, error: describeError(error) };
+      }
+      completed += 1;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runWorker)
+  );
+
+  return outcomes;
+};
@@ -0,0 +1,91 @@
+import type { Contact as DeviceContact } from "expo-contacts";
+import type { PhoneNumber } from "@/types/contact";
+import { cleanNumber } from "@/utils/phoneNumbers";
+
+// Everything a phone-number fix must leave exactly as it was
+export const PRESERVED_FIELDS = [
+  "contactType",
+  "firstName",
+  "middleName",
+  "lastName",
+  "maidenName",
+  "namePrefix",
+  "nameSuffix",
+  "nickname",
+  "phoneticFirstName",
+  "phoneticMiddleName",
+  "phoneticLastName",
+  "company",
+  "jobTitle",
+  "department",
+  "note",
+  "birthday",
+  "nonGregorianBirthday",
+  "dates",
+  "relationships",
+  "emails",
+  "addresses",
+  "instantMessageAddresses",
+  "urlAddresses",
+  "socialProfiles",
+] as const satisfies readonly (keyof DeviceContact)[];
+
+// JSON with sorted object keys, so equal values always serialize the same way
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// An empty list and a missing one mean the same thing to the address book
+const normalizeField = (value: unknown) =>
+  Array.isArray(value) && value.length === 0 ? undefined : value;
+
+// The phone entries of a device contact that hold a number
+export const toPhoneNumbers = (contact: DeviceContact): PhoneNumber[] =>
+  (contact.phoneNumbers ?? [])
+    .filter((phone) => phone.number != null)
+    .map((phone) => ({ label: phone.label, number: phone.number!, id: phone.id }));
+
+/**
+ * Names the preserved fields whose values differ between two versions of a
+ * contact.
+ */
+export const diffContactFields = (
+  before: DeviceContact,
+  after: DeviceContact
+): string[] =>
+  PRESERVED_FIELDS.filter(
+    (field) =>
+      stableStringify(normalizeField(before[field])) !==
+      stableStringify(normalizeField(after[field]))
+  );
+
+/**
+ * Phone entries of `before` missing from `after`, leaving out the ones whose
+ * ids were deliberately removed. expo-contacts on iOS re-creates every phone
+ * entry on save, so an entry whose id changed still counts as kept when its
+ * number is there.
+ */
+export const getLostPhoneNumbers = (
+  before: DeviceContact,
+  after: DeviceContact,
+  removedIds: string[] = []
+) => {
+  const afterPhones = after.phoneNumbers ?? [];
+  const ids = new Set(afterPhones.map((phone) => phone.id));
+  const numbers = new Set(afterPhones.map((phone) => cleanNumber(phone.number ?? "")));
+
+  return (before.phoneNumbers ?? []).filter(
+    (phone) =>
+      !(phone.id && removedIds.includes(phone.id)) &&
+      !(phone.id && ids.has(phone.id)) &&
+      !numbers.has(cleanNumber(phone.number ?? ""))
+  );
+};
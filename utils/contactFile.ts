@@ -0,0 +1,208 @@
+import type { Contact as DeviceContact } from "expo-contacts";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import type { Contact, ContactFixPlan, FilePhoneNumber, FixKind } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { VCARD_MIME_TYPES } from "@/utils/backup";
+import { toPhoneNumbers } from "@/utils/contactFields";
+import { ListOptions, toListContact } from "@/utils/contactLoader";
+import { parseContactsCsv, toContactsCsv, updateContactsCsv } from "@/utils/contactsCsv";
+import { applyPlannedChanges } from "@/utils/contactWriter";
+import { getPlannedChanges } from "@/utils/fixPlanner";
+import { EMPTY_IGNORE_LIST } from "@/utils/ignoreList";
+import { parseVCards, replaceVCardPhones, splitVCards, toVCardFile } from "@/utils/vcard";
+
+export type ContactFileFormat = "vcf" | "csv";
+
+export const CONTACT_FILE_FORMATS: { value: ContactFileFormat; title: string }[] = [
+  { value: "vcf", title: "vCard" },
+  { value: "csv", title: "CSV" },
+];
+
+// Android reports CSV files under several types, some as plain text
+const CSV_MIME_TYPES = ["text/csv", "text/comma-separated-values", "text/plain"];
+
+// A contacts file opened for fixing. Nothing in it is ever written to the
+// address book.
+export interface ContactFile {
+  // Name of the picked file, e.g. "crm-export.csv"
+  name: string;
+  format: ContactFileFormat;
+  contacts: DeviceContact[];
+  // Ids given to records that had none, left out again on export
+  generatedIds: string[];
+  // The file as read, so an export in the same format changes nothing but
+  // the phone numbers
+  text: string;
+}
+
+const detectFormat = (name: string, text: string): ContactFileFormat =>
+  /\.(vcf|vcard)$/i.test(name) || /^\s*BEGIN:VCARD/i.test(text) ? "vcf" : "csv";
+
+/**
+ * Parses a vCard or CSV file into contacts the fixer can plan against.
+ * Fixes are matched back to records by id, so every record gets a unique
+ * one, keeping vCard UIDs, and every phone entry gets one so a removal or
+ * rewrite touches exactly the entry it was planned for.
+ */
+export const parseContactFile = (name: string, text: string): ContactFile => {
+  const format = detectFormat(name, text);
+  const parsed = format === "vcf" ? parseVCards(text) : parseContactsCsv(text);
+
+  const uids = parsed.map((contact) => contact.id).filter(Boolean);
+  const generatedIds: string[] = [];
+  const contacts = parsed.map((contact, index) => {
+    let id = contact.id;
+    if (!id || uids.indexOf(id) !== uids.lastIndexOf(id)) {
+      id = `file-${index + 1}`;
+      generatedIds.push(id);
+    }
+    return {
+      ...contact,
+      id,
+      phoneNumbers: contact.phoneNumbers?.map((phone, entry) => ({
+        ...phone,
+        id: `${id}:${entry}`,
+      })),
+    };
+  });
+
+  return { name, format, contacts, generatedIds, text };
+};
+
+/**
+ * Lets the user pick a .vcf or .csv file and parses it. Resolves to null if
+ * the picker was cancelled.
+ */
+export const pickContactFile = async (): Promise<ContactFile | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: [...VCARD_MIME_TYPES, "public.vcard", ...CSV_MIME_TYPES],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const [asset] = result.assets;
+  const text = await FileSystem.readAsStringAsync(asset.uri);
+  return parseContactFile(asset.name, text);
+};
+
+/**
+ * Lists the records of a file the way the contact list shows device
+ * contacts. Files often carry a full name only, which the list would
+ * otherwise skip as nameless.
+ */
+export const scanContactFile = (
+  contacts: DeviceContact[],
+  kind: FixKind,
+  plans: NumberingPlan[],
+  options: ListOptions = {}
+): Contact[] =>
+  contacts.flatMap((contact) => {
+    const named =
+      contact.firstName || contact.lastName ? contact : { ...contact, firstName: contact.name };
+    const listed = toListContact(named, kind, plans, EMPTY_IGNORE_LIST, options);
+    return listed ? [listed] : [];
+  });
+
+/**
+ * Applies fix plans to the records of a file in memory, the same way the
+ * fixer writes them to device contacts, leaving out the changes whose key
+ * is in `excluded`. Returns the updated records and how many changed.
+ */
+export const fixContactFile = (
+  contacts: DeviceContact[],
+  fixPlans: ContactFixPlan[],
+  excluded: ReadonlySet<string> = new Set()
+) => {
+  const byId = new Map(fixPlans.map((plan) => [plan.contact.id, plan]));
+  let fixed = 0;
+  const updated = contacts.map((contact) => {
+    const plan = contact.id ? byId.get(contact.id) : undefined;
+    const result =
+      plan && applyPlannedChanges(toPhoneNumbers(contact), getPlannedChanges(plan, excluded));
+    if (!result) return contact;
+
+    fixed += 1;
+    return {
+      ...contact,
+      phoneNumbers: result.after.map(({ label, number, id }) => ({ label, number, id })),
+    };
+  });
+  return { contacts: updated, fixed };
+};
+
+// The numbers of a record, each pointing back at the entry it was read from
+const toFilePhoneNumbers = (contact: DeviceContact): FilePhoneNumber[] => {
+  const prefix = `${contact.id}:`;
+  return (contact.phoneNumbers ?? []).flatMap((phone) =>
+    phone.number
+      ? [
+          {
+            label: phone.label ?? "other",
+            number: phone.number,
+            entry: phone.id?.startsWith(prefix) ? Number(phone.id.slice(prefix.length)) : undefined,
+          },
+        ]
+      : []
+  );
+};
+
+/**
+ * Serializes the fixed records of a file. In the file's own format, only the
+ * phone numbers are rewritten and everything else is kept as written, down
+ * to fields and columns the parser does not read. Converting to the other
+ * format writes only what was read, without the ids given when the file was
+ * opened.
+ */
+export const toContactFile = (
+  file: ContactFile,
+  contacts: DeviceContact[],
+  format: ContactFileFormat = file.format
+) => {
+  // Records left alone by every fix are the same objects as when read
+  const changed = (index: number) => contacts[index] !== file.contacts[index];
+  if (format === file.format && format === "vcf") {
+    return splitVCards(file.text)
+      .map((card, index) =>
+        changed(index) ? replaceVCardPhones(card, toFilePhoneNumbers(contacts[index])) : card
+      )
+      .join("");
+  }
+  if (format === file.format) {
+    return updateContactsCsv(
+      file.text,
+      contacts.map((contact, index) => (changed(index) ? toFilePhoneNumbers(contact) : null))
+    );
+  }
+
+  const generated = new Set(file.generatedIds);
+  const exported = contacts.map((contact) =>
+    contact.id && generated.has(contact.id) ? { ...contact, id: undefined } : contact
+  );
+  return format === "vcf" ? toVCardFile(exported) : toContactsCsv(exported);
+};
+
+/**
+ * Writes the fixed records to "<name>-fixed.vcf" or ".csv" and opens the
+ * share sheet for it.
+ */
+export const shareContactFile = async (
+  file: ContactFile,
+  contacts: DeviceContact[],
+  format: ContactFileFormat
+) => {
+  const baseName = file.name.replace(/\.[^.]*$/, "").replace(/[^\w.-]+/g, "-") || "contacts";
+  const uri = `${FileSystem.cacheDirectory}${baseName}-fixed.${format}`;
+  await FileSystem.writeAsStringAsync(uri, toContactFile(file, contacts, format));
+  await Sharing.shareAsync(
+    uri,
+    format === "vcf"
+      ? { mimeType: "text/vcard", UTI: "public.vcard", dialogTitle: "Save fixed contacts" }
+      : {
+          mimeType: "text/csv",
+          UTI: "public.comma-separated-values-text",
+          dialogTitle: "Save fixed contacts",
+        }
+  );
+};
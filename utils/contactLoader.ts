@@ -0,0 +1,184 @@
+import * as Contacts from "expo-contacts";
+import type { CanonicalFormat, Contact, ContactIssues, FixKind } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import {
+  EMPTY_IGNORE_LIST,
+  IgnoreList,
+  isContactIgnored,
+  isNumberIgnored,
+} from "@/utils/ignoreList";
+import { formatLabel, LabelCase } from "@/utils/labels";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+import {
+  classifyLine,
+  contactHasDuplicates,
+  contactNeedsCanonicalizing,
+  contactNeedsFix,
+} from "@/utils/phoneNumbers";
+import { findNumberIssues } from "@/utils/validation";
+
+// Small enough for the first rows to show up at once, large enough that a
+// 10k address book takes only a few round trips to the native side
+export const CONTACT_PAGE_SIZE = 500;
+
+// What the contact list needs; everything else is read only when writing
+export const LIST_FIELDS = [
+  Contacts.Fields.FirstName,
+  Contacts.Fields.LastName,
+  Contacts.Fields.PhoneNumbers,
+  Contacts.Fields.ID,
+];
+
+export interface ContactPage {
+  contacts: Contacts.Contact[];
+  // Contacts read so far, this page included
+  loaded: number;
+}
+
+// Preferences that change how contacts are listed and checked
+export interface ListOptions {
+  labelCase?: LabelCase;
+  // The format the "canonicalize" mode checks numbers against
+  canonicalFormat?: CanonicalFormat;
+}
+
+export interface LoadOptions {
+  pageSize?: number;
+  fields?: Contacts.FieldType[];
+  // Checked after every page; a newer load makes the older one stop quietly
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Reads the address book one page at a time, handing each page over as soon
+ * as it arrives. Resolves to false when the load was cancelled.
+ */
+export const loadContactPages = async (
+  onPage: (page: ContactPage) => void,
+  { pageSize = CONTACT_PAGE_SIZE, fields = LIST_FIELDS, isCancelled }: LoadOptions = {}
+) => {
+  let pageOffset = 0;
+  for (;;) {
+    const { data, hasNextPage } = await Contacts.getContactsAsync({
+      fields,
+      pageSize,
+      pageOffset,
+    });
+    if (isCancelled?.()) return false;
+
+    pageOffset += data.length;
+    onPage({ contacts: data, loaded: pageOffset });
+    if (!hasNextPage || data.length === 0) return true;
+  }
+};
+
+/**
+ * Re-reads a few contacts after they were changed, so the list can be
+ * updated without loading the whole address book again. Deleted contacts
+ * map to null.
+ */
+export const readContacts = async (contactIds: string[], fields = LIST_FIELDS) => {
+  const contacts = await Promise.all(
+    contactIds.map((contactId) => Contacts.getContactByIdAsync(contactId, fields))
+  );
+  return new Map(contactIds.map((contactId, index) => [contactId, contacts[index] ?? null]));
+};
+
+const getDisplayName = (contact: Contacts.Contact) =>
+  `${contact.firstName || ""} ${contact.lastName || ""}`.trim();
+
+/**
+ * Turns a device contact into a list row, or null when it has nothing the
+ * fixer handles: no name, only short codes and foreign numbers, or nothing
+ * the ignore list leaves to check.
+ */
+export const toListContact = (
+  contact: Contacts.Contact,
+  kind: FixKind,
+  plans: NumberingPlan[] = getDefaultPlans(),
+  ignoreList: IgnoreList = EMPTY_IGNORE_LIST,
+  { labelCase = "lowercase", canonicalFormat = "e164" }: ListOptions = {}
+): Contact | null => {
+  const name = getDisplayName(contact);
+  if (!contact.id || !name || isContactIgnored(ignoreList, contact.id)) return null;
+  const contactId = contact.id;
+
+  // Supported numbers and short codes, tagged with their operator
+  const lines = (contact.phoneNumbers || []).flatMap((phone) => {
+    const line = phone.number != null ? classifyLine(phone.number, plans) : null;
+    return line
+      ? [
+          {
+            label: formatLabel(phone.label, labelCase),
+            number: phone.number!,
+            id: phone.id,
+            line,
+          },
+        ]
+      : [];
+  });
+  const phoneNumbers = lines.filter(
+    (phone) => !isNumberIgnored(ignoreList, contactId, phone.number, plans)
+  );
+  if (phoneNumbers.every((phone) => phone.line.lineType === "shortCode")) return null;
+
+  // A contact needs fixing if any supported number is missing one of its
+  // forms, is saved more than once when merging duplicates, or is not
+  // stored once in the canonical format
+  const needsFix =
+    kind === "duplicates"
+      ? contactHasDuplicates(phoneNumbers, plans)
+      : kind === "canonicalize"
+        ? contactNeedsCanonicalizing(phoneNumbers, canonicalFormat, plans)
+        : contactNeedsFix(phoneNumbers, plans);
+  const ignoredNumbers = lines.filter((phone) => !phoneNumbers.includes(phone));
+  return {
+    id: contactId,
+    name,
+    phoneNumbers,
+    needsFix,
+    ...(ignoredNumbers.length > 0 && { ignoredNumbers }),
+  };
+};
+
+/**
+ * The broken numbers of a device contact, or null when it has none.
+ */
+export const toContactIssues = (
+  contact: Contacts.Contact,
+  plans: NumberingPlan[] = getDefaultPlans()
+): ContactIssues | null => {
+  if (!contact.id) return null;
+  const issues = findNumberIssues(
+    (contact.phoneNumbers || [])
+      .filter((phone) => phone.number != null)
+      .map((phone) => ({ label: formatLabel(phone.label), number: phone.number!, id: phone.id })),
+    plans
+  );
+  return issues.length > 0
+    ? { contactId: contact.id, contactName: getDisplayName(contact) || "No name", issues }
+    : null;
+};
+
+/**
+ * Swaps updated rows into a list, keeping its order. Ids mapped to null are
+ * dropped; rows for ids that were not listed yet are appended.
+ */
+export const replaceById = <T>(
+  items: T[],
+  updates: Map<string, T | null>,
+  getId: (item: T) => string
+): T[] => {
+  const pending = new Map(updates);
+  const result = items.flatMap((item) => {
+    const id = getId(item);
+    if (!pending.has(id)) return [item];
+    const updated = pending.get(id)!;
+    pending.delete(id);
+    return updated ? [updated] : [];
+  });
+  pending.forEach((item) => {
+    if (item) result.push(item);
+  });
+  return result;
+};
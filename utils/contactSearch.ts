@@ -0,0 +1,241 @@
+import type { Contact } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { normalizeName } from "@/utils/duplicates";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+import {
+  cleanNumber,
+  getLineLabel,
+  getMissingForms,
+  normalizeNumber,
+} from "@/utils/phoneNumbers";
+
+export type FixStatus = "needsFix" | "fixed";
+export type SelectionState = "selected" | "unselected";
+
+// Contacts missing this many forms or more share the last bucket
+export const MAX_MISSING_FORMS_BUCKET = 3;
+
+export interface ContactFilters {
+  label: string | null;
+  operator: string | null;
+  status: FixStatus | null;
+  missingForms: number | null;
+  selection: SelectionState | null;
+}
+
+export const NO_FILTERS: ContactFilters = {
+  label: null,
+  operator: null,
+  status: null,
+  missingForms: null,
+  selection: null,
+};
+
+/**
+ * Everything search and filters look at, computed once per contact so typing
+ * does not re-parse thousands of numbers.
+ */
+export interface SearchEntry {
+  contact: Contact;
+  // Normalized name and labels
+  text: string;
+  // Digits of every number in every form it can be dialled, joined by "|"
+  digits: string;
+  labels: string[];
+  operators: string[];
+  missingForms: number;
+}
+
+export interface FilterOptions {
+  labels: string[];
+  operators: string[];
+  missingForms: number[];
+}
+
+const getDigitForms = (number: string, plans: NumberingPlan[]) => {
+  const normalized = normalizeNumber(number, plans);
+  return normalized
+    ? [normalized.local, normalized.international.slice(1)]
+    : [cleanNumber(number).replace("+", "")];
+};
+
+const createSearchEntry = (contact: Contact, plans: NumberingPlan[]): SearchEntry => {
+  const labels = [...new Set(contact.phoneNumbers.map((phone) => phone.label))];
+  return {
+    contact,
+    text: [contact.name, ...labels].map(normalizeName).join("|"),
+    digits: contact.phoneNumbers
+      .flatMap((phone) => getDigitForms(phone.number, plans))
+      .join("|"),
+    labels,
+    operators: [
+      ...new Set(
+        contact.phoneNumbers.flatMap((phone) =>
+          phone.line ? [getLineLabel(phone.line)] : []
+        )
+      ),
+    ],
+    missingForms: Math.min(
+      getMissingForms(contact.phoneNumbers, plans).length,
+      MAX_MISSING_FORMS_BUCKET
+    ),
+  };
+};
+
+export type SortOrder = "name" | "nameDescending" | "needsFixFirst";
+
+export const SORT_ORDERS: { value: SortOrder; title: string }[] = [
+  { value: "name", title: "A–Z" },
+  { value: "nameDescending", title: "Z–A" },
+  { value: "needsFixFirst", title: "Needs fix first" },
+];
+
+const compareEntries = (order: SortOrder) => (a: SearchEntry, b: SearchEntry) => {
+  const byName = a.contact.name.localeCompare(b.contact.name);
+  switch (order) {
+    case "nameDescending":
+      return -byName;
+    case "needsFixFirst":
+      return Number(b.contact.needsFix) - Number(a.contact.needsFix) || byName;
+    case "name":
+    default:
+      return byName;
+  }
+};
+
+/**
+ * Builds the search entries for a list of contacts, sorted by name unless
+ * another order is given. With a cache, only contacts added or replaced
+ * since the last build are parsed, so a list that grows page by page is not
+ * re-parsed on every page.
+ */
+export const buildSearchIndex = (
+  contacts: Contact[],
+  plans: NumberingPlan[] = getDefaultPlans(),
+  cache?: WeakMap<Contact, SearchEntry>,
+  order: SortOrder = "name"
+): SearchEntry[] =>
+  contacts
+    .map((contact) => {
+      let entry = cache?.get(contact);
+      if (!entry) {
+        entry = createSearchEntry(contact, plans);
+        cache?.set(contact, entry);
+      }
+      return entry;
+    })
+    .sort(compareEntries(order));
+
+// A query made only of digits and the characters numbers are written with
+const NUMBER_QUERY = /^[\d\s+\-().\/]+$/;
+
+/**
+ * Splits a search query into the parts matched against numbers and the
+ * words matched against names and labels. A query that looks like a number
+ * is kept whole, so "788 123" finds 0788 123 456.
+ */
+export const parseQuery = (query: string) => {
+  const trimmed = query.trim();
+  if (/\d/.test(trimmed) && NUMBER_QUERY.test(trimmed)) {
+    return { numbers: [cleanNumber(trimmed).replace("+", "")], words: [] };
+  }
+
+  const numbers: string[] = [];
+  const words: string[] = [];
+  trimmed.split(/\s+/).forEach((token) => {
+    if (/^\+?\d+$/.test(token)) {
+      numbers.push(cleanNumber(token).replace("+", ""));
+    } else {
+      const word = normalizeName(token);
+      if (word) words.push(word);
+    }
+  });
+  return { numbers, words };
+};
+
+export const matchesQuery = (
+  entry: SearchEntry,
+  { numbers, words }: ReturnType<typeof parseQuery>
+) =>
+  numbers.every((digits) => entry.digits.includes(digits)) &&
+  words.every((word) => entry.text.includes(word));
+
+/**
+ * Applies the search query and every active filter chip, keeping the order
+ * of the index.
+ */
+export const filterContacts = (
+  index: SearchEntry[],
+  query: string,
+  filters: ContactFilters,
+  selected: ReadonlySet<string>
+): Contact[] => {
+  const parsed = parseQuery(query);
+  const result: Contact[] = [];
+
+  for (const entry of index) {
+    const { contact } = entry;
+    if (filters.label !== null && !entry.labels.includes(filters.label)) continue;
+    if (filters.operator !== null && !entry.operators.includes(filters.operator)) continue;
+    if (filters.status !== null && contact.needsFix !== (filters.status === "needsFix")) {
+      continue;
+    }
+    if (filters.missingForms !== null && entry.missingForms !== filters.missingForms) {
+      continue;
+    }
+    if (
+      filters.selection !== null &&
+      selected.has(contact.id) !== (filters.selection === "selected")
+    ) {
+      continue;
+    }
+    if (!matchesQuery(entry, parsed)) continue;
+    result.push(contact);
+  }
+
+  return result;
+};
+
+/**
+ * The values each filter can take in the given index, so only chips that
+ * narrow the list down are shown.
+ */
+export const getFilterOptions = (index: SearchEntry[]): FilterOptions => {
+  const labels = new Set<string>();
+  const operators = new Set<string>();
+  const missingForms = new Set<number>();
+
+  index.forEach((entry) => {
+    entry.labels.forEach((label) => labels.add(label));
+    entry.operators.forEach((operator) => operators.add(operator));
+    missingForms.add(entry.missingForms);
+  });
+
+  return {
+    labels: [...labels].sort(),
+    operators: [...operators].sort(),
+    missingForms: [...missingForms].sort((a, b) => a - b),
+  };
+};
+
+/**
+ * Drops filter chip values that no longer occur in the list (e.g. after a
+ * reload), so a stale chip does not hide every contact. The fix status is
+ * not a chip and is kept as is.
+ */
+export const pruneFilters = (
+  filters: ContactFilters,
+  options: FilterOptions,
+  hasSelection: boolean
+): ContactFilters => {
+  const keep = <T>(value: T | null, values: T[]) =>
+    value !== null && values.includes(value) ? value : null;
+
+  return {
+    label: keep(filters.label, options.labels),
+    operator: keep(filters.operator, options.operators),
+    status: filters.status,
+    missingForms: keep(filters.missingForms, options.missingForms),
+    selection: hasSelection ? filters.selection : null,
+  };
+};
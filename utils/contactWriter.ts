@@ -0,0 +1,261 @@
+import * as Contacts from "expo-contacts";
+import type { Contact, PhoneNumber } from "@/types/contact";
+import type { IntegrityFailure, JournalEntry, UndoStep } from "@/types/journal";
+import {
+  diffContactFields,
+  getLostPhoneNumbers,
+  toPhoneNumbers,
+} from "@/utils/contactFields";
+import type { PlannedChanges } from "@/utils/fixPlanner";
+import {
+  appendJournalEntry,
+  clearIntegrityFailures,
+  getIntegrityFailure,
+  loadJournal,
+  markEntriesUndone,
+  planUndo,
+  recordIntegrityFailure,
+  samePhoneNumbers,
+} from "@/utils/journal";
+import { cleanNumber } from "@/utils/phoneNumbers";
+
+export interface UndoResult {
+  reverted: UndoStep[];
+  // Contacts that were deleted or edited since the fix and were left alone
+  conflicts: UndoStep[];
+  // Contacts whose write failed; the steps after them are still attempted
+  failed: UndoStep[];
+}
+
+// Thrown when a write changed more of the contact than its phone numbers
+export class ContactIntegrityError extends Error {
+  constructor(
+    readonly contactName: string,
+    readonly changedFields: string[]
+  ) {
+    super(`Saving ${contactName} also changed: ${changedFields.join(", ")}`);
+    this.name = "ContactIntegrityError";
+  }
+}
+
+// The list only loads a few fields, so every write starts from a full read
+const readFullContact = async (contactId: string) => {
+  const contact = await Contacts.getContactByIdAsync(contactId);
+  if (!contact) throw new Error(`Contact ${contactId} no longer exists`);
+  return contact;
+};
+
+/**
+ * Replaces only the phone numbers of a contact. The name and contact type
+ * are required by updateContactAsync, so they are copied from the original
+ * rather than rebuilt from the list, which would flatten companies.
+ */
+const writePhoneNumbers = (original: Contacts.Contact, phoneNumbers: PhoneNumber[]) =>
+  Contacts.updateContactAsync({
+    [Contacts.Fields.ID]: original.id,
+    [Contacts.Fields.PhoneNumbers]: phoneNumbers.map((phone) => ({
+      label: phone.label,
+      number: phone.number,
+      id: phone.id,
+    })),
+    name: original.name,
+    contactType: original.contactType,
+  });
+
+// Checks that nothing but the phone numbers changed between `expected` and
+// `saved`. Rewritten entries, by their old number, are expected under the
+// new one. Returns what changed, or null when nothing did.
+const checkIntegrity = (
+  expected: Contacts.Contact,
+  saved: Contacts.Contact,
+  removedIds: string[] = [],
+  rewritten: ReadonlyMap<string, string> = new Map()
+): IntegrityFailure | null => {
+  const changedFields = diffContactFields(expected, saved);
+  const lostNumbers = getLostPhoneNumbers(
+    {
+      ...expected,
+      phoneNumbers: expected.phoneNumbers?.map((phone) => {
+        const number = rewritten.get(cleanNumber(phone.number ?? ""));
+        return number ? { ...phone, number } : phone;
+      }),
+    },
+    saved,
+    removedIds
+  ).map((phone) => ({ label: phone.label, number: phone.number ?? "" }));
+  if (changedFields.length === 0 && lostNumbers.length === 0) return null;
+
+  return {
+    fieldsBefore: Object.fromEntries(
+      changedFields.map((field) => [field, expected[field as keyof Contacts.Contact] ?? null])
+    ),
+    lostNumbers,
+  };
+};
+
+const toIntegrityError = (contactName: string, failure: IntegrityFailure) =>
+  new ContactIntegrityError(contactName, [
+    ...Object.keys(failure.fieldsBefore),
+    ...(failure.lostNumbers.length > 0 ? ["phoneNumbers"] : []),
+  ]);
+
+// Finds the entry a planned removal or rewrite refers to. Entries without an
+// id are matched by number and label, from the end, so the first of two
+// identical entries is the one that stays.
+const findEntry = (phoneNumbers: PhoneNumber[], entry: PhoneNumber) => {
+  if (entry.id) {
+    return phoneNumbers.findIndex((phone) => phone.id === entry.id);
+  }
+  const number = cleanNumber(entry.number);
+  for (let index = phoneNumbers.length - 1; index >= 0; index--) {
+    const phone = phoneNumbers[index];
+    if (cleanNumber(phone.number) === number && phone.label === entry.label) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Works out a contact's phone numbers after a set of changes, without
+ * writing anything. Resolves to null when the changes leave the numbers as
+ * they are.
+ */
+export const applyPlannedChanges = (
+  before: PhoneNumber[],
+  { additions, removals, rewrites = [] }: PlannedChanges
+) => {
+  // Entries removed or rewritten by an earlier attempt are simply no longer
+  // found, or already hold the new number
+  const remaining = [...before];
+  const removedIds: string[] = [];
+  removals.forEach((removal) => {
+    const index = findEntry(remaining, removal);
+    if (index === -1) return;
+    const [removed] = remaining.splice(index, 1);
+    if (removed.id) removedIds.push(removed.id);
+  });
+  const rewritten = new Map<string, string>();
+  rewrites.forEach(({ phone, number }) => {
+    const index = findEntry(remaining, phone);
+    if (index === -1 || remaining[index].number === number) return;
+    rewritten.set(cleanNumber(remaining[index].number), number);
+    remaining[index] = { ...remaining[index], number };
+  });
+
+  // Numbers saved by an earlier attempt (e.g. one that failed verification)
+  // are not added twice when the fix is retried
+  const existing = new Set(remaining.map((phone) => cleanNumber(phone.number)));
+  const newNumbers = additions.filter((phone) => !existing.has(cleanNumber(phone.number)));
+  if (newNumbers.length === 0 && remaining.length === before.length && rewritten.size === 0) {
+    return null;
+  }
+
+  return { after: [...remaining, ...newNumbers], removedIds, rewritten };
+};
+
+/**
+ * Adds, removes and rewrites phone numbers of a contact, keeping every other
+ * entry and field, and records the change in the journal so it can be
+ * undone. Changes made by an auto-fix rule are journaled with that rule.
+ * Resolves to whether anything was written.
+ *
+ * A write that changes more than the numbers throws ContactIntegrityError
+ * after it is journaled. Retrying the fix finds the numbers already saved,
+ * so the contact is checked against the journal instead, and keeps failing
+ * until it is back as it was before that write.
+ */
+export const updatePhoneNumbers = async (
+  contact: Contact,
+  changes: PlannedChanges,
+  batchId: string,
+  rule?: JournalEntry["rule"]
+) => {
+  const { additions, removals, rewrites = [] } = changes;
+  if (additions.length === 0 && removals.length === 0 && rewrites.length === 0) return false;
+
+  const original = await readFullContact(contact.id);
+  const earlier = getIntegrityFailure(await loadJournal(), contact.id);
+  // The contact as it was before any write that failed the check
+  const expected: Contacts.Contact = earlier
+    ? {
+        ...original,
+        ...earlier.fieldsBefore,
+        phoneNumbers: [...(original.phoneNumbers ?? []), ...earlier.lostNumbers],
+      }
+    : original;
+  const before = toPhoneNumbers(original);
+  const result = applyPlannedChanges(before, changes);
+
+  if (!result) {
+    const failure = earlier && checkIntegrity(expected, original);
+    if (failure) throw toIntegrityError(contact.name, failure);
+    if (earlier) await clearIntegrityFailures(contact.id);
+    return false;
+  }
+  const { after, removedIds, rewritten } = result;
+
+  await writePhoneNumbers(original, after);
+  const recorded = await appendJournalEntry({
+    batchId,
+    contactId: contact.id,
+    contactName: contact.name,
+    before,
+    after,
+    ...(rule && { rule }),
+  });
+  const failure = checkIntegrity(
+    expected,
+    await readFullContact(contact.id),
+    removedIds,
+    rewritten
+  );
+  if (failure) {
+    await recordIntegrityFailure(recorded.id, failure);
+    throw toIntegrityError(contact.name, failure);
+  }
+  if (earlier) await clearIntegrityFailures(contact.id);
+  return true;
+};
+
+export const addPhoneNumbers = (
+  contact: Contact,
+  additions: PhoneNumber[],
+  batchId: string
+) => updatePhoneNumbers(contact, { additions, removals: [] }, batchId);
+
+/**
+ * Reverts journal entries, restoring each contact's phone numbers from before
+ * the fix. Contacts changed since then are reported instead of overwritten.
+ */
+export const undoEntries = async (entries: JournalEntry[]): Promise<UndoResult> => {
+  const result: UndoResult = { reverted: [], conflicts: [], failed: [] };
+
+  for (const step of planUndo(entries)) {
+    try {
+      const current = await Contacts.getContactByIdAsync(step.contactId);
+
+      if (!current || !samePhoneNumbers(toPhoneNumbers(current), step.expected)) {
+        result.conflicts.push(step);
+        continue;
+      }
+
+      // Entries deleted by the fix (e.g. merged duplicates) are recreated
+      // rather than referenced by an id that no longer exists
+      const currentIds = new Set(toPhoneNumbers(current).map((phone) => phone.id));
+      await writePhoneNumbers(
+        current,
+        step.restore.map((phone) =>
+          phone.id && currentIds.has(phone.id) ? phone : { ...phone, id: undefined }
+        )
+      );
+      await markEntriesUndone(step.entryIds);
+      result.reverted.push(step);
+    } catch (error) {
+      console.error("Error undoing changes to", step.contactName, error);
+      result.failed.push(step);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,252 @@
+import type { Contact as DeviceContact } from "expo-contacts";
+import type { FilePhoneNumber } from "@/types/contact";
+import { detectDelimiter, parseCsv, toCsv } from "@/utils/csv";
+
+// Outlook and most CRMs give every kind of number a column of its own
+const PHONE_COLUMNS: Record<string, string> = {
+  "mobile phone": "mobile",
+  mobile: "mobile",
+  cell: "mobile",
+  "cell phone": "mobile",
+  "home phone": "home",
+  "home phone 2": "home",
+  "business phone": "work",
+  "business phone 2": "work",
+  "work phone": "work",
+  "primary phone": "main",
+  "other phone": "other",
+  pager: "pager",
+  phone: "other",
+  "phone number": "other",
+  telephone: "other",
+  tel: "other",
+};
+
+const EMAIL_COLUMNS = new Set(["e-mail address", "email address", "email", "e-mail"]);
+
+const NAME_COLUMNS = {
+  name: ["name", "full name", "display name"],
+  firstName: ["given name", "first name"],
+  lastName: ["family name", "last name", "surname"],
+  company: ["organization 1 - name", "company", "organization"],
+  note: ["notes", "note"],
+};
+
+// Google exports numbered pairs such as "Phone 1 - Type" / "Phone 1 - Value"
+const GOOGLE_PAIR = /^(phone|e-mail) (\d+) - (type|value)$/;
+
+// Google joins several values of one pair with " ::: "
+const splitValues = (value: string) =>
+  value
+    .split(":::")
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+// Google marks the primary entry "* Mobile"
+const toLabel = (type: string) => type.replace(/^\*\s*/, "").trim().toLowerCase() || "other";
+
+const toType = (label: string) => label.charAt(0).toUpperCase() + label.slice(1);
+
+const joinValues = (values: string[]) => values.join(" ::: ");
+
+// N of a Google "Phone N - Value" column
+const phonePair = (column: string) => {
+  const pair = column.match(GOOGLE_PAIR);
+  return pair?.[1] === "phone" && pair[3] === "value" ? pair[2] : null;
+};
+
+// One phone number read from a row; a cell may hold several
+interface PhoneCell {
+  column: number;
+  label: string;
+  number: string;
+}
+
+const toColumns = (header: string[]) => header.map((column) => column.trim().toLowerCase());
+
+// The numbers of a row in the order the record lists them
+const readPhoneCells = (columns: string[], row: string[]): PhoneCell[] => {
+  const get = (index: number) => (index >= 0 ? (row[index] ?? "").trim() : "");
+  return columns.flatMap((column, index) => {
+    const value = get(index);
+    if (!value) return [];
+    const pair = phonePair(column);
+    let label: string;
+    if (pair) {
+      label = toLabel(get(columns.indexOf(`phone ${pair} - type`)));
+    } else if (!GOOGLE_PAIR.test(column) && PHONE_COLUMNS[column]) {
+      label = PHONE_COLUMNS[column];
+    } else {
+      return [];
+    }
+    return splitValues(value).map((number) => ({ column: index, label, number }));
+  });
+};
+
+/**
+ * Parses a contacts CSV as exported by Google Contacts, Outlook or a
+ * spreadsheet with a header row into device contacts, one per row. Columns
+ * it does not recognize are not read; updateContactsCsv keeps them.
+ */
+export const parseContactsCsv = (text: string): DeviceContact[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = toColumns(header);
+  const find = (names: string[]) => columns.findIndex((column) => names.includes(column));
+  const nameIndexes = {
+    name: find(NAME_COLUMNS.name),
+    firstName: find(NAME_COLUMNS.firstName),
+    lastName: find(NAME_COLUMNS.lastName),
+    company: find(NAME_COLUMNS.company),
+    note: find(NAME_COLUMNS.note),
+  };
+
+  return rows.map((row) => {
+    const get = (index: number) => (index >= 0 ? (row[index] ?? "").trim() : "");
+    const phoneNumbers = readPhoneCells(columns, row).map(({ label, number }) => ({
+      label,
+      number,
+    }));
+    const emails: NonNullable<DeviceContact["emails"]> = [];
+
+    columns.forEach((column, index) => {
+      const value = get(index);
+      if (!value) return;
+      const pair = column.match(GOOGLE_PAIR);
+      if (pair?.[1] === "e-mail" && pair[3] === "value") {
+        const label = toLabel(get(columns.indexOf(`e-mail ${pair[2]} - type`)));
+        splitValues(value).forEach((email) => emails.push({ label, email }));
+      } else if (EMAIL_COLUMNS.has(column)) {
+        emails.push({ label: "other", email: value });
+      }
+    });
+
+    const firstName = get(nameIndexes.firstName) || undefined;
+    const lastName = get(nameIndexes.lastName) || undefined;
+    const company = get(nameIndexes.company) || undefined;
+    const contact: DeviceContact = {
+      name:
+        get(nameIndexes.name) || [firstName, lastName].filter(Boolean).join(" ") || company || "",
+      contactType: "person",
+      firstName,
+      lastName,
+      company,
+    };
+    const note = get(nameIndexes.note);
+    if (note) contact.note = note;
+    if (phoneNumbers.length > 0) contact.phoneNumbers = phoneNumbers;
+    if (emails.length > 0) contact.emails = emails;
+    return contact;
+  });
+};
+
+/**
+ * Writes fixed phone numbers back into the CSV they were read from, one list
+ * per row. The header, the delimiter and every other cell are kept as they
+ * were; only the cells holding numbers are rewritten, and rows given null
+ * are left alone. Added numbers go into an empty phone column of the row,
+ * and "Phone N" columns are appended only when a row has none left.
+ */
+export const updateContactsCsv = (
+  text: string,
+  phonesByRow: (FilePhoneNumber[] | null)[]
+) => {
+  const delimiter = detectDelimiter(text);
+  const [header = [], ...rows] = parseCsv(text, delimiter);
+  const columns = toColumns(header);
+  const width = header.length;
+  let lastPair = Math.max(0, ...columns.map((column) => Number(phonePair(column) ?? 0)));
+  const typeColumn = (column: number) => {
+    const pair = phonePair(columns[column]);
+    return pair ? columns.indexOf(`phone ${pair} - type`) : -1;
+  };
+
+  const updated = rows.map((row, index) => {
+    const phones = phonesByRow[index];
+    if (!phones) return row;
+    const cells = readPhoneCells(columns, row);
+    const kept = new Map<number, string[]>(cells.map((cell) => [cell.column, []]));
+    const added: FilePhoneNumber[] = [];
+    phones.forEach((phone) => {
+      const cell = phone.entry !== undefined ? cells[phone.entry] : undefined;
+      if (cell) kept.get(cell.column)!.push(phone.number);
+      else added.push(phone);
+    });
+
+    const result = [...row];
+    kept.forEach((numbers, column) => {
+      const before = cells.filter((cell) => cell.column === column).map((cell) => cell.number);
+      if (numbers.join() === before.join()) return;
+      result[column] = joinValues(numbers);
+      if (numbers.length === 0 && typeColumn(column) >= 0) result[typeColumn(column)] = "";
+    });
+
+    added.forEach((phone) => {
+      const isEmpty = (i: number) => !result[i]?.trim();
+      // A column for this kind of number, then any empty "Phone N" pair
+      let column = columns.findIndex(
+        (name, i) => !phonePair(name) && PHONE_COLUMNS[name] === phone.label && isEmpty(i)
+      );
+      if (column < 0) column = columns.findIndex((name, i) => phonePair(name) && isEmpty(i));
+      if (column < 0) {
+        lastPair += 1;
+        header.push(`Phone ${lastPair} - Type`, `Phone ${lastPair} - Value`);
+        columns.push(...toColumns(header.slice(-2)));
+        column = columns.length - 1;
+      }
+      result[column] = phone.number;
+      if (typeColumn(column) >= 0) result[typeColumn(column)] = toType(phone.label);
+    });
+    return result;
+  });
+
+  // Rows get empty cells for any column appended
+  const padded =
+    header.length > width
+      ? updated.map((row) => Array.from({ length: header.length }, (_, i) => row[i] ?? ""))
+      : updated;
+  return toCsv([header, ...padded], delimiter);
+};
+
+/**
+ * Serializes contacts in the Google Contacts CSV layout, which Google,
+ * Outlook and most CRMs import: names, organization, notes, then one
+ * type/value pair per email and phone number.
+ */
+export const toContactsCsv = (contacts: DeviceContact[]) => {
+  const phoneCount = Math.max(0, ...contacts.map((c) => c.phoneNumbers?.length ?? 0));
+  const emailCount = Math.max(0, ...contacts.map((c) => c.emails?.length ?? 0));
+  const pairs = (kind: string, count: number) =>
+    Array.from({ length: count }, (_, i) => [
+      `${kind} ${i + 1} - Type`,
+      `${kind} ${i + 1} - Value`,
+    ]).flat();
+
+  const header = [
+    "Name",
+    "Given Name",
+    "Family Name",
+    "Organization 1 - Name",
+    "Notes",
+    ...pairs("E-mail", emailCount),
+    ...pairs("Phone", phoneCount),
+  ];
+  const rows = contacts.map((contact) => {
+    const emails = Array.from({ length: emailCount }, (_, i) => contact.emails?.[i]);
+    const phones = Array.from({ length: phoneCount }, (_, i) => contact.phoneNumbers?.[i]);
+    return [
+      contact.name ?? "",
+      contact.firstName ?? "",
+      contact.lastName ?? "",
+      contact.company ?? "",
+      contact.note ?? "",
+      ...emails.flatMap((email) =>
+        email?.email ? [toType(email.label ?? "other"), email.email] : ["", ""]
+      ),
+      ...phones.flatMap((phone) =>
+        phone?.number ? [toType(phone.label ?? "other"), phone.number] : ["", ""]
+      ),
+    ];
+  });
+  return toCsv([header, ...rows]);
+};
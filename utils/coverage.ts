@@ -0,0 +1,58 @@
+import type { Contact } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+import {
+  getDuplicateEntries,
+  getMissingForms,
+  isSupportedNumber,
+} from "@/utils/phoneNumbers";
+
+export interface Coverage {
+  contacts: number;
+  // Contacts with nothing left to fix
+  complete: number;
+  numbers: number;
+  missingForms: number;
+  duplicates: number;
+}
+
+const getContactCoverage = (contact: Contact, plans: NumberingPlan[]): Coverage => ({
+  contacts: 1,
+  complete: contact.needsFix ? 0 : 1,
+  numbers: contact.phoneNumbers.filter((phone) => isSupportedNumber(phone.number, plans))
+    .length,
+  missingForms: getMissingForms(contact.phoneNumbers, plans).length,
+  duplicates: getDuplicateEntries(contact.phoneNumbers, plans).length,
+});
+
+/**
+ * Counts how much of the list is already clean, to confirm a cleanup worked.
+ * `complete` follows each contact's needsFix flag, so it matches the mode
+ * the list was loaded in. With a cache, unchanged contacts are not counted
+ * again.
+ */
+export const getCoverage = (
+  contacts: Contact[],
+  plans: NumberingPlan[] = getDefaultPlans(),
+  cache?: WeakMap<Contact, Coverage>
+): Coverage =>
+  contacts.reduce<Coverage>(
+    (coverage, contact) => {
+      let counts = cache?.get(contact);
+      if (!counts) {
+        counts = getContactCoverage(contact, plans);
+        cache?.set(contact, counts);
+      }
+      return {
+        contacts: coverage.contacts + counts.contacts,
+        complete: coverage.complete + counts.complete,
+        numbers: coverage.numbers + counts.numbers,
+        missingForms: coverage.missingForms + counts.missingForms,
+        duplicates: coverage.duplicates + counts.duplicates,
+      };
+    },
+    { contacts: 0, complete: 0, numbers: 0, missingForms: 0, duplicates: 0 }
+  );
+
+export const getCoveragePercent = ({ contacts, complete }: Coverage) =>
+  contacts === 0 ? 100 : Math.floor((complete / contacts) * 100);
@@ -0,0 +1,73 @@
+const DELIMITERS = [",", ";", "\t"];
+
+// Excel saves with ";" or tabs in locales where "," is the decimal mark, so
+// the delimiter is whichever appears most often in the header
+export const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const counts = DELIMITERS.map(
+    (delimiter) => header.replace(/"[^"]*"/g, "").split(delimiter).length
+  );
+  return DELIMITERS[counts.indexOf(Math.max(...counts))];
+};
+
+/**
+ * Parses CSV text (RFC 4180) into rows of fields. Quoted fields may hold
+ * delimiters, doubled quotes and line breaks. Blank lines are skipped.
+ */
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  // A byte order mark is left by Excel and most Windows exports
+  const body = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quoted) {
+      if (char === '"' && body[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && body[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+};
+
+// Quotes a field only when it needs it
+const toCsvField = (value: string, delimiter: string) =>
+  /["\r\n]|^\s|\s$/.test(value) || value.includes(delimiter)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+/**
+ * Serializes rows as CSV, with CRLF line endings as RFC 4180 asks and
+ * spreadsheets expect.
+ */
+export const toCsv = (rows: string[][], delimiter = ",") =>
+  rows
+    .map((row) => row.map((field) => toCsvField(field, delimiter)).join(delimiter))
+    .join("\r\n") + "\r\n";
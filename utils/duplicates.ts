@@ -0,0 +1,215 @@
+import type { Contact, PhoneNumber } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+import { cleanNumber, normalizeNumber } from "@/utils/phoneNumbers";
+
+export interface DuplicateGroup {
+  // Stable id built from the member ids
+  id: string;
+  contacts: Contact[];
+  // Numbers (in international form when supported) held by several members
+  sharedNumbers: string[];
+  // How sure we are that the members are one person, from 0 to 1
+  confidence: number;
+}
+
+// Names at least this similar are grouped even without a shared number
+const NAME_THRESHOLD = 0.8;
+
+// Short codes (voicemail, emergency numbers) are shared by unrelated contacts
+const MIN_SHARED_DIGITS = 7;
+
+// Very common name tokens would compare thousands of pairs for little gain
+const MAX_NAME_BUCKET = 200;
+
+/**
+ * Lowercases a name and strips accents and punctuation, so "Irénée
+ * Uwimana-Mugisha" and "irenee uwimana mugisha" compare equal. Letters of
+ * every script are kept: a Cyrillic or Arabic name is compared as written
+ * rather than emptied.
+ */
+export const normalizeName = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLocaleLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const getBigrams = (text: string) => {
+  const bigrams = new Map<string, number>();
+  for (let index = 0; index < text.length - 1; index++) {
+    const bigram = text.slice(index, index + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+};
+
+/**
+ * Scores how alike two names are, from 0 to 1. Word order does not matter;
+ * otherwise this is the Dice coefficient of the letter pairs.
+ */
+export const nameSimilarity = (a: string, b: string) => {
+  const tokensA = normalizeName(a).split(" ").filter(Boolean).sort();
+  const tokensB = normalizeName(b).split(" ").filter(Boolean).sort();
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const textA = tokensA.join(" ");
+  const textB = tokensB.join(" ");
+  if (textA === textB) return 1;
+
+  const bigramsA = getBigrams(textA);
+  const bigramsB = getBigrams(textB);
+  let shared = 0;
+  bigramsA.forEach((count, bigram) => {
+    shared += Math.min(count, bigramsB.get(bigram) ?? 0);
+  });
+
+  return (2 * shared) / (textA.length - 1 + textB.length - 1);
+};
+
+/**
+ * The key two entries must share to hold the same number: the international
+ * form when a numbering plan recognizes it, the dial string otherwise.
+ */
+export const getNumberKey = (
+  number: string,
+  plans: NumberingPlan[] = getDefaultPlans()
+) => normalizeNumber(number, plans)?.international ?? cleanNumber(number);
+
+const scoreLink = (sharesNumber: boolean, similarity: number) =>
+  sharesNumber ? 0.7 + 0.3 * similarity : 0.6 * similarity;
+
+/**
+ * Groups contacts that are probably the same person: they share a number,
+ * in any format, or have very similar names. Groups are sorted by
+ * confidence, most certain first.
+ */
+export const findDuplicateContacts = (
+  contacts: Contact[],
+  plans: NumberingPlan[] = getDefaultPlans()
+): DuplicateGroup[] => {
+  const parents = contacts.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  // Score of every linked pair of contacts, keyed "i:j" with i < j
+  const links = new Map<string, { a: number; b: number; score: number }>();
+  const sharedNumbers = new Map<string, Set<number>>();
+
+  contacts.forEach((contact, index) => {
+    contact.phoneNumbers.forEach((phone) => {
+      const key = getNumberKey(phone.number, plans);
+      if (key.replace("+", "").length < MIN_SHARED_DIGITS) return;
+      const holders = sharedNumbers.get(key) ?? new Set<number>();
+      holders.add(index);
+      sharedNumbers.set(key, holders);
+    });
+  });
+
+  const link = (a: number, b: number, sharesNumber: boolean) => {
+    const similarity = nameSimilarity(contacts[a].name, contacts[b].name);
+    if (!sharesNumber && similarity < NAME_THRESHOLD) return;
+
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    const score = scoreLink(sharesNumber, similarity);
+    const existing = links.get(key);
+    if (!existing || existing.score < score) links.set(key, { a, b, score });
+    parents[find(a)] = find(b);
+  };
+
+  sharedNumbers.forEach((holders) => {
+    const [first, ...others] = [...holders];
+    others.forEach((other) => link(first, other, true));
+  });
+
+  // Only contacts sharing a name token are compared by name
+  const nameBuckets = new Map<string, number[]>();
+  contacts.forEach((contact, index) => {
+    new Set(normalizeName(contact.name).split(" ")).forEach((token) => {
+      if (token.length < 2) return;
+      const bucket = nameBuckets.get(token) ?? [];
+      bucket.push(index);
+      nameBuckets.set(token, bucket);
+    });
+  });
+  nameBuckets.forEach((bucket) => {
+    if (bucket.length > MAX_NAME_BUCKET) return;
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = `${bucket[i]}:${bucket[j]}`;
+        if (!links.has(key)) link(bucket[i], bucket[j], false);
+      }
+    }
+  });
+
+  const members = new Map<number, number[]>();
+  contacts.forEach((_, index) => {
+    const root = find(index);
+    const group = members.get(root) ?? [];
+    group.push(index);
+    members.set(root, group);
+  });
+
+  // Each member's strongest link to another member
+  const bestScores = new Map<number, number>();
+  links.forEach(({ a, b, score }) => {
+    bestScores.set(a, Math.max(bestScores.get(a) ?? 0, score));
+    bestScores.set(b, Math.max(bestScores.get(b) ?? 0, score));
+  });
+
+  const groups: DuplicateGroup[] = [];
+  members.forEach((indexes) => {
+    if (indexes.length < 2) return;
+    const holders = new Map<string, Set<number>>();
+    indexes.forEach((index) =>
+      contacts[index].phoneNumbers.forEach((phone) => {
+        const key = getNumberKey(phone.number, plans);
+        holders.set(key, (holders.get(key) ?? new Set()).add(index));
+      })
+    );
+    groups.push({
+      id: indexes.map((index) => contacts[index].id).join(":"),
+      contacts: indexes.map((index) => contacts[index]),
+      sharedNumbers: [...holders]
+        .filter(([key, members]) => members.size > 1 && sharedNumbers.has(key))
+        .map(([key]) => key),
+      // A group is only as certain as its loosest member
+      confidence: Math.min(...indexes.map((index) => bestScores.get(index) ?? 0)),
+    });
+  });
+
+  return groups.sort((a, b) => b.confidence - a.confidence);
+};
+
+/**
+ * Numbers the surviving contact needs to hold the union of the group's
+ * numbers. Each number is added once, with the label it had on the contact
+ * it came from.
+ */
+export const planMerge = (
+  survivor: Contact,
+  others: Contact[],
+  plans: NumberingPlan[] = getDefaultPlans()
+): PhoneNumber[] => {
+  const present = new Set(
+    survivor.phoneNumbers.map((phone) => getNumberKey(phone.number, plans))
+  );
+  const additions: PhoneNumber[] = [];
+
+  others.forEach((contact) =>
+    contact.phoneNumbers.forEach((phone) => {
+      const key = getNumberKey(phone.number, plans);
+      if (present.has(key)) return;
+      present.add(key);
+      additions.push({ label: phone.label, number: phone.number });
+    })
+  );
+
+  return additions;
+};
@@ -0,0 +1,218 @@
+import type {
+  CanonicalFormat,
+  Contact,
+  ContactFixPlan,
+  FixKind,
+  PhoneNumber,
+} from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { DEFAULT_LABEL_OPTIONS, LabelOptions } from "@/utils/labels";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+import {
+  getCanonicalChanges,
+  getDuplicateEntries,
+  labelMissingForms,
+} from "@/utils/phoneNumbers";
+
+export const FIX_KINDS: { value: FixKind; title: string }[] = [
+  { value: "missingForms", title: "Missing Forms" },
+  { value: "duplicates", title: "Duplicates" },
+  { value: "canonicalize", title: "Canonical" },
+];
+
+export interface PlannedChanges {
+  additions: PhoneNumber[];
+  removals: PhoneNumber[];
+  // Entries whose number is replaced, keeping their label and id
+  rewrites?: { phone: PhoneNumber; number: string }[];
+}
+
+// Removals and rewrites are keyed by entry, since an entry's number may
+// be saved more than once
+const getEntryKey = (contact: Contact, phone: PhoneNumber) =>
+  phone.id ?? contact.phoneNumbers.indexOf(phone);
+
+/**
+ * Computes what fixing a contact would write, without writing anything.
+ */
+export const planContactFix = (
+  contact: Contact,
+  plans: NumberingPlan[] = getDefaultPlans(),
+  labelOptions: LabelOptions = DEFAULT_LABEL_OPTIONS
+): ContactFixPlan => ({
+  contact,
+  additions: labelMissingForms(contact.phoneNumbers, plans, labelOptions).map(
+    ({ label, number, source }) => ({
+      key: `${contact.id}:${number}`,
+      label,
+      number,
+      source,
+    })
+  ),
+  removals: [],
+  rewrites: [],
+  untouched: contact.phoneNumbers,
+});
+
+/**
+ * Computes how to collapse a contact's duplicate entries to one local and
+ * one international form per number. The first entry of each form is kept
+ * with its label; a form no entry holds is planned as an addition, as in
+ * a normal fix. Contacts without duplicates are left alone.
+ */
+export const planContactDedupe = (
+  contact: Contact,
+  plans: NumberingPlan[] = getDefaultPlans(),
+  labelOptions: LabelOptions = DEFAULT_LABEL_OPTIONS
+): ContactFixPlan => {
+  const duplicates = getDuplicateEntries(contact.phoneNumbers, plans);
+  if (duplicates.length === 0) {
+    return {
+      contact,
+      additions: [],
+      removals: [],
+      rewrites: [],
+      untouched: contact.phoneNumbers,
+    };
+  }
+
+  const removed = new Set(duplicates.map((duplicate) => duplicate.phone));
+  const untouched = contact.phoneNumbers.filter((phone) => !removed.has(phone));
+
+  return {
+    ...planContactFix({ ...contact, phoneNumbers: untouched }, plans, labelOptions),
+    contact,
+    removals: duplicates.map((duplicate) => ({
+      ...duplicate,
+      key: `${contact.id}:remove:${getEntryKey(contact, duplicate.phone)}`,
+    })),
+  };
+};
+
+/**
+ * Computes how to store every supported number of a contact once, in the
+ * canonical format: entries are rewritten in place, and entries that would
+ * then repeat another are removed. Nothing is added.
+ */
+export const planContactCanonicalize = (
+  contact: Contact,
+  plans: NumberingPlan[] = getDefaultPlans(),
+  format: CanonicalFormat = "e164"
+): ContactFixPlan => {
+  const { rewrites, duplicates } = getCanonicalChanges(contact.phoneNumbers, format, plans);
+  const changed = new Set([
+    ...rewrites.map((rewrite) => rewrite.phone),
+    ...duplicates.map((duplicate) => duplicate.phone),
+  ]);
+  return {
+    contact,
+    additions: [],
+    removals: duplicates.map((duplicate) => ({
+      ...duplicate,
+      key: `${contact.id}:remove:${getEntryKey(contact, duplicate.phone)}`,
+    })),
+    rewrites: rewrites.map((rewrite) => ({
+      ...rewrite,
+      key: `${contact.id}:rewrite:${getEntryKey(contact, rewrite.phone)}`,
+    })),
+    untouched: contact.phoneNumbers.filter((phone) => !changed.has(phone)),
+  };
+};
+
+const hasChanges = (plan: ContactFixPlan) =>
+  plan.additions.length > 0 || plan.removals.length > 0 || plan.rewrites.length > 0;
+
+export const planFixes = (
+  contacts: Contact[],
+  plans: NumberingPlan[] = getDefaultPlans(),
+  labelOptions: LabelOptions = DEFAULT_LABEL_OPTIONS,
+  kind: FixKind = "missingForms",
+  canonicalFormat: CanonicalFormat = "e164"
+): ContactFixPlan[] => {
+  const planContact = (contact: Contact) => {
+    switch (kind) {
+      case "duplicates":
+        return planContactDedupe(contact, plans, labelOptions);
+      case "canonicalize":
+        return planContactCanonicalize(contact, plans, canonicalFormat);
+      case "missingForms":
+      default:
+        return planContactFix(contact, plans, labelOptions);
+    }
+  };
+  return contacts.map(planContact).filter(hasChanges);
+};
+
+/**
+ * The numbers to add for a plan, leaving out any addition whose key is in
+ * `excluded`.
+ */
+export const getPlannedAdditions = (
+  plan: ContactFixPlan,
+  excluded: ReadonlySet<string> = new Set()
+): PhoneNumber[] =>
+  plan.additions
+    .filter((addition) => !excluded.has(addition.key))
+    .map(({ label, number }) => ({ label, number }));
+
+/**
+ * Everything a plan writes, leaving out the additions, removals and
+ * rewrites whose key is in `excluded`.
+ */
+export const getPlannedChanges = (
+  plan: ContactFixPlan,
+  excluded: ReadonlySet<string> = new Set()
+): PlannedChanges => ({
+  additions: getPlannedAdditions(plan, excluded),
+  removals: plan.removals
+    .filter((removal) => !excluded.has(removal.key))
+    .map((removal) => removal.phone),
+  rewrites: plan.rewrites
+    .filter((rewrite) => !excluded.has(rewrite.key))
+    .map(({ phone, number }) => ({ phone, number })),
+});
+
+/**
+ * The plan with the labels the user typed for some of its additions. Blank
+ * labels keep the planned one.
+ */
+export const relabelPlan = (
+  plan: ContactFixPlan,
+  labels: ReadonlyMap<string, string>
+): ContactFixPlan => ({
+  ...plan,
+  additions: plan.additions.map((addition) => ({
+    ...addition,
+    label: labels.get(addition.key)?.trim() || addition.label,
+  })),
+});
+
+export const countPlannedRemovals = (
+  plans: ContactFixPlan[],
+  excluded: ReadonlySet<string> = new Set()
+) =>
+  plans.reduce(
+    (count, plan) =>
+      count + plan.removals.filter((r) => !excluded.has(r.key)).length,
+    0
+  );
+
+export const countPlannedAdditions = (
+  plans: ContactFixPlan[],
+  excluded: ReadonlySet<string> = new Set()
+) =>
+  plans.reduce(
+    (count, plan) =>
+      count + plan.additions.filter((a) => !excluded.has(a.key)).length,
+    0
+  );
+
+export const countPlannedRewrites = (
+  plans: ContactFixPlan[],
+  excluded: ReadonlySet<string> = new Set()
+) =>
+  plans.reduce(
+    (count, plan) =>
+      count + plan.rewrites.filter((r) => !excluded.has(r.key)).length,
+    0
+  );
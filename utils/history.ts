@@ -0,0 +1,114 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Contact } from "@/types/contact";
+import type {
+  Breakdown,
+  FixSession,
+  HistorySession,
+  ScanSession,
+} from "@/types/history";
+import { createQueue } from "@/utils/batch";
+import { createId, getDateKey } from "@/utils/journal";
+import { getLineLabel } from "@/utils/phoneNumbers";
+
+const STORAGE_KEY = "history";
+
+// A rescan runs every time the app comes back, so old sessions are dropped.
+// Scans and fixes are capped separately: frequent scans must not push out
+// the record of what was fixed.
+export const MAX_SCAN_SESSIONS = 200;
+export const MAX_FIX_SESSIONS = 300;
+
+// Sessions are appended read-modify-write, so concurrent records are queued
+const enqueue = createQueue();
+
+export const loadHistory = async (): Promise<HistorySession[]> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+// History is only evidence: a failed write is logged and never stops a scan
+// or a fix
+const appendSession = (session: HistorySession) =>
+  enqueue(async () => {
+    const sessions = [...(await loadHistory()), session];
+    const limit = session.type === "scan" ? MAX_SCAN_SESSIONS : MAX_FIX_SESSIONS;
+    const sameType = sessions.filter((stored) => stored.type === session.type);
+    // Only the oldest sessions of the type just added are dropped
+    const dropped = new Set(sameType.slice(0, Math.max(0, sameType.length - limit)));
+    await AsyncStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(sessions.filter((stored) => !dropped.has(stored)))
+    );
+  }).catch((error) => console.error("Error recording history:", error));
+
+export const recordScan = (scan: Omit<ScanSession, "type" | "id" | "timestamp">) =>
+  appendSession({ ...scan, type: "scan", id: createId(), timestamp: Date.now() });
+
+export const recordFix = (fix: Omit<FixSession, "type" | "id" | "timestamp">) =>
+  appendSession({ ...fix, type: "fix", id: createId(), timestamp: Date.now() });
+
+export const clearHistory = () => enqueue(() => AsyncStorage.removeItem(STORAGE_KEY));
+
+/**
+ * Counts the numbers of a scanned list by operator and by label.
+ */
+export const getBreakdowns = (contacts: Contact[]) => {
+  const byOperator: Breakdown = {};
+  const byLabel: Breakdown = {};
+  const count = (breakdown: Breakdown, key: string, needFix: boolean) => {
+    const counts = (breakdown[key] ??= { numbers: 0, needFix: 0 });
+    counts.numbers++;
+    if (needFix) counts.needFix++;
+  };
+
+  contacts.forEach((contact) =>
+    contact.phoneNumbers.forEach((phone) => {
+      count(byOperator, phone.line ? getLineLabel(phone.line) : "Other", contact.needsFix);
+      count(byLabel, phone.label, contact.needsFix);
+    })
+  );
+  return { byOperator, byLabel };
+};
+
+// Largest first, so the chart reads from the top
+export const sortBreakdown = (breakdown: Breakdown) =>
+  Object.entries(breakdown)
+    .map(([key, counts]) => ({ key, ...counts }))
+    .sort((a, b) => b.numbers - a.numbers || a.key.localeCompare(b.key));
+
+export const summarizeHistory = (sessions: HistorySession[]) => {
+  const fixes = sessions.filter((session): session is FixSession => session.type === "fix");
+  const scans = sessions.filter((session): session is ScanSession => session.type === "scan");
+  return {
+    scans: scans.length,
+    fixSessions: fixes.length,
+    fixed: fixes.reduce((total, fix) => total + fix.fixed, 0),
+    failed: fixes.reduce((total, fix) => total + fix.failed, 0),
+    autoFixed: fixes
+      .filter((fix) => fix.source === "auto")
+      .reduce((total, fix) => total + fix.fixed, 0),
+    lastScan: scans.length > 0 ? scans[scans.length - 1] : null,
+  };
+};
+
+/**
+ * Contacts fixed and failed per local day, for the `days` days up to and
+ * including `now`. Days without a fix are listed with zeros.
+ */
+export const getDailyFixes = (sessions: HistorySession[], days = 7, now = Date.now()) => {
+  const totals = new Map<string, { fixed: number; failed: number }>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = new Date(now);
+    date.setDate(date.getDate() - offset);
+    totals.set(getDateKey(date.getTime()), { fixed: 0, failed: 0 });
+  }
+
+  sessions.forEach((session) => {
+    if (session.type !== "fix") return;
+    const day = totals.get(getDateKey(session.timestamp));
+    if (!day) return;
+    day.fixed += session.fixed;
+    day.failed += session.failed;
+  });
+  return [...totals].map(([dateKey, counts]) => ({ dateKey, ...counts }));
+};
@@ -0,0 +1,34 @@
+import * as Crypto from "expo-crypto";
+
+// SHA-256 works on 64-byte blocks
+const BLOCK_SIZE = 64;
+
+const sha256 = async (data: Uint8Array) =>
+  new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, data));
+
+const concat = (a: Uint8Array, b: Uint8Array) => {
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+};
+
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export const fromHex = (hex: string) =>
+  new Uint8Array((hex.match(/../g) ?? []).map((pair) => parseInt(pair, 16)));
+
+/**
+ * HMAC-SHA256 (RFC 2104) of a UTF-8 string, as lowercase hex. expo-crypto
+ * only digests, so the keyed construction is built on top of it.
+ */
+export const hmacSha256 = async (key: Uint8Array, message: string) => {
+  const block = new Uint8Array(BLOCK_SIZE);
+  block.set(key.length > BLOCK_SIZE ? await sha256(key) : key);
+  const inner = block.map((byte) => byte ^ 0x36);
+  const outer = block.map((byte) => byte ^ 0x5c);
+
+  const innerHash = await sha256(concat(inner, new TextEncoder().encode(message)));
+  return toHex(await sha256(concat(outer, innerHash)));
+};
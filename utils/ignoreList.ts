@@ -0,0 +1,97 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Contact, PhoneNumber } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { getNumberKey } from "@/utils/duplicates";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+
+const STORAGE_KEY = "ignoreList";
+
+export interface IgnoredContact {
+  contactId: string;
+  // Kept for the settings screen, which does not load the address book
+  contactName: string;
+}
+
+// Numbers are matched by value rather than by entry id, since iOS gives
+// every entry a new id whenever the contact is saved
+export interface IgnoredNumber extends IgnoredContact {
+  label: string;
+  number: string;
+}
+
+export interface IgnoreList {
+  contacts: IgnoredContact[];
+  numbers: IgnoredNumber[];
+}
+
+export const EMPTY_IGNORE_LIST: IgnoreList = { contacts: [], numbers: [] };
+
+export const loadIgnoreList = async (): Promise<IgnoreList> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  return stored ? { ...EMPTY_IGNORE_LIST, ...JSON.parse(stored) } : EMPTY_IGNORE_LIST;
+};
+
+export const saveIgnoreList = (list: IgnoreList) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+
+export const isContactIgnored = (list: IgnoreList, contactId: string) =>
+  list.contacts.some((ignored) => ignored.contactId === contactId);
+
+// Whether the list says anything about a contact, as a whole or for a number
+export const mentionsContact = (list: IgnoreList, contactId: string) =>
+  isContactIgnored(list, contactId) ||
+  list.numbers.some((ignored) => ignored.contactId === contactId);
+
+export const isNumberIgnored = (
+  list: IgnoreList,
+  contactId: string,
+  number: string,
+  plans: NumberingPlan[] = getDefaultPlans()
+) => {
+  const key = getNumberKey(number, plans);
+  return list.numbers.some(
+    (ignored) =>
+      ignored.contactId === contactId && getNumberKey(ignored.number, plans) === key
+  );
+};
+
+export const ignoreContact = (list: IgnoreList, contact: Contact): IgnoreList =>
+  isContactIgnored(list, contact.id)
+    ? list
+    : {
+        ...list,
+        contacts: [...list.contacts, { contactId: contact.id, contactName: contact.name }],
+      };
+
+export const ignoreNumber = (
+  list: IgnoreList,
+  contact: Contact,
+  phone: PhoneNumber,
+  plans: NumberingPlan[] = getDefaultPlans()
+): IgnoreList =>
+  isNumberIgnored(list, contact.id, phone.number, plans)
+    ? list
+    : {
+        ...list,
+        numbers: [
+          ...list.numbers,
+          {
+            contactId: contact.id,
+            contactName: contact.name,
+            label: phone.label,
+            number: phone.number,
+          },
+        ],
+      };
+
+export const unignoreContact = (list: IgnoreList, contactId: string): IgnoreList => ({
+  ...list,
+  contacts: list.contacts.filter((ignored) => ignored.contactId !== contactId),
+});
+
+export const unignoreNumber = (list: IgnoreList, entry: IgnoredNumber): IgnoreList => ({
+  ...list,
+  numbers: list.numbers.filter(
+    (ignored) => ignored.contactId !== entry.contactId || ignored.number !== entry.number
+  ),
+});
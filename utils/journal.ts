@@ -0,0 +1,193 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { PhoneNumber } from "@/types/contact";
+import type { IntegrityFailure, JournalEntry, UndoStep } from "@/types/journal";
+import { createQueue } from "@/utils/batch";
+import { cleanNumber } from "@/utils/phoneNumbers";
+
+const STORAGE_KEY = "journal";
+const CHUNK_COUNT_KEY = "journalChunks";
+
+// Entries per stored chunk, so an append rewrites one chunk rather than the
+// whole journal
+export const JOURNAL_CHUNK_SIZE = 100;
+
+export const createId = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+// Journal updates are read-modify-write, so concurrent fixes are queued
+const enqueue = createQueue();
+
+// Chunks are numbered oldest first. The first keeps the original key, so a
+// journal saved as a single array still loads as one (possibly full) chunk.
+const chunkKey = (index: number) => (index === 0 ? STORAGE_KEY : `${STORAGE_KEY}.${index}`);
+
+const getChunkCount = async () => Number((await AsyncStorage.getItem(CHUNK_COUNT_KEY)) ?? 1);
+
+const loadChunks = async (): Promise<JournalEntry[][]> => {
+  const count = await getChunkCount();
+  const stored = await AsyncStorage.multiGet(
+    Array.from({ length: count }, (_, index) => chunkKey(index))
+  );
+  return stored.map(([, value]) => (value ? JSON.parse(value) : []));
+};
+
+export const loadJournal = async (): Promise<JournalEntry[]> => (await loadChunks()).flat();
+
+// Rewrites only the chunks holding an entry that `update` replaced
+const updateEntries = (update: (entry: JournalEntry) => JournalEntry) =>
+  enqueue(async () => {
+    const changed = (await loadChunks()).flatMap((chunk, index): [string, string][] => {
+      const updated = chunk.map(update);
+      return updated.some((entry, i) => entry !== chunk[i])
+        ? [[chunkKey(index), JSON.stringify(updated)]]
+        : [];
+    });
+    if (changed.length > 0) await AsyncStorage.multiSet(changed);
+  });
+
+export const appendJournalEntry = (
+  entry: Omit<JournalEntry, "id" | "timestamp">
+) =>
+  enqueue(async () => {
+    const count = await getChunkCount();
+    const stored = await AsyncStorage.getItem(chunkKey(count - 1));
+    const last: JournalEntry[] = stored ? JSON.parse(stored) : [];
+    const recorded: JournalEntry = {
+      ...entry,
+      id: createId(),
+      timestamp: Date.now(),
+    };
+    if (last.length < JOURNAL_CHUNK_SIZE) {
+      await AsyncStorage.setItem(chunkKey(count - 1), JSON.stringify([...last, recorded]));
+    } else {
+      await AsyncStorage.multiSet([
+        [chunkKey(count), JSON.stringify([recorded])],
+        [CHUNK_COUNT_KEY, String(count + 1)],
+      ]);
+    }
+    return recorded;
+  });
+
+export const markEntriesUndone = (ids: string[]) => {
+  const undone = new Set(ids);
+  const now = Date.now();
+  return updateEntries((entry) => (undone.has(entry.id) ? { ...entry, undoneAt: now } : entry));
+};
+
+export const recordIntegrityFailure = (id: string, integrityFailure: IntegrityFailure) =>
+  updateEntries((entry) => (entry.id === id ? { ...entry, integrityFailure } : entry));
+
+// Called once a contact passes the check again, so later edits the user
+// makes to those fields are not taken for the same failure
+export const clearIntegrityFailures = (contactId: string) =>
+  updateEntries((entry) => {
+    if (entry.contactId !== contactId || !entry.integrityFailure) return entry;
+    const { integrityFailure: _cleared, ...cleared } = entry;
+    return cleared;
+  });
+
+export const clearJournal = () =>
+  enqueue(async () => {
+    const count = await getChunkCount();
+    await AsyncStorage.multiRemove([
+      ...Array.from({ length: count }, (_, index) => chunkKey(index)),
+      CHUNK_COUNT_KEY,
+    ]);
+  });
+
+export const getActiveEntries = (entries: JournalEntry[]) =>
+  entries.filter((entry) => entry.undoneAt === undefined);
+
+// Local calendar day of a timestamp, e.g. "2025-01-31"
+export const getDateKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const getLastBatch = (entries: JournalEntry[]) => {
+  const active = getActiveEntries(entries);
+  if (active.length === 0) return [];
+  const latest = active.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+  return active.filter((entry) => entry.batchId === latest.batchId);
+};
+
+export const getEntriesForDate = (entries: JournalEntry[], dateKey: string) =>
+  getActiveEntries(entries).filter(
+    (entry) => getDateKey(entry.timestamp) === dateKey
+  );
+
+export const getEntriesForContact = (entries: JournalEntry[], contactId: string) =>
+  getActiveEntries(entries).filter((entry) => entry.contactId === contactId);
+
+/**
+ * Merges the integrity failures of a contact's active entries. A field
+ * changed by several failed writes keeps its value from before the
+ * earliest.
+ */
+export const getIntegrityFailure = (
+  entries: JournalEntry[],
+  contactId: string
+): IntegrityFailure | null => {
+  const failures = getEntriesForContact(entries, contactId)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .flatMap((entry) => (entry.integrityFailure ? [entry.integrityFailure] : []));
+  if (failures.length === 0) return null;
+  return {
+    fieldsBefore: Object.assign({}, ...failures.reverse().map((failure) => failure.fieldsBefore)),
+    lostNumbers: failures.flatMap((failure) => failure.lostNumbers),
+  };
+};
+
+/**
+ * Works out what to write to revert a set of entries. Several changes to the
+ * same contact collapse into one step that restores the state before the
+ * earliest of them.
+ */
+export const planUndo = (entries: JournalEntry[]): UndoStep[] => {
+  const byContact = new Map<string, JournalEntry[]>();
+  for (const entry of getActiveEntries(entries)) {
+    byContact.set(entry.contactId, [...(byContact.get(entry.contactId) ?? []), entry]);
+  }
+
+  return [...byContact.values()].map((contactEntries) => {
+    const sorted = [...contactEntries].sort((a, b) => a.timestamp - b.timestamp);
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    return {
+      contactId: first.contactId,
+      contactName: last.contactName,
+      expected: last.after,
+      restore: first.before,
+      entryIds: sorted.map((entry) => entry.id),
+    };
+  });
+};
+
+/**
+ * Compares two sets of phone numbers by number only, ignoring order. Labels
+ * are left out because the platforms localize and re-case them on save.
+ */
+export const samePhoneNumbers = (a: PhoneNumber[], b: PhoneNumber[]) => {
+  if (a.length !== b.length) return false;
+  const numbers = a.map((phone) => cleanNumber(phone.number)).sort();
+  return b
+    .map((phone) => cleanNumber(phone.number))
+    .sort()
+    .every((number, index) => number === numbers[index]);
+};
+
+/**
+ * Entries of `a` whose number is not in `b`. A number held twice in `a` and
+ * once in `b` (a merged duplicate) counts once.
+ */
+export const getPhoneNumbersNotIn = (a: PhoneNumber[], b: PhoneNumber[]) => {
+  const other = b.map((phone) => cleanNumber(phone.number));
+  return a.filter((phone) => {
+    const index = other.indexOf(cleanNumber(phone.number));
+    if (index === -1) return true;
+    other.splice(index, 1);
+    return false;
+  });
+};
@@ -0,0 +1,87 @@
+import type { NumberFormat } from "@/types/contact";
+
+// How an added number is labelled, relative to the entry it was derived from:
+// "same" reuses the label, "prime" adds a prime mark (mobile'), "suffix" names
+// the form (mobile (intl)) and "custom" always uses one fixed label.
+export type LabelStrategy = "same" | "prime" | "suffix" | "custom";
+
+export interface LabelOptions {
+  strategy: LabelStrategy;
+  // Used by the "custom" strategy
+  customLabel: string;
+}
+
+export const DEFAULT_LABEL_OPTIONS: LabelOptions = {
+  strategy: "prime",
+  customLabel: "",
+};
+
+export const LABEL_STRATEGIES: { value: LabelStrategy; title: string }[] = [
+  { value: "same", title: "Same label" },
+  { value: "prime", title: "Prime marks" },
+  { value: "suffix", title: "Format suffix" },
+  { value: "custom", title: "Custom label" },
+];
+
+// How device labels are shown and carried over to added numbers:
+// "lowercase" turns "Mobile" and "MAIN_NUMBER" into "mobile" and "main number",
+// "asSaved" keeps them exactly as the address book has them
+export type LabelCase = "lowercase" | "asSaved";
+
+export const LABEL_CASES: { value: LabelCase; title: string }[] = [
+  { value: "lowercase", title: "Lowercase" },
+  { value: "asSaved", title: "As saved" },
+];
+
+export const formatLabel = (label: string | undefined, labelCase: LabelCase = "lowercase") =>
+  (labelCase === "lowercase" ? label?.replace(/_/g, " ").toLowerCase() : label) || "other";
+
+const FORMAT_SUFFIXES: Record<NumberFormat, string> = {
+  local: "local",
+  international: "intl",
+};
+
+const SUFFIX_PATTERN = new RegExp(
+  ` \\((${Object.values(FORMAT_SUFFIXES).join("|")})\\)$`
+);
+
+export const getNextLabel = (label: string, existingLabels: string[]): string => {
+  let primeCount = 0;
+  const baseLabel = label.replace(/'/g, ""); // Remove any existing primes
+  const escaped = baseLabel.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const labelPattern = new RegExp(`^${escaped}'*$`);
+
+  // Count existing labels with primes
+  existingLabels.forEach((existing) => {
+    if (labelPattern.test(existing)) {
+      const primes = existing.match(/'/g)?.length || 0;
+      primeCount = Math.max(primeCount, primes);
+    }
+  });
+
+  // Add one more prime than the highest count found
+  return `${baseLabel}${"'".repeat(primeCount + 1)}`;
+};
+
+/**
+ * The label for a number added in `format`, derived from the label of the
+ * entry it was created from.
+ */
+export const getAdditionLabel = (
+  sourceLabel: string,
+  format: NumberFormat,
+  existingLabels: string[],
+  options: LabelOptions = DEFAULT_LABEL_OPTIONS
+): string => {
+  switch (options.strategy) {
+    case "same":
+      return sourceLabel;
+    case "suffix":
+      return `${sourceLabel.replace(SUFFIX_PATTERN, "")} (${FORMAT_SUFFIXES[format]})`;
+    case "custom":
+      return options.customLabel.trim() || sourceLabel;
+    case "prime":
+    default:
+      return getNextLabel(sourceLabel, existingLabels);
+  }
+};
@@ -0,0 +1,34 @@
+import { NumberingPlans } from "@/constants/NumberingPlans";
+import type { NumberingPlan } from "@/types/numberingPlan";
+
+export const DEFAULT_COUNTRIES = ["RW"];
+
+const registry = new Map<string, NumberingPlan>(
+  NumberingPlans.map((plan) => [plan.id, plan])
+);
+
+// Adds a plan to the registry, replacing any plan with the same id
+export const registerNumberingPlan = (plan: NumberingPlan) => {
+  registry.set(plan.id, plan);
+};
+
+export const getNumberingPlan = (id: string) => registry.get(id);
+
+export const getNumberingPlans = () => [...registry.values()];
+
+/**
+ * Resolves country ids to their plans, keeping the given order so the first
+ * country wins when a local number is valid in several of them.
+ */
+export const getActivePlans = (countryIds: string[]): NumberingPlan[] =>
+  countryIds
+    .map((id) => registry.get(id))
+    .filter((plan): plan is NumberingPlan => plan !== undefined);
+
+export const getDefaultPlans = () => getActivePlans(DEFAULT_COUNTRIES);
+
+export const formatCountryList = (plans: NumberingPlan[]) => {
+  const names = plans.map((plan) => plan.name);
+  if (names.length <= 1) return names.join("");
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+};
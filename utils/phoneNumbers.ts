@@ -0,0 +1,423 @@
+import type {
+  CanonicalFormat,
+  DisplayFormat,
+  DuplicateEntry,
+  LineInfo,
+  MissingForm,
+  NormalizedNumber,
+  NumberFormat,
+  PhoneNumber,
+} from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import {
+  DEFAULT_LABEL_OPTIONS,
+  getAdditionLabel,
+  LabelOptions,
+} from "@/utils/labels";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+
+// Kept here so callers find every fixing rule in one module
+export { getNextLabel } from "@/utils/labels";
+
+// Characters people and address books put between digits: every kind of
+// space (including non-breaking and zero-width ones), dashes, dots, slashes
+// and parentheses.
+const SEPARATORS = /[\s\u200b-\u200d\u2060\ufeff\-\u2010-\u2015\u2212.\/()]/g;
+
+// USSD codes such as *182# or *131*1#
+const USSD_CODE = /^[*#][\d*#]*#$/;
+
+// "+250 (0) 788 ..." marks a trunk prefix that is dropped when dialling
+// from abroad
+const OPTIONAL_TRUNK = /^(\s*(?:\+|00)[^(]*)\(0\)/;
+
+/**
+ * Reduces a raw number to a plain dial string: an optional "+" followed by
+ * digits. Full-width digits and plus signs are folded to ASCII and a leading
+ * "00" international prefix becomes "+".
+ */
+export const cleanNumber = (number: string) => {
+  const clean = number
+    .replace(/[\uff10-\uff19]/g, (digit) =>
+      String.fromCharCode(digit.charCodeAt(0) - 0xfee0)
+    )
+    .replace(/\uff0b/g, "+")
+    .replace(OPTIONAL_TRUNK, "$1")
+    .replace(SEPARATORS, "");
+
+  return clean.startsWith("00") ? "+" + clean.slice(2) : clean;
+};
+
+const isValidNationalNumber = (plan: NumberingPlan, nationalNumber: string) =>
+  /^\d+$/.test(nationalNumber) &&
+  plan.nationalNumberLengths.includes(nationalNumber.length) &&
+  plan.nationalPrefixes.some((prefix) => nationalNumber.startsWith(prefix));
+
+const parseWithPlan = (
+  plan: NumberingPlan,
+  clean: string
+): NormalizedNumber | null => {
+  const internationalPrefix = "+" + plan.countryCode;
+  let format: NumberFormat;
+  let subscriber: string;
+
+  if (clean.startsWith(internationalPrefix)) {
+    format = "international";
+    subscriber = clean.slice(internationalPrefix.length);
+  } else if (
+    // International form saved without the "+", e.g. 250788123456
+    clean.startsWith(plan.countryCode) &&
+    isValidNationalNumber(plan, clean.slice(plan.countryCode.length))
+  ) {
+    format = "international";
+    subscriber = clean.slice(plan.countryCode.length);
+  } else if (clean.startsWith(plan.trunkPrefix) && !clean.startsWith("+")) {
+    format = "local";
+    subscriber = clean.slice(plan.trunkPrefix.length);
+  } else {
+    return null;
+  }
+
+  if (!isValidNationalNumber(plan, subscriber)) return null;
+
+  return {
+    country: plan.id,
+    format,
+    subscriber,
+    local: plan.trunkPrefix + subscriber,
+    international: internationalPrefix + subscriber,
+  };
+};
+
+// Every reading of a number, one per plan that accepts it, in plan order
+const parseWithPlans = (number: string, plans: NumberingPlan[]): NormalizedNumber[] => {
+  const clean = cleanNumber(number);
+  // Anything left besides digits (letters, extensions, "*#") is not a number
+  // the fixer should touch
+  if (!/^\+?\d+$/.test(clean)) return [];
+
+  return plans.flatMap((plan) => parseWithPlan(plan, clean) ?? []);
+};
+
+/**
+ * Parses a raw phone number into its local and international forms using the
+ * first of the given numbering plans that accepts it. Returns null when no
+ * plan does.
+ */
+export const normalizeNumber = (
+  number: string,
+  plans: NumberingPlan[] = getDefaultPlans()
+): NormalizedNumber | null => parseWithPlans(number, plans)[0] ?? null;
+
+/**
+ * True for a local number that fits more than one of the plans, such as
+ * 0712345678 with Rwanda and Kenya active. Which subscriber it reaches
+ * depends on the country it was saved in.
+ */
+export const isAmbiguousNumber = (
+  number: string,
+  plans: NumberingPlan[] = getDefaultPlans()
+) => parseWithPlans(number, plans).length > 1;
+
+/**
+ * Normalizes every number of one contact. A local number that fits several
+ * plans is read with the plan whose international form the contact already
+ * has, so the Kenyan "0712345678" added next to "+254712345678" is not later
+ * taken for a Rwandan number. Otherwise the first plan that fits is used.
+ */
+export const normalizeContactNumbers = (
+  phoneNumbers: PhoneNumber[],
+  plans: NumberingPlan[] = getDefaultPlans()
+): (NormalizedNumber | null)[] => {
+  const readings = phoneNumbers.map((phone) => parseWithPlans(phone.number, plans));
+  const international = new Set(
+    readings.flatMap(([first]) => (first?.format === "international" ? [first.international] : []))
+  );
+  return readings.map(
+    (candidates) =>
+      candidates.find((candidate) => international.has(candidate.international)) ??
+      candidates[0] ??
+      null
+  );
+};
+
+export const DISPLAY_FORMATS: { value: DisplayFormat; title: string }[] = [
+  { value: "asSaved", title: "As saved" },
+  { value: "local", title: "Local" },
+  { value: "international", title: "International" },
+];
+
+// Short codes and numbers from inactive countries are always shown as saved
+export const formatForDisplay = (
+  number: string,
+  format: DisplayFormat,
+  plans: NumberingPlan[] = getDefaultPlans()
+) => {
+  if (format === "asSaved") return number;
+  return normalizeNumber(number, plans)?.[format] ?? number;
+};
+
+export const CANONICAL_FORMATS: { value: CanonicalFormat; title: string }[] = [
+  { value: "e164", title: "+250788123456" },
+  { value: "local", title: "0788123456" },
+  { value: "grouped", title: "+250 788 123 456" },
+];
+
+// Digit groups of three from the right, so 8-digit numbers start with a pair
+const groupDigits = (digits: string) =>
+  digits.replace(/\B(?=(\d{3})+$)/g, " ");
+
+const toCanonical = (normalized: NormalizedNumber, format: CanonicalFormat) => {
+  switch (format) {
+    case "local":
+      return normalized.local;
+    case "grouped": {
+      const { international, subscriber } = normalized;
+      const countryPart = international.slice(0, -subscriber.length);
+      return `${countryPart} ${groupDigits(subscriber)}`;
+    }
+    case "e164":
+    default:
+      return normalized.international;
+  }
+};
+
+/**
+ * A supported number written in the canonical format, or null for short
+ * codes and numbers of other countries, which canonical mode leaves alone.
+ */
+export const formatCanonical = (
+  number: string,
+  format: CanonicalFormat,
+  plans: NumberingPlan[] = getDefaultPlans()
+) => {
+  const normalized = normalizeNumber(number, plans);
+  return normalized && toCanonical(normalized, format);
+};
+
+export const classifyNumber = (
+  number: string,
+  plans: NumberingPlan[] = getDefaultPlans()
+): NumberFormat | null => normalizeNumber(number, plans)?.format ?? null;
+
+export const isSupportedNumber = (
+  number: string,
+  plans: NumberingPlan[] = getDefaultPlans()
+) => normalizeNumber(number, plans) !== null;
+
+/**
+ * Tells which kind of line a number reaches and, where the numbering plan
+ * lists its range, the operator. Short codes are recognized too, but never
+ * normalize, so the fixer leaves them alone. Returns null for numbers none
+ * of the plans knows.
+ */
+export const classifyLine = (
+  number: string,
+  plans: NumberingPlan[] = getDefaultPlans()
+): LineInfo | null => {
+  const normalized = normalizeNumber(number, plans);
+  if (normalized) {
+    const plan = plans.find((p) => p.id === normalized.country)!;
+    const range = plan.operators?.find((r) =>
+      normalized.subscriber.startsWith(r.prefix)
+    );
+    return {
+      country: plan.id,
+      lineType: range?.lineType ?? "mobile",
+      operator: range?.operator ?? null,
+    };
+  }
+
+  const clean = cleanNumber(number);
+  const shortCodePlan = plans.find(
+    (plan) =>
+      plan.shortCodeLengths &&
+      (USSD_CODE.test(clean) ||
+        (/^\d+$/.test(clean) && plan.shortCodeLengths.includes(clean.length)))
+  );
+  return shortCodePlan
+    ? { country: shortCodePlan.id, lineType: "shortCode", operator: null }
+    : null;
+};
+
+/**
+ * Short name of the operator or line type, shown on badges and used as the
+ * operator filter value.
+ */
+export const getLineLabel = (line: LineInfo) => {
+  if (line.operator) return line.operator;
+  switch (line.lineType) {
+    case "shortCode":
+      return "Short code";
+    case "fixed":
+      return "Landline";
+    default:
+      return "Mobile";
+  }
+};
+
+/**
+ * Lists the equivalent forms missing from a set of phone numbers: a local
+ * copy for every international number and vice versa. Each missing number is
+ * reported once, against the first entry it was derived from.
+ */
+export const getMissingForms = (
+  phoneNumbers: PhoneNumber[],
+  plans: NumberingPlan[] = getDefaultPlans()
+): MissingForm[] => {
+  const normalized = normalizeContactNumbers(phoneNumbers, plans);
+  // Compare canonical forms, so "250788123456" counts as the international form
+  const present = new Set(
+    normalized.flatMap((n) => (n ? [n[n.format]] : []))
+  );
+  const missing: MissingForm[] = [];
+
+  phoneNumbers.forEach((phone, index) => {
+    const number = normalized[index];
+    if (!number) return;
+
+    const format: NumberFormat =
+      number.format === "local" ? "international" : "local";
+
+    if (!present.has(number[format])) {
+      present.add(number[format]);
+      missing.push({ source: phone, number: number[format], format });
+    }
+  });
+
+  return missing;
+};
+
+/**
+ * Lists the entries that repeat a number already held by an earlier entry
+ * in the same form, e.g. "+250 788-123-456" after "250788123456". Keeping
+ * the first entry of each form leaves exactly one local and one
+ * international copy of every number.
+ */
+export const getDuplicateEntries = (
+  phoneNumbers: PhoneNumber[],
+  plans: NumberingPlan[] = getDefaultPlans()
+): DuplicateEntry[] => {
+  const firstEntries = new Map<string, PhoneNumber>();
+  const duplicates: DuplicateEntry[] = [];
+  const normalized = normalizeContactNumbers(phoneNumbers, plans);
+
+  phoneNumbers.forEach((phone, index) => {
+    const number = normalized[index];
+    if (!number) return;
+
+    const canonical = number[number.format];
+    const first = firstEntries.get(canonical);
+    if (first) {
+      duplicates.push({ phone, duplicateOf: first });
+    } else {
+      firstEntries.set(canonical, phone);
+    }
+  });
+
+  return duplicates;
+};
+
+export const contactHasDuplicates = (
+  phoneNumbers: PhoneNumber[],
+  plans: NumberingPlan[] = getDefaultPlans()
+) => getDuplicateEntries(phoneNumbers, plans).length > 0;
+
+export const contactNeedsFix = (
+  phoneNumbers: PhoneNumber[],
+  plans: NumberingPlan[] = getDefaultPlans()
+) => getMissingForms(phoneNumbers, plans).length > 0;
+
+/**
+ * What storing every supported number once, in the canonical format, takes:
+ * entries to rewrite in place and entries that would end up holding the
+ * same number as another. Entries already in the canonical format are kept
+ * first, so as few entries as possible are rewritten.
+ */
+export const getCanonicalChanges = (
+  phoneNumbers: PhoneNumber[],
+  format: CanonicalFormat,
+  plans: NumberingPlan[] = getDefaultPlans()
+) => {
+  const normalized = normalizeContactNumbers(phoneNumbers, plans);
+  const entries = phoneNumbers.flatMap((phone, index) => {
+    const number = normalized[index];
+    return number ? [{ phone, canonical: toCanonical(number, format) }] : [];
+  });
+  const kept = new Map<string, PhoneNumber>();
+  entries.forEach(({ phone, canonical }) => {
+    if (phone.number === canonical && !kept.has(canonical)) kept.set(canonical, phone);
+  });
+
+  const rewrites: { phone: PhoneNumber; number: string }[] = [];
+  const duplicates: DuplicateEntry[] = [];
+  entries.forEach(({ phone, canonical }) => {
+    const first = kept.get(canonical);
+    if (first === phone) return;
+    if (first) {
+      duplicates.push({ phone, duplicateOf: first });
+    } else {
+      kept.set(canonical, phone);
+      rewrites.push({ phone, number: canonical });
+    }
+  });
+
+  return { rewrites, duplicates };
+};
+
+export const contactNeedsCanonicalizing = (
+  phoneNumbers: PhoneNumber[],
+  format: CanonicalFormat,
+  plans: NumberingPlan[] = getDefaultPlans()
+) => {
+  const { rewrites, duplicates } = getCanonicalChanges(phoneNumbers, format, plans);
+  return rewrites.length > 0 || duplicates.length > 0;
+};
+
+/**
+ * True when the contact has at least one supported number and every one of
+ * them is present in both forms.
+ */
+export const validateContact = (
+  phoneNumbers: PhoneNumber[],
+  plans: NumberingPlan[] = getDefaultPlans()
+): boolean =>
+  phoneNumbers.some((p) => isSupportedNumber(p.number, plans)) &&
+  !contactNeedsFix(phoneNumbers, plans);
+
+/**
+ * Pairs every missing form with the label it would be saved under, derived
+ * from the entry it came from.
+ */
+export const labelMissingForms = (
+  phoneNumbers: PhoneNumber[],
+  plans: NumberingPlan[] = getDefaultPlans(),
+  labelOptions: LabelOptions = DEFAULT_LABEL_OPTIONS
+): (MissingForm & { label: string })[] => {
+  const existingLabels = phoneNumbers.map((p) => p.label);
+  return getMissingForms(phoneNumbers, plans).map((missing) => {
+    const label = getAdditionLabel(
+      missing.source.label,
+      missing.format,
+      existingLabels,
+      labelOptions
+    );
+    existingLabels.push(label);
+    return { ...missing, label };
+  });
+};
+
+/**
+ * Returns the contact's phone numbers with every missing form appended.
+ */
+export const getFixedPhoneNumbers = (
+  phoneNumbers: PhoneNumber[],
+  plans: NumberingPlan[] = getDefaultPlans(),
+  labelOptions: LabelOptions = DEFAULT_LABEL_OPTIONS
+): PhoneNumber[] => [
+  ...phoneNumbers,
+  ...labelMissingForms(phoneNumbers, plans, labelOptions).map(({ label, number }) => ({
+    label,
+    number,
+  })),
+];
@@ -0,0 +1,57 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { CanonicalFormat, DisplayFormat, FixKind } from "@/types/contact";
+import type { SortOrder } from "@/utils/contactSearch";
+import { DEFAULT_LABEL_OPTIONS, LabelCase, LabelOptions } from "@/utils/labels";
+import { DEFAULT_COUNTRIES } from "@/utils/numberingPlans";
+
+const STORAGE_KEY = "preferences";
+
+// "system" follows the device setting
+export type ThemeOverride = "system" | "light" | "dark";
+
+export const THEME_OVERRIDES: { value: ThemeOverride; title: string }[] = [
+  { value: "system", title: "System" },
+  { value: "light", title: "Light" },
+  { value: "dark", title: "Dark" },
+];
+
+export interface Preferences {
+  // Ids of the numbering plans to detect, in priority order; the first one
+  // is the default country for local numbers valid in several
+  activeCountries: string[];
+  // How numbers added by the fixer are labelled
+  labelOptions: LabelOptions;
+  labelCase: LabelCase;
+  // Show a banner when contacts saved since the last scan need fixing
+  notifyNewContacts: boolean;
+  // The fix mode the contact list opens in
+  fixKind: FixKind;
+  // The format canonical mode rewrites numbers to
+  canonicalFormat: CanonicalFormat;
+  displayFormat: DisplayFormat;
+  sortOrder: SortOrder;
+  theme: ThemeOverride;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  activeCountries: DEFAULT_COUNTRIES,
+  labelOptions: DEFAULT_LABEL_OPTIONS,
+  labelCase: "lowercase",
+  notifyNewContacts: true,
+  fixKind: "missingForms",
+  canonicalFormat: "e164",
+  displayFormat: "asSaved",
+  sortOrder: "name",
+  theme: "system",
+};
+
+export const loadPreferences = async (): Promise<Preferences> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  // Merge over the defaults so preferences added in later versions get a value
+  return stored
+    ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) }
+    : DEFAULT_PREFERENCES;
+};
+
+export const savePreferences = (preferences: Preferences) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
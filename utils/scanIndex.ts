@@ -0,0 +1,85 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type * as Contacts from "expo-contacts";
+import type { Contact, ContactIssues, FixKind } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { ListOptions, toContactIssues, toListContact } from "@/utils/contactLoader";
+import { EMPTY_IGNORE_LIST, IgnoreList, mentionsContact } from "@/utils/ignoreList";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+
+const STORAGE_KEY = "scanIndex";
+
+// Fingerprint of every contact seen by the last complete scan, by contact id
+export type ScanIndex = Record<string, string>;
+
+export interface ScanResult {
+  fingerprint: string;
+  contact: Contact | null;
+  issues: ContactIssues | null;
+  // Whether the ignore list applied to the contact when it was checked
+  ignored: boolean;
+}
+
+// FNV-1a; short enough to keep an index of 10k contacts small in storage
+const hash = (text: string) => {
+  let value = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    value ^= text.charCodeAt(index);
+    value = Math.imul(value, 0x01000193);
+  }
+  return (value >>> 0).toString(36);
+};
+
+/**
+ * Changes whenever anything the scan looks at changes: the name, or the
+ * label or number of any phone entry.
+ */
+export const getFingerprint = (contact: Contacts.Contact) =>
+  hash(
+    JSON.stringify([
+      contact.firstName ?? "",
+      contact.lastName ?? "",
+      (contact.phoneNumbers ?? []).map((phone) => [phone.label ?? "", phone.number ?? ""]),
+    ])
+  );
+
+/**
+ * Checks a device contact, reusing the previous result when the contact has
+ * not changed since. The reused row keeps its identity, so the search and
+ * coverage caches still hold for it. The few contacts the ignore list
+ * mentions, now or at the previous check, are always checked again.
+ */
+export const scanContact = (
+  contact: Contacts.Contact,
+  kind: FixKind,
+  plans: NumberingPlan[] = getDefaultPlans(),
+  previous?: ScanResult,
+  ignoreList: IgnoreList = EMPTY_IGNORE_LIST,
+  options: ListOptions = {}
+): ScanResult => {
+  const fingerprint = getFingerprint(contact);
+  const ignored = contact.id !== undefined && mentionsContact(ignoreList, contact.id);
+  if (previous?.fingerprint === fingerprint && !previous.ignored && !ignored) {
+    return previous;
+  }
+  return {
+    fingerprint,
+    contact: toListContact(contact, kind, plans, ignoreList, options),
+    issues: toContactIssues(contact, plans),
+    ignored,
+  };
+};
+
+/**
+ * Ids of the contacts that are new or changed since `known` was recorded.
+ */
+export const getChangedIds = (known: ScanIndex, current: ScanIndex) =>
+  Object.keys(current).filter((contactId) => known[contactId] !== current[contactId]);
+
+// Null until the first complete scan, when every contact would count as new
+export const loadScanIndex = async (): Promise<ScanIndex | null> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+export const saveScanIndex = (index: ScanIndex) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(index));
@@ -0,0 +1,145 @@
+import type { NumberFormat, NumberIssue, PhoneNumber } from "@/types/contact";
+import type { NumberingPlan } from "@/types/numberingPlan";
+import { getDefaultPlans } from "@/utils/numberingPlans";
+import { classifyLine, cleanNumber, normalizeNumber } from "@/utils/phoneNumbers";
+
+type Check = Omit<NumberIssue, "phone">;
+
+// Letters easily typed instead of the digit they resemble
+const LOOKALIKES: Record<string, string> = { o: "0", O: "0", l: "1", I: "1", i: "1" };
+
+const pluralizeDigits = (count: number) => (count === 1 ? "1 digit" : `${count} digits`);
+
+// Checks a dial string that looks like it belongs to the plan but does not
+// parse as one of its numbers
+const checkWithPlan = (plan: NumberingPlan, clean: string): Check | null => {
+  const international = "+" + plan.countryCode;
+  const isValid = (nationalNumber: string) =>
+    normalizeNumber(plan.trunkPrefix + nationalNumber, [plan]) !== null;
+
+  let format: NumberFormat = "local";
+  let rest = clean;
+  // A national number saved without its trunk prefix
+  let bare = false;
+  if (clean.startsWith(international)) {
+    format = "international";
+    rest = clean.slice(international.length);
+  } else if (clean.startsWith("+")) {
+    return null;
+  } else if (plan.trunkPrefix && clean.startsWith(plan.trunkPrefix)) {
+    rest = clean.slice(plan.trunkPrefix.length);
+  } else {
+    bare = plan.trunkPrefix !== "";
+  }
+
+  const write = (nationalNumber: string) =>
+    format === "local"
+      ? plan.trunkPrefix + nationalNumber
+      : international + nationalNumber;
+
+  if (
+    format === "international" &&
+    plan.trunkPrefix &&
+    rest.startsWith(plan.trunkPrefix) &&
+    isValid(rest.slice(plan.trunkPrefix.length))
+  ) {
+    return {
+      kind: "malformed",
+      reason: `Has a ${plan.trunkPrefix} after ${international}, which is not dialled from abroad`,
+      suggestions: [write(rest.slice(plan.trunkPrefix.length))],
+    };
+  }
+
+  const obsolete = plan.obsoleteRanges?.find(
+    (range) => rest.length === range.length && rest.startsWith(range.prefix)
+  );
+  if (obsolete) {
+    return {
+      kind: "obsolete",
+      reason: `Uses the old ${plan.name} numbering`,
+      suggestions: [write(obsolete.newPrefix + rest)],
+    };
+  }
+
+  if (bare) {
+    return isValid(rest)
+      ? {
+          kind: "malformed",
+          reason: `Missing the leading ${plan.trunkPrefix}`,
+          suggestions: [write(rest)],
+        }
+      : null;
+  }
+
+  if (!plan.nationalPrefixes.some((prefix) => rest.startsWith(prefix))) return null;
+
+  // Digits may be missing or repeated anywhere, so there is no safe guess
+  const shortest = Math.min(...plan.nationalNumberLengths);
+  const longest = Math.max(...plan.nationalNumberLengths);
+  if (rest.length < shortest) {
+    return {
+      kind: "truncated",
+      reason: `${pluralizeDigits(shortest - rest.length)} missing`,
+      suggestions: [],
+    };
+  }
+  if (rest.length > longest) {
+    return {
+      kind: "tooLong",
+      reason: `${pluralizeDigits(rest.length - longest)} too many`,
+      suggestions: [],
+    };
+  }
+  return null;
+};
+
+/**
+ * Explains why a number that looks like it belongs to one of the plans
+ * cannot be fixed as written, with the corrections that are likely enough to
+ * suggest. Returns null for valid numbers, short codes and numbers from
+ * other countries.
+ */
+export const checkNumber = (
+  number: string,
+  plans: NumberingPlan[] = getDefaultPlans()
+): Check | null => {
+  if (classifyLine(number, plans)) return null;
+
+  // "O788 123 456"
+  if (/\d/.test(number) && /[oOlIi]/.test(number)) {
+    const normalized = normalizeNumber(
+      number.replace(/[oOlIi]/g, (letter) => LOOKALIKES[letter]),
+      plans
+    );
+    if (normalized) {
+      return {
+        kind: "malformed",
+        reason: "Contains letters instead of digits",
+        suggestions: [normalized[normalized.format]],
+      };
+    }
+  }
+
+  // Extensions, words and other text are not ours to judge
+  const clean = cleanNumber(number);
+  if (!/^\+?\d+$/.test(clean)) return null;
+
+  for (const plan of plans) {
+    const issue = checkWithPlan(plan, clean);
+    if (issue) return issue;
+  }
+  return null;
+};
+
+/**
+ * The contact's entries that need a person to look at them. They are never
+ * fixed automatically.
+ */
+export const findNumberIssues = (
+  phoneNumbers: PhoneNumber[],
+  plans: NumberingPlan[] = getDefaultPlans()
+): NumberIssue[] =>
+  phoneNumbers.flatMap((phone) => {
+    const issue = checkNumber(phone.number, plans);
+    return issue ? [{ phone, ...issue }] : [];
+  });
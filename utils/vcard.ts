@@ -0,0 +1,691 @@
+import type { Contact as DeviceContact, Date as ContactDate } from "expo-contacts";
+import type { FilePhoneNumber } from "@/types/contact";
+
+export type VCardVersion = "3.0" | "4.0";
+
+// vCard TEL types and the address book labels they correspond to
+const PHONE_TYPES: Record<string, string> = {
+  cell: "mobile",
+  home: "home",
+  work: "work",
+  main: "main",
+  pager: "pager",
+  iphone: "iPhone",
+  other: "other",
+};
+
+const EMAIL_TYPES: Record<string, string> = {
+  home: "home",
+  work: "work",
+  other: "other",
+};
+
+// Labels for addresses, URLs and IM accounts that have a standard type
+const LOCATION_TYPES: Record<string, string> = {
+  home: "home",
+  work: "work",
+  other: "other",
+};
+
+// URI schemes of IMPP values, by the service names the address book uses
+const IM_SCHEMES: Record<string, string> = {
+  aim: "aim",
+  icq: "icq",
+  jabber: "xmpp",
+  msn: "msnim",
+  skype: "skype",
+  yahoo: "ymsgr",
+};
+
+// Types that describe the kind of line rather than its label
+const IGNORED_TYPES = new Set(["voice", "pref", "internet", "x400"]);
+
+// RFC 6350 limits content lines to 75 octets, not characters
+const LINE_OCTETS = 75;
+
+export const escapeValue = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/\r?\n/g, "\\n")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;");
+
+export const unescapeValue = (value: string) =>
+  value.replace(/\\([\\,;nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+// Splits a structured value on unescaped semicolons (N, ADR, ORG)
+const splitComponents = (value: string) => {
+  const components = [""];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\" && i + 1 < value.length) {
+      components[components.length - 1] += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === ";") {
+      components.push("");
+    } else {
+      components[components.length - 1] += value[i];
+    }
+  }
+  return components.map(unescapeValue);
+};
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Folds a content line into lines of at most 75 octets, splitting only
+// between characters so no UTF-8 sequence or surrogate pair is cut
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+  for (const char of line) {
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? LINE_OCTETS : LINE_OCTETS - 1;
+    const size = utf8Length(char);
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+};
+
+const typeForLabel = (label: string, types: Record<string, string>) =>
+  Object.keys(types).find((type) => types[type].toLowerCase() === label.toLowerCase());
+
+// A labelled property as content lines: a standard TYPE where the label has
+// one, otherwise an item group carrying Apple's X-ABLabel. `property` may
+// carry parameters and `value` must already be escaped.
+const labelledLines = (
+  property: string,
+  value: string,
+  label: string,
+  types: Record<string, string>,
+  nextGroup: () => string,
+  params = ""
+) => {
+  const type = typeForLabel(label, types);
+  if (type) return [`${property};TYPE=${type.toUpperCase()}${params}:${value}`];
+  const group = nextGroup();
+  return [`${group}.${property}${params}:${value}`, `${group}.X-ABLabel:${escapeValue(label)}`];
+};
+
+// Parameter values are quoted so they may hold ";", "," and ":". Quotes
+// cannot be escaped inside them and are dropped.
+const quoteParam = (value: string) => `"${value.replace(/"/g, "")}"`;
+
+// "2004-06-15" in 3.0 and RFC 6350's basic "20040615" in 4.0, or "--0615"
+// in either when the year is unknown
+const formatDate = (date: ContactDate | undefined, version: VCardVersion) => {
+  if (!date?.day || date.month === undefined) return null;
+  const month = String(date.month + 1).padStart(2, "0");
+  const day = String(date.day).padStart(2, "0");
+  if (!date.year) return `--${month}${day}`;
+  return version === "4.0" ? `${date.year}${month}${day}` : `${date.year}-${month}-${day}`;
+};
+
+const parseDate = (value: string): ContactDate | null => {
+  const match = value.match(/^(\d{4}|--)-?(\d{2})-?(\d{2})/);
+  return match
+    ? {
+        year: match[1] === "--" ? undefined : Number(match[1]),
+        month: Number(match[2]) - 1,
+        day: Number(match[3]),
+      }
+    : null;
+};
+
+const photoType = (base64: string) => (base64.startsWith("iVBOR") ? "png" : "jpeg");
+
+/**
+ * Serializes a device contact into a vCard. The contact id is kept in UID so a
+ * restore can match cards back to their contacts. Labels without a standard
+ * vCard type are kept with Apple's X-ABLabel extension, as are the fields
+ * only Apple's vCards carry: dates, related names, social profiles and
+ * phonetic names. A photo is embedded when the contact has its data.
+ */
+export const toVCard = (
+  contact: DeviceContact,
+  version: VCardVersion = "3.0"
+): string => {
+  const lines = ["BEGIN:VCARD", `VERSION:${version}`];
+  let group = 0;
+  const nextGroup = () => `item${++group}`;
+
+  // `property` may carry parameters and `value` must already be escaped
+  const addGrouped = (property: string, value: string, label: string) => {
+    const name = nextGroup();
+    lines.push(`${name}.${property}:${value}`);
+    lines.push(`${name}.X-ABLabel:${escapeValue(label)}`);
+  };
+
+  const addLabelled = (
+    property: string,
+    value: string,
+    label: string,
+    types: Record<string, string>,
+    params = ""
+  ) => lines.push(...labelledLines(property, value, label, types, nextGroup, params));
+
+  if (contact.id) lines.push(`UID:${escapeValue(contact.id)}`);
+  lines.push(
+    "N:" +
+      [
+        contact.lastName,
+        contact.firstName,
+        contact.middleName,
+        contact.namePrefix,
+        contact.nameSuffix,
+      ]
+        .map((part) => escapeValue(part ?? ""))
+        .join(";")
+  );
+  lines.push(`FN:${escapeValue(contact.name ?? "")}`);
+  if (contact.nickname) lines.push(`NICKNAME:${escapeValue(contact.nickname)}`);
+  if (contact.maidenName) lines.push(`X-MAIDENNAME:${escapeValue(contact.maidenName)}`);
+  if (contact.phoneticFirstName) {
+    lines.push(`X-PHONETIC-FIRST-NAME:${escapeValue(contact.phoneticFirstName)}`);
+  }
+  if (contact.phoneticMiddleName) {
+    lines.push(`X-PHONETIC-MIDDLE-NAME:${escapeValue(contact.phoneticMiddleName)}`);
+  }
+  if (contact.phoneticLastName) {
+    lines.push(`X-PHONETIC-LAST-NAME:${escapeValue(contact.phoneticLastName)}`);
+  }
+  if (contact.company || contact.department) {
+    lines.push(
+      `ORG:${escapeValue(contact.company ?? "")};${escapeValue(contact.department ?? "")}`
+    );
+  }
+  if (contact.jobTitle) lines.push(`TITLE:${escapeValue(contact.jobTitle)}`);
+  if (contact.contactType === "company") {
+    lines.push(version === "4.0" ? "KIND:org" : "X-ABShowAs:COMPANY");
+  }
+
+  for (const phone of contact.phoneNumbers ?? []) {
+    if (phone.number) {
+      addLabelled("TEL", escapeValue(phone.number), phone.label ?? "other", PHONE_TYPES);
+    }
+  }
+  for (const email of contact.emails ?? []) {
+    if (email.email) {
+      addLabelled("EMAIL", escapeValue(email.email), email.label ?? "other", EMAIL_TYPES);
+    }
+  }
+  for (const address of contact.addresses ?? []) {
+    const value = [
+      "",
+      "",
+      address.street,
+      address.city,
+      address.region,
+      address.postalCode,
+      address.country,
+    ]
+      .map((part) => escapeValue(part ?? ""))
+      .join(";");
+    addLabelled("ADR", value, address.label ?? "other", LOCATION_TYPES);
+  }
+  for (const url of contact.urlAddresses ?? []) {
+    if (url.url) addLabelled("URL", escapeValue(url.url), url.label ?? "other", LOCATION_TYPES);
+  }
+  for (const im of contact.instantMessageAddresses ?? []) {
+    if (!im.username) continue;
+    const scheme = IM_SCHEMES[im.service?.toLowerCase() ?? ""] ?? "x-apple";
+    addLabelled(
+      "IMPP",
+      `${scheme}:${escapeValue(im.username)}`,
+      im.label ?? "other",
+      LOCATION_TYPES,
+      im.service ? `;X-SERVICE-TYPE=${quoteParam(im.service)}` : ""
+    );
+  }
+  for (const profile of contact.socialProfiles ?? []) {
+    const params = [
+      profile.service && `;TYPE=${quoteParam(profile.service)}`,
+      profile.username && `;X-USER=${quoteParam(profile.username)}`,
+      profile.userId && `;X-USERID=${quoteParam(profile.userId)}`,
+    ].join("");
+    addGrouped(
+      `X-SOCIALPROFILE${params}`,
+      escapeValue(profile.url ?? ""),
+      profile.label ?? "other"
+    );
+  }
+  const birthday = formatDate(contact.birthday, version);
+  if (birthday) lines.push(`BDAY:${birthday}`);
+  for (const date of contact.dates ?? []) {
+    const value = formatDate(date, version);
+    if (value) addGrouped("X-ABDATE", value, date.label ?? "other");
+  }
+  for (const relationship of contact.relationships ?? []) {
+    if (relationship.name) {
+      addGrouped("X-ABRELATEDNAMES", escapeValue(relationship.name), relationship.label);
+    }
+  }
+  if (contact.note) lines.push(`NOTE:${escapeValue(contact.note)}`);
+  const photo = contact.image?.base64?.replace(/\s/g, "");
+  if (photo) {
+    const type = photoType(photo);
+    lines.push(
+      version === "4.0"
+        ? `PHOTO:data:image/${type};base64,${photo}`
+        : `PHOTO;ENCODING=b;TYPE=${type.toUpperCase()}:${photo}`
+    );
+  }
+  lines.push("END:VCARD");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+export const toVCardFile = (contacts: DeviceContact[], version: VCardVersion = "3.0") =>
+  contacts.map((contact) => toVCard(contact, version)).join("");
+
+interface ContentLine {
+  group?: string;
+  name: string;
+  // Lowercased, for matching types
+  params: Record<string, string[]>;
+  // As written, for values such as user names
+  rawParams: Record<string, string[]>;
+  value: string;
+}
+
+const decodeQuotedPrintable = (value: string) => {
+  const encoded = value.replace(/%/g, "%25").replace(/=([0-9A-F]{2})/gi, "%$1");
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    // Not valid UTF-8; keep the bytes as Latin-1 characters
+    return encoded.replace(/%([0-9A-F]{2})/gi, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))
+    );
+  }
+};
+
+// Index of the colon separating name and parameters from the value,
+// skipping colons inside quoted parameter values
+const findValueSeparator = (line: string) => {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) return i;
+  }
+  return -1;
+};
+
+// Splits on a separator outside of quoted parameter values
+const splitUnquoted = (text: string, separator: string) => {
+  const parts = [""];
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) parts.push("");
+    else parts[parts.length - 1] += char;
+  }
+  return parts;
+};
+
+const parseContentLine = (line: string): ContentLine | null => {
+  const colon = findValueSeparator(line);
+  if (colon < 0) return null;
+
+  const [nameWithGroup, ...paramList] = splitUnquoted(line.slice(0, colon), ";");
+  const dot = nameWithGroup.lastIndexOf(".");
+  const params: Record<string, string[]> = {};
+  const rawParams: Record<string, string[]> = {};
+
+  for (const param of paramList) {
+    const equals = param.indexOf("=");
+    const key = equals >= 0 ? param.slice(0, equals) : "TYPE";
+    const values = splitUnquoted(equals >= 0 ? param.slice(equals + 1) : param, ",").map(
+      (value) => value.replace(/"/g, "")
+    );
+    const name = key.toUpperCase();
+    rawParams[name] = [...(rawParams[name] ?? []), ...values];
+    params[name] = [...(params[name] ?? []), ...values.map((v) => v.toLowerCase())];
+  }
+
+  let value = line.slice(colon + 1);
+  if (params.ENCODING?.includes("quoted-printable")) {
+    value = decodeQuotedPrintable(value);
+  }
+
+  return {
+    group: dot >= 0 ? nameWithGroup.slice(0, dot).toLowerCase() : undefined,
+    name: (dot >= 0 ? nameWithGroup.slice(dot + 1) : nameWithGroup).toUpperCase(),
+    params,
+    rawParams,
+    value,
+  };
+};
+
+// A content line as written in the file, possibly over several physical
+// lines, and joined back together
+interface RawLine {
+  raw: string;
+  unfolded: string;
+}
+
+// Joins folded lines (and quoted-printable soft line breaks) back together
+const readLines = (text: string) => {
+  const lines: RawLine[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const previous = lines[lines.length - 1];
+    if (/^[ \t]/.test(raw) && previous !== undefined) {
+      previous.raw += "\r\n" + raw;
+      previous.unfolded += raw.slice(1);
+    } else if (
+      previous?.unfolded.endsWith("=") &&
+      /ENCODING=QUOTED-PRINTABLE/i.test(previous.unfolded)
+    ) {
+      previous.raw += "\r\n" + raw;
+      previous.unfolded = previous.unfolded.slice(0, -1) + raw;
+    } else {
+      lines.push({ raw, unfolded: raw });
+    }
+  }
+  return lines;
+};
+
+const unfold = (text: string) => readLines(text).map((line) => line.unfolded);
+
+const isCardBoundary = (line: ContentLine | null, name: "BEGIN" | "END") =>
+  line?.name === name && line.value.toUpperCase() === "VCARD";
+
+const telNumber = (line: ContentLine) => unescapeValue(line.value).replace(/^tel:/i, "");
+
+const labelForTypes = (types: string[] | undefined, known: Record<string, string>) => {
+  const relevant = (types ?? []).filter((type) => !IGNORED_TYPES.has(type));
+  if (relevant.length === 0) return "other";
+  const named = relevant.find((type) => known[type]);
+  if (named && relevant.length === 1) return known[named];
+  // Combinations such as HOME,FAX become "home fax"
+  return relevant.map((type) => known[type] ?? type).join(" ");
+};
+
+const parseCard = (lines: ContentLine[]): DeviceContact => {
+  const labels = new Map<string, string>();
+  for (const line of lines) {
+    if (line.name === "X-ABLABEL" && line.group) {
+      // Apple wraps its built-in labels as _$!<Mobile>!$_
+      labels.set(line.group, unescapeValue(line.value).replace(/^_\$!<(.*)>!\$_$/, "$1"));
+    }
+  }
+
+  const contact: DeviceContact = { name: "", contactType: "person" };
+  const phoneNumbers: NonNullable<DeviceContact["phoneNumbers"]> = [];
+  const emails: NonNullable<DeviceContact["emails"]> = [];
+  const addresses: NonNullable<DeviceContact["addresses"]> = [];
+  const urlAddresses: NonNullable<DeviceContact["urlAddresses"]> = [];
+  const instantMessageAddresses: NonNullable<DeviceContact["instantMessageAddresses"]> = [];
+  const socialProfiles: NonNullable<DeviceContact["socialProfiles"]> = [];
+  const dates: NonNullable<DeviceContact["dates"]> = [];
+  const relationships: NonNullable<DeviceContact["relationships"]> = [];
+
+  for (const line of lines) {
+    const label = (known: Record<string, string>) =>
+      (line.group && labels.get(line.group)) || labelForTypes(line.params.TYPE, known);
+
+    switch (line.name) {
+      case "UID":
+        contact.id = unescapeValue(line.value);
+        break;
+      case "FN":
+        contact.name = unescapeValue(line.value);
+        break;
+      case "N": {
+        const [lastName, firstName, middleName, namePrefix, nameSuffix] =
+          splitComponents(line.value);
+        Object.assign(contact, {
+          lastName: lastName || undefined,
+          firstName: firstName || undefined,
+          middleName: middleName || undefined,
+          namePrefix: namePrefix || undefined,
+          nameSuffix: nameSuffix || undefined,
+        });
+        break;
+      }
+      case "NICKNAME":
+        contact.nickname = unescapeValue(line.value);
+        break;
+      case "X-MAIDENNAME":
+        contact.maidenName = unescapeValue(line.value);
+        break;
+      case "X-PHONETIC-FIRST-NAME":
+        contact.phoneticFirstName = unescapeValue(line.value);
+        break;
+      case "X-PHONETIC-MIDDLE-NAME":
+        contact.phoneticMiddleName = unescapeValue(line.value);
+        break;
+      case "X-PHONETIC-LAST-NAME":
+        contact.phoneticLastName = unescapeValue(line.value);
+        break;
+      case "ORG": {
+        const [company, department] = splitComponents(line.value);
+        contact.company = company || undefined;
+        contact.department = department || undefined;
+        break;
+      }
+      case "TITLE":
+        contact.jobTitle = unescapeValue(line.value);
+        break;
+      case "KIND":
+        if (line.value.toLowerCase() === "org") contact.contactType = "company";
+        break;
+      case "X-ABSHOWAS":
+        if (line.value.toUpperCase() === "COMPANY") contact.contactType = "company";
+        break;
+      case "TEL":
+        phoneNumbers.push({ label: label(PHONE_TYPES), number: telNumber(line) });
+        break;
+      case "EMAIL":
+        emails.push({ label: label(EMAIL_TYPES), email: unescapeValue(line.value) });
+        break;
+      case "ADR": {
+        const [, , street, city, region, postalCode, country] = splitComponents(line.value);
+        addresses.push({
+          label: label(LOCATION_TYPES),
+          street: street || undefined,
+          city: city || undefined,
+          region: region || undefined,
+          postalCode: postalCode || undefined,
+          country: country || undefined,
+        });
+        break;
+      }
+      case "URL":
+        urlAddresses.push({ label: label(LOCATION_TYPES), url: unescapeValue(line.value) });
+        break;
+      case "IMPP": {
+        const value = unescapeValue(line.value);
+        const colon = value.indexOf(":");
+        const scheme = value.slice(0, Math.max(colon, 0)).toLowerCase();
+        const service =
+          line.rawParams["X-SERVICE-TYPE"]?.[0] ??
+          Object.keys(IM_SCHEMES).find((name) => IM_SCHEMES[name] === scheme);
+        instantMessageAddresses.push({
+          label: label(LOCATION_TYPES),
+          username: value.slice(colon + 1),
+          ...(service && { service }),
+        });
+        break;
+      }
+      case "X-SOCIALPROFILE": {
+        const [service] = line.rawParams.TYPE ?? [];
+        const [username] = line.rawParams["X-USER"] ?? [];
+        const [userId] = line.rawParams["X-USERID"] ?? [];
+        const url = unescapeValue(line.value);
+        socialProfiles.push({
+          label: (line.group && labels.get(line.group)) || "other",
+          ...(service && { service }),
+          ...(username && { username }),
+          ...(userId && { userId }),
+          ...(url && { url }),
+        });
+        break;
+      }
+      case "BDAY": {
+        const date = parseDate(line.value);
+        if (date) contact.birthday = date;
+        break;
+      }
+      case "X-ABDATE":
+      case "ANNIVERSARY": {
+        const date = parseDate(line.value);
+        const fallback = line.name === "ANNIVERSARY" ? "anniversary" : "other";
+        if (date) {
+          dates.push({ ...date, label: (line.group && labels.get(line.group)) || fallback });
+        }
+        break;
+      }
+      case "X-ABRELATEDNAMES":
+        relationships.push({
+          label: (line.group && labels.get(line.group)) || "other",
+          name: unescapeValue(line.value),
+        });
+        break;
+      case "PHOTO": {
+        const value = line.value.trim();
+        if (value.toLowerCase().startsWith("data:")) {
+          contact.image = { base64: value.slice(value.indexOf(",") + 1) };
+        } else if (line.params.ENCODING?.some((encoding) => ["b", "base64"].includes(encoding))) {
+          contact.image = { base64: value };
+        } else if (value) {
+          contact.image = { uri: value };
+        }
+        break;
+      }
+      case "NOTE":
+        contact.note = unescapeValue(line.value);
+        break;
+    }
+  }
+
+  if (phoneNumbers.length > 0) contact.phoneNumbers = phoneNumbers;
+  if (emails.length > 0) contact.emails = emails;
+  if (addresses.length > 0) contact.addresses = addresses;
+  if (urlAddresses.length > 0) contact.urlAddresses = urlAddresses;
+  if (instantMessageAddresses.length > 0) {
+    contact.instantMessageAddresses = instantMessageAddresses;
+  }
+  if (socialProfiles.length > 0) contact.socialProfiles = socialProfiles;
+  if (dates.length > 0) contact.dates = dates;
+  if (relationships.length > 0) contact.relationships = relationships;
+  if (!contact.name) {
+    contact.name = [contact.firstName, contact.lastName].filter(Boolean).join(" ");
+  }
+
+  return contact;
+};
+
+/**
+ * Parses every card in a vCard 2.1, 3.0 or 4.0 file into device contacts.
+ */
+export const parseVCards = (text: string): DeviceContact[] => {
+  const cards: DeviceContact[] = [];
+  let current: ContentLine[] | null = null;
+
+  for (const raw of unfold(text)) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (isCardBoundary(line, "BEGIN")) {
+      current = [];
+    } else if (isCardBoundary(line, "END")) {
+      if (current) cards.push(parseCard(current));
+      current = null;
+    } else {
+      current?.push(line);
+    }
+  }
+
+  return cards;
+};
+
+/**
+ * Splits a vCard file into the text of each card as written, in the order
+ * parseVCards reads them.
+ */
+export const splitVCards = (text: string): string[] => {
+  const cards: string[] = [];
+  let current: string[] | null = null;
+
+  for (const { raw, unfolded } of readLines(text)) {
+    const line = parseContentLine(unfolded);
+    if (isCardBoundary(line, "BEGIN")) {
+      current = [raw];
+    } else if (current) {
+      current.push(raw);
+      if (isCardBoundary(line, "END")) {
+        cards.push(current.join("\r\n") + "\r\n");
+        current = null;
+      }
+    }
+  }
+
+  return cards;
+};
+
+/**
+ * Writes fixed phone numbers into a card as written in a file. Every other
+ * line is kept exactly as it was, including properties the parser does not
+ * read. A number still at its entry keeps its line, a rewritten one keeps
+ * its parameters and group, and an added one gets a new line.
+ */
+export const replaceVCardPhones = (card: string, phoneNumbers: FilePhoneNumber[]) => {
+  const lines = readLines(card.replace(/\r?\n$/, "")).map((line) => ({
+    ...line,
+    parsed: parseContentLine(line.unfolded),
+  }));
+  const tels = lines.filter((line) => line.parsed?.name === "TEL");
+  const telGroups = new Set(tels.flatMap((line) => line.parsed?.group ?? []));
+  // Label lines and anything else sharing an item group with a number
+  const companions = (group: string | undefined) =>
+    group
+      ? lines.filter((line) => line.parsed?.group === group && line.parsed.name !== "TEL")
+      : [];
+
+  let lastGroup = Math.max(
+    0,
+    ...lines.map((line) => Number(line.parsed?.group?.match(/^item(\d+)$/)?.[1] ?? 0))
+  );
+  const nextGroup = () => `item${++lastGroup}`;
+
+  const phoneLines = phoneNumbers.flatMap(({ label, number, entry }) => {
+    const tel = entry !== undefined ? tels[entry] : undefined;
+    if (!tel?.parsed || tel.parsed.params.ENCODING) {
+      return labelledLines("TEL", escapeValue(number), label, PHONE_TYPES, nextGroup).map(foldLine);
+    }
+    const kept = companions(tel.parsed.group).map((line) => line.raw);
+    if (telNumber(tel.parsed) === number) return [tel.raw, ...kept];
+
+    const separator = findValueSeparator(tel.unfolded);
+    const scheme = /^tel:/i.test(tel.parsed.value) ? tel.parsed.value.slice(0, 4) : "";
+    const rewritten = `${tel.unfolded.slice(0, separator)}:${scheme}${escapeValue(number)}`;
+    return [foldLine(rewritten), ...kept];
+  });
+
+  // The numbers go where the first one was, or at the end of the card
+  const output: string[] = [];
+  let inserted = false;
+  for (const line of lines) {
+    const name = line.parsed?.name;
+    if (!inserted && (name === "TEL" || isCardBoundary(line.parsed, "END"))) {
+      output.push(...phoneLines);
+      inserted = true;
+    }
+    const group = line.parsed?.group;
+    if (name !== "TEL" && !(group && telGroups.has(group))) output.push(line.raw);
+  }
+  if (!inserted) output.push(...phoneLines);
+  return output.join("\r\n") + "\r\n";
+};